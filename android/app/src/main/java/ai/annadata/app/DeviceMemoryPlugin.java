@@ -0,0 +1,28 @@
+package ai.annadata.app;
+
+import android.app.ActivityManager;
+import android.content.Context;
+
+import com.getcapacitor.JSObject;
+import com.getcapacitor.Plugin;
+import com.getcapacitor.PluginCall;
+import com.getcapacitor.PluginMethod;
+import com.getcapacitor.annotation.CapacitorPlugin;
+
+/**
+ * Total RAM of the device, for deciding which models it can run.
+ * @capacitor/device only reports the memory the app itself uses.
+ */
+@CapacitorPlugin(name = "DeviceMemory")
+public class DeviceMemoryPlugin extends Plugin {
+    @PluginMethod
+    public void getTotalMemory(PluginCall call) {
+        ActivityManager activityManager = (ActivityManager) getContext().getSystemService(Context.ACTIVITY_SERVICE);
+        ActivityManager.MemoryInfo memoryInfo = new ActivityManager.MemoryInfo();
+        activityManager.getMemoryInfo(memoryInfo);
+
+        JSObject result = new JSObject();
+        result.put("totalBytes", memoryInfo.totalMem);
+        call.resolve(result);
+    }
+}
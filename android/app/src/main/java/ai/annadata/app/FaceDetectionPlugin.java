@@ -0,0 +1,68 @@
+package ai.annadata.app;
+
+import android.graphics.Bitmap;
+import android.graphics.BitmapFactory;
+import android.graphics.PointF;
+import android.media.FaceDetector;
+import android.util.Base64;
+
+import com.getcapacitor.JSArray;
+import com.getcapacitor.JSObject;
+import com.getcapacitor.Plugin;
+import com.getcapacitor.PluginCall;
+import com.getcapacitor.PluginMethod;
+import com.getcapacitor.annotation.CapacitorPlugin;
+
+/**
+ * Finds faces in a photo on the device, so they can be masked before the
+ * photo is uploaded. Uses the platform detector, which needs no model download.
+ */
+@CapacitorPlugin(name = "FaceDetection")
+public class FaceDetectionPlugin extends Plugin {
+    private static final int MAX_FACES = 10;
+    // The detector is slow on full-size photos and finds faces as well at this width
+    private static final int DETECTION_WIDTH = 1024;
+
+    @PluginMethod
+    public void detectFaces(PluginCall call) {
+        String image = call.getString("image");
+        if (image == null) {
+            call.reject("image is required");
+            return;
+        }
+
+        byte[] bytes = Base64.decode(image, Base64.DEFAULT);
+        Bitmap decoded = BitmapFactory.decodeByteArray(bytes, 0, bytes.length);
+        if (decoded == null) {
+            call.reject("Could not decode image");
+            return;
+        }
+
+        // The detector takes RGB 565 bitmaps of even width
+        float scale = Math.min(1f, (float) DETECTION_WIDTH / decoded.getWidth());
+        int width = Math.max(2, Math.round(decoded.getWidth() * scale) & ~1);
+        int height = Math.max(1, Math.round(decoded.getHeight() * scale));
+        Bitmap bitmap = Bitmap.createScaledBitmap(decoded, width, height, true).copy(Bitmap.Config.RGB_565, false);
+
+        FaceDetector.Face[] faces = new FaceDetector.Face[MAX_FACES];
+        int count = new FaceDetector(width, height, MAX_FACES).findFaces(bitmap, faces);
+
+        JSArray result = new JSArray();
+        PointF midpoint = new PointF();
+        for (int i = 0; i < count; i++) {
+            // Reported as the point between the eyes; a face is about 2.5 eye distances wide and 3 tall
+            faces[i].getMidPoint(midpoint);
+            float eyesDistance = faces[i].eyesDistance();
+            JSObject face = new JSObject();
+            face.put("x", (midpoint.x - eyesDistance * 1.25f) / scale);
+            face.put("y", (midpoint.y - eyesDistance * 1.25f) / scale);
+            face.put("width", eyesDistance * 2.5f / scale);
+            face.put("height", eyesDistance * 3f / scale);
+            result.put(face);
+        }
+
+        JSObject response = new JSObject();
+        response.put("faces", result);
+        call.resolve(response);
+    }
+}
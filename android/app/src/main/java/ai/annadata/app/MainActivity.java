@@ -6,6 +6,9 @@ import com.capacitorjs.plugins.splashscreen.SplashScreenPlugin;
 public class MainActivity extends BridgeActivity {
     @Override
     public void onCreate(android.os.Bundle savedInstanceState) {
+        // Local plugins have to be registered before the bridge starts
+        registerPlugin(DeviceMemoryPlugin.class);
+        registerPlugin(FaceDetectionPlugin.class);
         super.onCreate(savedInstanceState);
         registerPlugin(SplashScreenPlugin.class);
     }
@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { SplashScreen } from '@capacitor/splash-screen';
+import { App as CapacitorApp } from '@capacitor/app';
 import MenuContainer from './components/MenuContainer';
 import ChatContainer from './components/ChatContainer';
 import ChatFooter from './components/ChatFooter';
@@ -10,9 +11,14 @@ import LanguageDetector from 'i18next-browser-languagedetector';
 import { langData, langOptions } from './data/langData'; // Import both exports
 import { capacitorPreferencesDetector } from './js/i18n-detector';
 import AuthService from './services/AuthService';
-import ChatService from './services/ChatService';
+import ChatService, { MessageDeliveryState } from './services/ChatService';
+import OutboxService from './services/OutboxService';
 import SQLiteService from './services/SQLiteService';
+import PseudonymService from './services/PseudonymService';
+import SessionCacheService from './services/SessionCacheService';
 import { getDeviceId } from './services/DeviceInfoService';
+import { ToolStep } from './services/LocalToolService';
+import { registerDefaultLocalTools } from './services/DefaultLocalTools';
 
 // Import global stylesheets
 import './css/style.css';
@@ -32,6 +38,10 @@ interface Message {
   time: string;
   timestamp: string;
   isError?: boolean;
+  isStreaming?: boolean;
+  isPending?: boolean; // Waiting in the outbox for the connection to come back
+  deliveryState?: MessageDeliveryState; // Online user messages only
+  toolSteps?: ToolStep[]; // Tools the offline model called for this reply
 }
 
 interface MessagePayload {
@@ -119,11 +129,51 @@ const App: React.FC = () => {
   const [selectedModel, setSelectedModel] = useState<string>('online'); // Default to online
   const [isLocalProcessing, setIsLocalProcessing] = useState<boolean>(false); // Add this state
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null); // Search hit to scroll to
 
   // Error boundary for the app
   const [hasError, setHasError] = useState<boolean>(false);
   const [errorMessage, setErrorMessage] = useState<string>('');
 
+  // Send messages queued while offline once the connection is back, and clear their pending badge
+  useEffect(() => {
+    const outboxService = OutboxService.getInstance();
+    const unsubscribe = outboxService.subscribe((pendingIds: string[]) => {
+      setMessages(prevMessages => prevMessages.map(msg =>
+        msg.isPending && !pendingIds.includes(msg.id) ? { ...msg, isPending: false } : msg
+      ));
+    });
+    outboxService.initialize();
+    return unsubscribe;
+  }, []);
+
+  // Unit conversion, crop calendar and the other tools the offline model can call
+  useEffect(() => registerDefaultLocalTools(), []);
+
+  // The app may be closed from the background - keep the offline model's cache of this chat
+  useEffect(() => {
+    const listener = CapacitorApp.addListener('appStateChange', ({ isActive }) => {
+      if (!isActive) {
+        SessionCacheService.getInstance().save(currentSessionId);
+      }
+    });
+    return () => {
+      listener.then(handle => handle.remove());
+    };
+  }, [currentSessionId]);
+
+  // Track sent -> delivered -> processing -> answered on online user messages
+  useEffect(() => {
+    const handleDeliveryState = (messageId: string, state: MessageDeliveryState): void => {
+      setMessages(prevMessages => prevMessages.map(msg =>
+        msg.id === messageId ? { ...msg, deliveryState: state } : msg
+      ));
+    };
+
+    ChatService.onDeliveryState(handleDeliveryState);
+    return () => ChatService.removeDeliveryStateCallback(handleDeliveryState);
+  }, []);
+
   if (hasError) {
     return (
       <div style={{ padding: '20px', fontFamily: 'Arial, sans-serif' }}>
@@ -146,9 +196,14 @@ const App: React.FC = () => {
   };
 
   // Handle session selection from chat history
-  const handleSessionSelect = async (sessionId: string) => {
+  const handleSessionSelect = async (sessionId: string, messageId?: string) => {
     try {
       console.log('🔄 Loading session:', sessionId);
+
+      // Leaving this chat - save what the offline model evaluated of it for when the user returns
+      if (currentSessionId && currentSessionId !== sessionId) {
+        await SessionCacheService.getInstance().save(currentSessionId);
+      }
       
       const sqliteService = SQLiteService.getInstance();
       await sqliteService.initialize();
@@ -156,17 +211,21 @@ const App: React.FC = () => {
       const sessionMessages = await sqliteService.getSessionMessages(sessionId);
       
       // Convert SQLite messages to App message format
+      const pendingIds = OutboxService.getInstance().getPendingIds();
       const convertedMessages: Message[] = sessionMessages.map(msg => ({
         id: msg.message_id,
         text: msg.content,
         sender: msg.sender,
         time: new Date(msg.created_at).toLocaleTimeString(),
         timestamp: msg.created_at,
-        isError: msg.is_error
+        isError: msg.is_error,
+        isPending: pendingIds.includes(msg.message_id),
+        toolSteps: msg.metadata?.toolSteps
       }));
       
       setMessages(convertedMessages);
       setCurrentSessionId(sessionId);
+      setFocusedMessageId(messageId ?? null);
       
       console.log('✅ Session loaded successfully:', sessionId, 'Messages:', convertedMessages.length);
     } catch (error) {
@@ -191,14 +250,16 @@ const App: React.FC = () => {
       console.log('🔧 [APP] SQLite service initialized');
 
       // Check if session exists, if not create it
-      if (!currentSessionId) {
+      if (!sessionId) {
         console.log('🆔 [APP] No current session, creating new one...');
         const newSessionId = await sqliteService.createSession(deviceId, 'New Chat');
+        // Placeholders sent before the chat was saved belong to it now
+        await PseudonymService.getInstance().adoptPendingSession(newSessionId);
         setCurrentSessionId(newSessionId);
         sessionId = newSessionId;
         console.log('✅ [APP] New session created:', newSessionId);
       } else {
-        console.log('🔄 [APP] Using existing session:', currentSessionId);
+        console.log('🔄 [APP] Using existing session:', sessionId);
       }
 
       console.log('💾 [APP] Saving message to SQLite...');
@@ -207,8 +268,10 @@ const App: React.FC = () => {
         session_id: sessionId,
         content: message.text,
         sender: message.sender,
+        model_used: message.sender === 'bot' ? selectedModel : undefined,
         created_at: message.timestamp,
-        is_error: message.isError || false
+        is_error: message.isError || false,
+        metadata: message.toolSteps?.length ? { toolSteps: message.toolSteps } : undefined
       });
 
       console.log('✅ [APP] Message saved to SQLite successfully');
@@ -310,13 +373,31 @@ const App: React.FC = () => {
           
           console.log('📝 [APP] Created online bot message:', botMessage.id);
           
+          // The answer belongs to the session of the question, which may no longer be open
+          let targetSessionId: string | null = currentSessionId;
+          if (payload.reply_to) {
+            try {
+              const sqliteService = SQLiteService.getInstance();
+              const question = await sqliteService.getMessage(payload.reply_to);
+              if (question) {
+                targetSessionId = question.session_id;
+              }
+            } catch (error) {
+              console.warn('⚠️ [APP] Could not look up the question of an online answer:', error);
+            }
+          }
+          
           // Add to messages state
-          setMessages(prevMessages => [...prevMessages, botMessage]);
+          if (targetSessionId === currentSessionId) {
+            setMessages(prevMessages => [...prevMessages, botMessage]);
+          } else {
+            console.log('📥 [APP] Online answer belongs to session', targetSessionId, '- saving without showing it');
+          }
           
           // Save to SQLite
           console.log('💾 [APP] Saving online bot message to SQLite...');
-          if (currentSessionId) {
-            await saveMessageToSQLite(botMessage, currentSessionId);
+          if (targetSessionId) {
+            await saveMessageToSQLite(botMessage, targetSessionId);
           } else {
             console.log('⚠️ [APP] No currentSessionId for online bot message, creating new session...');
             await saveMessageToSQLite(botMessage, '');
@@ -327,8 +408,9 @@ const App: React.FC = () => {
       }
     };
 
-    // Register WebSocket message handler
+    // Register WebSocket message handler - replaced whenever the session changes
     ChatService.onMessage(handleWebSocketMessage);
+    return () => ChatService.removeMessageCallback(handleWebSocketMessage);
   }, [currentSessionId]);
 
   useEffect(() => {
@@ -358,7 +440,7 @@ const App: React.FC = () => {
 
   try {
     // Fix: Create a proper message handler function
-    const handleSendMessage = async (messageText: string): Promise<void> => {
+    const handleSendMessage = async (messageText: string): Promise<string> => {
       console.log('🔍 [APP] handleSendMessage called with text:', messageText);
       const newMessage: Message = {
         id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -379,6 +461,8 @@ const App: React.FC = () => {
         console.log('⚠️ [APP] No currentSessionId, creating new session...');
         await saveMessageToSQLite(newMessage, '');
       }
+
+      return newMessage.id;
     };
 
     // Handle bot messages - save them to SQLite
@@ -410,6 +494,9 @@ const App: React.FC = () => {
           onModelChange={setSelectedModel}
           isOffline={isOffline}
           isLoading={isLocalProcessing} // Pass the loading state
+          focusedMessageId={focusedMessageId}
+          onFocusedMessageShown={() => setFocusedMessageId(null)}
+          sessionId={currentSessionId}
         />
         <ChatFooter 
           onSendMessage={handleSendMessage} 
@@ -417,6 +504,7 @@ const App: React.FC = () => {
           setMessages={setMessages}
           selectedModel={selectedModel}
           onLoadingChange={handleLoadingChange} // Pass the loading handler
+          sessionId={currentSessionId}
         />
       </div>
     );
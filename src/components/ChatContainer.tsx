@@ -1,7 +1,13 @@
 import React, { useState, useEffect, useRef } from 'react';
 import MarkdownService from '../services/MarkdownService';
 import { useTranslation } from 'react-i18next';
-import LlamaService, { LlamaModel } from '../services/LlamaService';
+import LlamaService, { LlamaModel, LoraAdapterSetting } from '../services/LlamaService';
+import ModelDownloadManager, { ModelDownloadEntry } from '../services/ModelDownloadManager';
+import ModelCatalogService from '../services/ModelCatalogService';
+import { MessageDeliveryState } from '../services/ChatService';
+import PseudonymService from '../services/PseudonymService';
+import SessionCacheService from '../services/SessionCacheService';
+import { ToolStep } from '../services/LocalToolService';
 import '../css/chat.css';
 import '../css/markdown.css';
 import '../css/welcome.css';
@@ -14,6 +20,10 @@ interface Message {
   sender: 'bot' | 'user';
   time?: string;
   isError?: boolean;
+  isStreaming?: boolean;
+  isPending?: boolean;
+  deliveryState?: MessageDeliveryState;
+  toolSteps?: ToolStep[];
 }
 
 interface ChatContainerProps {
@@ -22,12 +32,27 @@ interface ChatContainerProps {
   selectedModel?: string;
   onModelChange?: (model: string) => void;
   isOffline?: boolean;
+  // Message to scroll to and highlight, e.g. a chat history search hit
+  focusedMessageId?: string | null;
+  onFocusedMessageShown?: () => void;
+  // Current chat session, whose placeholders are shown as the values they stand for
+  sessionId?: string | null;
 }
 
 interface CopyButtonEvent extends React.MouseEvent<HTMLButtonElement> {
   target: HTMLButtonElement;
 }
 
+// Indicator shown next to online user messages
+const DELIVERY_STATE_ICONS: Record<MessageDeliveryState, string> = {
+  sending: '⋯',
+  delivered: '✓',
+  processing: '✓✓',
+  answered: '✓✓',
+  failed: '⚠️',
+  timed_out: '⌛'
+};
+
 // Update ModelType to include 'online'
 type ModelType = 'online' | 'smol-lm-3-3b-q4' | 'gemma-3n-e2b-q3' | 'qwen-3-4b-q3' | 'gemma-3n-e4b-q3' | 'ultravox-v0.5-llama-3.2-1b-q4' | 'llama-2-7b-chat.Q4_K_M.gguf';
 
@@ -36,7 +61,10 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
   isLoading = false,
   selectedModel,
   onModelChange,
-  isOffline = false
+  isOffline = false,
+  focusedMessageId = null,
+  onFocusedMessageShown,
+  sessionId = null
 }) => {
   const { t } = useTranslation();
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -46,19 +74,31 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
   const [availableModels, setAvailableModels] = useState<LlamaModel[]>([]);
   const [downloadedModels, setDownloadedModels] = useState<LlamaModel[]>([]);
   const [isModelLoading, setIsModelLoading] = useState<boolean>(false);
-  const [downloadingModel, setDownloadingModel] = useState<string | null>(null);
-  const [downloadProgress, setDownloadProgress] = useState<number>(0);
   const [llamaService] = useState(() => LlamaService.getInstance());
+  const [downloadManager] = useState(() => ModelDownloadManager.getInstance());
+  const [downloadQueue, setDownloadQueue] = useState<ModelDownloadEntry[]>([]);
+  const [pseudonymService] = useState(() => PseudonymService.getInstance());
+  const [placeholders, setPlaceholders] = useState<Map<string, string>>(new Map());
+  // LoRA adapter settings as shown, ahead of the service while a slider is dragged
+  const [loraSettings, setLoraSettings] = useState<Record<string, LoraAdapterSetting>>({});
+  const [isApplyingLora, setIsApplyingLora] = useState<boolean>(false);
+  const [sessionCacheService] = useState(() => SessionCacheService.getInstance());
+  // The selected vision model was downloaded without its projector, so it cannot read photos yet
+  const [isProjectorMissing, setIsProjectorMissing] = useState<boolean>(false);
+  // Storage taken by saved offline chat sessions, shown with the model picker
+  const [sessionCacheUsage, setSessionCacheUsage] = useState<{ files: number; bytes: number } | null>(null);
   
   // Add new state variables for download status tracking
   const [downloadError, setDownloadError] = useState<string | null>(null);
-  const [isDownloading, setIsDownloading] = useState<boolean>(false);
   const [downloadSuccess, setDownloadSuccess] = useState<boolean>(false);
   const [deletingModel, setDeletingModel] = useState<string | null>(null);
   const [isUserScrolling, setIsUserScrolling] = useState<boolean>(false);
   const [shouldAutoScroll, setShouldAutoScroll] = useState<boolean>(true);
   const scrollTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const chatMessagesRef = useRef<HTMLDivElement>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const focusedMessageIdRef = useRef<string | null>(focusedMessageId);
+  focusedMessageIdRef.current = focusedMessageId;
 
   // Initialize llama service
   useEffect(() => {
@@ -67,6 +107,9 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
         await llamaService.initialize();
         setAvailableModels(llamaService.getAvailableModels());
         setDownloadedModels(llamaService.getDownloadedModels());
+
+        // Pick up added / retired models from the remote catalog
+        setAvailableModels(await llamaService.refreshModelCatalog());
       } catch (error) {
         console.error('Failed to initialize llama service:', error);
       }
@@ -75,8 +118,80 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
     initializeLlama();
   }, [llamaService]);
 
+  // Placeholders sent instead of sensitive values, to show replies with the real values
+  useEffect(() => {
+    let cancelled = false;
+    const loadPlaceholders = async (): Promise<void> => {
+      const loaded = await pseudonymService.getPlaceholders(sessionId);
+      if (!cancelled) {
+        setPlaceholders(new Map(loaded));
+      }
+    };
+
+    loadPlaceholders();
+    const unsubscribe = pseudonymService.subscribe(() => {
+      loadPlaceholders();
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [pseudonymService, sessionId]);
+
+  // The active download (if any) drives the status label and progress bar
+  const activeDownload = downloadQueue.find(entry => entry.status === 'downloading') || null;
+  const downloadingModel = activeDownload ? activeDownload.modelId : null;
+  const downloadProgress = activeDownload ? activeDownload.percentage : 0;
+  const isDownloading = activeDownload !== null;
+  const selectedModelRef = useRef<string | undefined>(undefined);
+
+  // Follow the download queue (restored from the previous app run on first subscribe)
+  useEffect(() => {
+    const unsubscribe = downloadManager.subscribe(async (queue, event) => {
+      setDownloadQueue(queue);
+
+      if (event?.type === 'completed') {
+        setDownloadedModels(llamaService.getDownloadedModels());
+
+        // An adapter is downloaded to be used - turn it on at its suggested scale
+        const adapter = llamaService.getModel(event.modelId);
+        if (adapter && llamaService.isLoraAdapter(adapter)) {
+          const setting = llamaService.getLoraSetting(adapter.id);
+          await llamaService.setLoraAdapter(adapter.id, { ...setting, enabled: true });
+          setLoraSettings(prev => ({ ...prev, [adapter.id]: { ...setting, enabled: true } }));
+        }
+        setDownloadSuccess(true);
+        setTimeout(() => {
+          setDownloadSuccess(false);
+        }, 3000);
+
+        // Auto-load the downloaded model if it is the one selected
+        if (selectedModelRef.current === event.modelId) {
+          try {
+            await llamaService.loadModel(event.modelId);
+            console.log(`Model ${event.modelId} downloaded and loaded successfully`);
+          } catch (error) {
+            console.error(`Failed to load downloaded model ${event.modelId}:`, error);
+          }
+        }
+      } else if (event?.type === 'failed') {
+        const errorMessage = getDownloadErrorMessage(event.modelId, event.error);
+        setDownloadError(errorMessage);
+        console.error('Download error:', errorMessage);
+      }
+    });
+
+    downloadManager.initialize();
+    return unsubscribe;
+  }, [downloadManager, llamaService]);
+
   // Auto-scroll to bottom when new messages are added
   useEffect(() => {
+    // A session opened from search is positioned on the matching message instead
+    if (focusedMessageIdRef.current) {
+      return;
+    }
+
     if (messagesEndRef.current && messages.length > 0) {
       // Always scroll to show the latest message (both user and bot messages)
       messagesEndRef.current.scrollIntoView({ 
@@ -91,6 +206,32 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
     }
   }, [messages]); // Trigger when messages array changes
 
+  // Scroll to a message opened from chat history search and flash it
+  useEffect(() => {
+    if (!focusedMessageId) {
+      return;
+    }
+
+    const element = chatMessagesRef.current?.querySelector(`[data-message-id="${CSS.escape(focusedMessageId)}"]`);
+    if (!element) {
+      // The session's messages have not rendered yet
+      return;
+    }
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setShouldAutoScroll(false);
+    setHighlightedMessageId(focusedMessageId);
+    onFocusedMessageShown?.();
+  }, [focusedMessageId, messages, onFocusedMessageShown]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) {
+      return;
+    }
+    const timer = setTimeout(() => setHighlightedMessageId(null), 3000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
   // Function to ensure latest message is always visible
   const ensureLatestMessageVisible = () => {
     if (messagesEndRef.current) {
@@ -148,10 +289,20 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
 
   // Use the prop if provided, otherwise use local state
   const currentSelectedModel = selectedModel || localSelectedModel;
+  selectedModelRef.current = currentSelectedModel;
 
   // Handle model selection change
   const handleModelChange = async (event: React.ChangeEvent<HTMLSelectElement>): Promise<void> => {
     const newModelId = event.target.value as ModelType;
+
+    // Document search models are only downloaded; the chat model stays as it was
+    const retrievalModel = llamaService.getModel(newModelId);
+    if (retrievalModel && llamaService.isRetrievalModel(retrievalModel)) {
+      if (retrievalModel.status !== 'downloaded') {
+        await handleModelDownload(newModelId);
+      }
+      return;
+    }
     
     if (onModelChange) {
       onModelChange(newModelId);
@@ -214,73 +365,42 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
     }
   };
 
-  // Handle model download - simplified
+  // Build a user-facing message for a failed download
+  const getDownloadErrorMessage = (modelId: string, error?: string): string => {
+    let errorMessage = `Failed to download model ${modelId}. `;
+    
+    // Provide specific error messages based on the error type
+    if (error) {
+      if (error.includes('Storage permissions') || error.includes('Permission denied')) {
+        errorMessage += 'Storage permissions are required. Please grant storage permissions to the app in Android settings and try again.';
+      } else if (error.includes('filesystem error') || error.includes('create_directories')) {
+        errorMessage += 'Storage access error. Please check app permissions in Android settings and try again.';
+      } else if (error.includes('internet') || error.includes('network') || error.includes('connection')) {
+        errorMessage += 'Please check your internet connection and try again. The download will continue where it stopped.';
+      } else if (error.includes('integrity check')) {
+        errorMessage += 'The downloaded file did not match its checksum and was removed. Please try again.';
+      } else if (error.includes('Download preparation failed')) {
+        errorMessage += 'Download preparation failed. Please check your internet connection and storage permissions, then try again.';
+      } else {
+        errorMessage += `Error: ${error}`;
+      }
+    } else {
+      errorMessage += 'Please check your internet connection and try again.';
+    }
+
+    return errorMessage;
+  };
+
+  // Handle model download - queued in the download manager, which resumes
+  // partial files and persists the queue across restarts
   const handleModelDownload = async (modelId: string): Promise<void> => {
     try {
-      setDownloadingModel(modelId);
-      setDownloadProgress(0);
-      setIsDownloading(true);
       setDownloadError(null);
       setDownloadSuccess(false);
-
-      await llamaService.downloadModel(modelId, (progress: { loaded: number; total: number; percentage: number }) => {
-        // console.log(`📊 Progress update received: ${progress.percentage}% (${progress.loaded}/${progress.total})`);
-        setDownloadProgress(progress.percentage);
-      });
-
-      // Update downloaded models list
-      setDownloadedModels(llamaService.getDownloadedModels());
-      
-      // Auto-load the downloaded model
-      await llamaService.loadModel(modelId);
-      setLocalSelectedModel(modelId as ModelType);
-      
-      console.log(`Model ${modelId} downloaded and loaded successfully`);
-      setDownloadSuccess(true);
-      
-      // Reset success state after a delay
-      setTimeout(() => {
-        setDownloadSuccess(false);
-      }, 3000);
-      
+      await downloadManager.enqueue(modelId);
     } catch (error) {
-      console.error(`Failed to download model ${modelId}:`, error);
-      
-      let errorMessage = `Failed to download model ${modelId}. `;
-      
-      // Provide specific error messages based on the error type
-      if (error instanceof Error) {
-        if (error.message.includes('Storage permissions') || error.message.includes('Permission denied')) {
-          errorMessage += 'Storage permissions are required. Please grant storage permissions to the app in Android settings and try again.';
-        } else if (error.message.includes('filesystem error') || error.message.includes('create_directories')) {
-          errorMessage += 'Storage access error. Please check app permissions in Android settings and try again.';
-        } else if (error.message.includes('internet') || error.message.includes('network') || error.message.includes('connection')) {
-          errorMessage += 'Please check your internet connection and try again.';
-        } else if (error.message.includes('Download preparation failed')) {
-          errorMessage += 'Download preparation failed. Please check your internet connection and storage permissions, then try again.';
-        } else {
-          errorMessage += `Error: ${error.message}`;
-        }
-      } else {
-        errorMessage += 'Please check your internet connection and try again.';
-      }
-      
-      setDownloadError(errorMessage);
-      
-      // Show error message in chat (you can customize this)
-      const errorMsg: Message = {
-        id: `error-${Date.now()}`,
-        text: errorMessage,
-        sender: 'bot',
-        time: new Date().toLocaleTimeString(),
-        isError: true
-      };
-      // You can add this to your messages state if needed
-      console.error('Download error:', errorMsg.text);
-    } finally {
-      setDownloadingModel(null);
-      setDownloadProgress(0);
-      setIsDownloading(false);
+      console.error(`Failed to queue download of model ${modelId}:`, error);
+      setDownloadError(getDownloadErrorMessage(modelId, error instanceof Error ? error.message : undefined));
     }
   };
 
@@ -347,21 +467,24 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
       }
     ];
 
-    // Add downloaded models
-    downloadedModels.forEach(model => {
+    // Add downloaded models - search models are used automatically and cannot be chatted with.
+    // LoRA adapters are listed under their base model instead.
+    downloadedModels.filter(model => !llamaService.isLoraAdapter(model)).forEach(model => {
+      const isRetrievalModel = llamaService.isRetrievalModel(model);
       options.push({
         value: model.id,
-        label: `🤖 ${model.name}`,
-        disabled: false
+        label: isRetrievalModel ? `📚 ${model.name}` : `🤖 ${model.name}`,
+        disabled: isRetrievalModel
       });
     });
 
-    // Add available models that are not downloaded
+    // Add available models that are not downloaded (hiding those this device lacks the memory for)
+    const catalogService = ModelCatalogService.getInstance();
     availableModels.forEach(model => {
-      if (!downloadedModels.find(dm => dm.id === model.id)) {
+      if (!downloadedModels.find(dm => dm.id === model.id) && !llamaService.isLoraAdapter(model) && catalogService.canDeviceRun(model)) {
         options.push({
           value: model.id,
-          label: `⬇️ ${model.name} (${formatSizeInGB(model.sizeMB)})`,
+          label: `⬇️ ${llamaService.isRetrievalModel(model) ? '📚 ' : ''}${model.name} (${formatSizeInGB(model.sizeMB)})`,
           disabled: false
         });
       }
@@ -370,6 +493,167 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
     return options;
   };
 
+  const getLoraSetting = (adapterId: string): LoraAdapterSetting =>
+    loraSettings[adapterId] ?? llamaService.getLoraSetting(adapterId);
+
+  // Show the change at once; `apply` also applies it to the model (not on every slider step)
+  const handleLoraChange = async (adapterId: string, setting: LoraAdapterSetting, apply: boolean): Promise<void> => {
+    setLoraSettings(prev => ({ ...prev, [adapterId]: setting }));
+    if (!apply) {
+      return;
+    }
+
+    setIsApplyingLora(true);
+    try {
+      await llamaService.setLoraAdapter(adapterId, setting);
+    } catch (error) {
+      console.error(`Failed to apply LoRA adapter ${adapterId}:`, error);
+    } finally {
+      setIsApplyingLora(false);
+    }
+  };
+
+  // Adapters for the selected model: download, turn on and scale
+  const renderLoraAdapters = (): React.ReactElement | null => {
+    if (currentSelectedModel === 'online') {
+      return null;
+    }
+    const adapters = llamaService.getLoraAdapters(currentSelectedModel);
+    if (adapters.length === 0) {
+      return null;
+    }
+
+    return (
+      <div className="lora-adapters">
+        {adapters.map(adapter => {
+          const setting = getLoraSetting(adapter.id);
+          const isDownloaded = downloadedModels.some(model => model.id === adapter.id);
+          if (!isDownloaded) {
+            return (
+              <button
+                key={adapter.id}
+                type="button"
+                className="lora-adapter-download"
+                onClick={() => handleModelDownload(adapter.id)}
+                disabled={downloadQueue.some(entry => entry.modelId === adapter.id)}
+                title={adapter.description}
+              >
+                ⬇️ 🧩 {adapter.name} ({adapter.sizeMB}MB)
+              </button>
+            );
+          }
+
+          return (
+            <div key={adapter.id} className="lora-adapter" title={adapter.description}>
+              <label className="lora-adapter-toggle">
+                <input
+                  type="checkbox"
+                  checked={setting.enabled}
+                  disabled={isApplyingLora}
+                  onChange={(event: React.ChangeEvent<HTMLInputElement>) =>
+                    handleLoraChange(adapter.id, { ...setting, enabled: event.target.checked }, true)
+                  }
+                />
+                🧩 {adapter.name}
+              </label>
+              <input
+                type="range"
+                className="lora-adapter-scale"
+                min={0}
+                max={1}
+                step={0.05}
+                value={setting.scale}
+                disabled={!setting.enabled || isApplyingLora}
+                aria-label={t('lora_scale', 'Adapter strength')}
+                onChange={(event: React.ChangeEvent<HTMLInputElement>) =>
+                  handleLoraChange(adapter.id, { ...setting, scale: Number(event.target.value) }, false)
+                }
+                onPointerUp={(event: React.PointerEvent<HTMLInputElement>) =>
+                  handleLoraChange(adapter.id, { ...setting, scale: Number(event.currentTarget.value) }, true)
+                }
+                onKeyUp={(event: React.KeyboardEvent<HTMLInputElement>) =>
+                  handleLoraChange(adapter.id, { ...setting, scale: Number(event.currentTarget.value) }, true)
+                }
+              />
+              <span className="lora-adapter-scale-value">{setting.scale.toFixed(2)}</span>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  // Check again when a download ends, which may have been the projector
+  useEffect(() => {
+    if (currentSelectedModel === 'online') {
+      setIsProjectorMissing(false);
+      return;
+    }
+    llamaService.isProjectorMissing(currentSelectedModel)
+      .then(setIsProjectorMissing)
+      .catch(error => console.error('Failed to check for the vision projector:', error));
+  }, [currentSelectedModel, downloadedModels, isDownloading, llamaService]);
+
+  // Image input for a vision model that has only its weights
+  const renderProjectorDownload = (): React.ReactElement | null => {
+    const model = llamaService.getModel(currentSelectedModel);
+    if (!model || !isProjectorMissing) {
+      return null;
+    }
+
+    return (
+      <button
+        type="button"
+        className="lora-adapter-download"
+        onClick={() => handleModelDownload(model.id)}
+        disabled={downloadQueue.some(entry => entry.modelId === model.id)}
+      >
+        ⬇️ 🖼️ {t('vision_projector_download', 'Photo support for {{name}}', { name: model.name })}
+        {model.mmprojSizeMB ? ` (${model.mmprojSizeMB}MB)` : ''}
+      </button>
+    );
+  };
+
+  // A chat's session is saved when the user leaves it, so count again on every switch
+  useEffect(() => {
+    if (currentSelectedModel === 'online') {
+      return;
+    }
+    sessionCacheService.getUsage()
+      .then(setSessionCacheUsage)
+      .catch(error => console.error('Failed to read session cache usage:', error));
+  }, [sessionId, currentSelectedModel, sessionCacheService]);
+
+  const handleClearSessionCaches = async (): Promise<void> => {
+    try {
+      await sessionCacheService.clear();
+      setSessionCacheUsage(await sessionCacheService.getUsage());
+    } catch (error) {
+      console.error('Failed to delete saved sessions:', error);
+    }
+  };
+
+  // Saved offline chat sessions: their size and a way to free it
+  const renderSessionCacheUsage = (): React.ReactElement | null => {
+    if (currentSelectedModel === 'online' || !sessionCacheUsage || sessionCacheUsage.files === 0) {
+      return null;
+    }
+
+    return (
+      <div className="session-cache-usage">
+        <span>
+          💾 {t('session_cache_usage', 'Saved chats: {{count}} ({{size}}MB)', {
+            count: sessionCacheUsage.files,
+            size: (sessionCacheUsage.bytes / (1024 * 1024)).toFixed(1)
+          })}
+        </span>
+        <button type="button" className="session-cache-clear" onClick={handleClearSessionCaches}>
+          {t('session_cache_clear', 'Clear')}
+        </button>
+      </div>
+    );
+  };
+
   // Helper function to get the status text and tooltip
   const getStatusInfo = () => {
     if (downloadError) {
@@ -654,17 +938,57 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
     </div>
   );
 
-  const renderMessage = (message: Message): React.ReactElement => {
+  const getDeliveryStateLabel = (state: MessageDeliveryState): string => {
+    switch (state) {
+      case 'sending':
+        return t('delivery_sending', 'Sending');
+      case 'delivered':
+        return t('delivery_delivered', 'Delivered');
+      case 'processing':
+        return t('delivery_processing', 'Preparing answer');
+      case 'answered':
+        return t('delivery_answered', 'Answered');
+      case 'failed':
+        return t('delivery_failed', 'Could not be sent');
+      case 'timed_out':
+        return t('delivery_timed_out', 'No answer yet - it will still appear if it arrives');
+    }
+  };
+
+  // The tools the offline model called before answering, collapsed under the reply
+  const renderToolSteps = (steps: ToolStep[]): React.ReactElement => (
+    <details className="tool-steps">
+      <summary>🔧 {t('tool_steps_summary', 'Used {{count}} tool(s)', { count: steps.length })}</summary>
+      <ol>
+        {steps.map((step, index) => (
+          <li key={index} className={step.error ? 'tool-step-failed' : ''}>
+            <code>{step.tool}({Object.entries(step.arguments).map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(', ')})</code>
+            <span className="tool-step-result">
+              {step.error ? `⚠️ ${step.error}` : `→ ${step.result}`}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+
+  const lastBotMessageId = [...messages].reverse().find(message => message.sender === 'bot')?.id;
+
+  const renderMessage = (storedMessage: Message): React.ReactElement => {
     const statusInfo = getStatusInfo();
+    // Real values never left the device; put them back where the AI used their placeholders
+    const message = { ...storedMessage, text: pseudonymService.restore(storedMessage.text, placeholders) };
     
     return (
       <table 
         key={message.id} 
-        className={`message ${message.sender === 'bot' ? 'bot-message' : 'user-message'} ${message.isError ? 'error-message' : ''}`}
+        data-message-id={message.id}
+        className={`message ${message.sender === 'bot' ? 'bot-message' : 'user-message'} ${message.isError ? 'error-message' : ''} ${message.isStreaming ? 'streaming-message' : ''} ${message.isPending ? 'pending-message' : ''} ${message.id === highlightedMessageId ? 'focused-message' : ''}`}
       >
         <tbody>
           <tr>
             <td className="message-content">
+              {message.toolSteps && message.toolSteps.length > 0 && renderToolSteps(message.toolSteps)}
               {renderMessageContent(message)}
             </td>
           </tr>
@@ -675,6 +999,24 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
                   {message.time}
                 </span>
               )}
+              {message.isPending && (
+                <span
+                  className="message-pending-badge"
+                  title={t('message_pending', 'Waiting for connection - will be sent automatically')}
+                  aria-label={t('message_pending', 'Waiting for connection - will be sent automatically')}
+                >
+                  🕒
+                </span>
+              )}
+              {!message.isPending && message.deliveryState && (
+                <span
+                  className={`message-delivery-state delivery-${message.deliveryState}`}
+                  title={getDeliveryStateLabel(message.deliveryState)}
+                  aria-label={getDeliveryStateLabel(message.deliveryState)}
+                >
+                  {DELIVERY_STATE_ICONS[message.deliveryState]}
+                </span>
+              )}
               {/* Debug info - remove after fixing */}
               {message.sender === 'bot' && (
                 <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-start', marginRight: '5px' }}>
@@ -782,6 +1124,16 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
               />
             </td>
           </tr>
+          {/* Adapters go with the model picker, once under the latest reply */}
+          {shouldShowModelDropdown(message) && message.id === lastBotMessageId && (
+            <tr>
+              <td>
+                {renderProjectorDownload()}
+                {renderLoraAdapters()}
+                {renderSessionCacheUsage()}
+              </td>
+            </tr>
+          )}
         </tbody>
       </table>
     );
@@ -804,6 +1156,57 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
     }
   };
 
+  // Queued / paused / failed model downloads with their controls
+  const renderDownloadQueue = (): React.ReactElement | null => {
+    if (downloadQueue.length === 0) return null;
+
+    const formatMB = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(0)}MB`;
+
+    return (
+      <div className="model-download-queue">
+        {downloadQueue.map(entry => {
+          const model = availableModels.find(m => m.id === entry.modelId);
+          const statusLabels: Record<ModelDownloadEntry['status'], string> = {
+            queued: t('download_queued', 'Queued'),
+            downloading: t('download_downloading', 'Downloading'),
+            paused: t('download_paused', 'Paused'),
+            error: t('download_failed', 'Failed')
+          };
+
+          return (
+            <div key={entry.modelId} className={`model-download-item ${entry.status}`} title={entry.error || ''}>
+              <div className="model-download-header">
+                <span className="model-download-name">{model?.name || entry.modelId}</span>
+                <span className="model-download-status">
+                  {statusLabels[entry.status]}
+                  {entry.total > 0 && ` · ${formatMB(entry.loaded)} / ${formatMB(entry.total)}`}
+                </span>
+              </div>
+              <div className="model-download-progress">
+                <div className="model-download-progress-bar" style={{ width: `${entry.percentage}%` }} />
+              </div>
+              <div className="model-download-actions">
+                {(entry.status === 'queued' || entry.status === 'downloading') && (
+                  <button type="button" onClick={() => downloadManager.pause(entry.modelId)}>
+                    {t('download_pause', 'Pause')}
+                  </button>
+                )}
+                {(entry.status === 'paused' || entry.status === 'error') && (
+                  <button type="button" onClick={() => downloadManager.resume(entry.modelId)}>
+                    {entry.status === 'error' ? t('download_retry', 'Retry') : t('download_resume', 'Resume')}
+                  </button>
+                )}
+                <button type="button" onClick={() => downloadManager.cancel(entry.modelId)}>
+                  {t('download_cancel', 'Cancel')}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
   const renderLoadingAnimation = (): React.ReactElement | null => {
     if (!isLoading) return null;
     
@@ -829,6 +1232,9 @@ const ChatContainer: React.FC<ChatContainerProps> = ({
         </div>
       </div>
       
+      {/* Model download queue - pause / resume / cancel */}
+      {renderDownloadQueue()}
+
       {/* Loading animation - shows when waiting for bot response */}
       {renderLoadingAnimation()}
     </div>
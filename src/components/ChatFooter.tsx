@@ -7,16 +7,25 @@ import AuthService from '../services/AuthService';
 import { SpeechRecognitionService } from '../services/SpeechService';
 import { fileService, FileType } from '../services/FileService';
 import { CameraService, CameraPhoto } from '../services/CameraService';
-import LlamaService from '../services/LlamaService';
+import LlamaService, { TokenData } from '../services/LlamaService';
+import ConversationMemoryService from '../services/ConversationMemoryService';
 import SQLiteService from '../services/SQLiteService';
+import OutboxService from '../services/OutboxService';
 import { getDeviceId, setCurrentSessionId, getCurrentSessionId } from '../services/DeviceInfoService';
-import DocumentRedactionService, { RedactionResult, DocumentProcessingOptions } from '../services/DocumentRedactionService';
+import PseudonymService from '../services/PseudonymService';
+import { SensitiveFinding } from '../services/SensitiveContentDetector';
+import DocumentRedactionService, { RedactionEdit, RedactionPage, RedactionResult, RedactionPreferences } from '../services/DocumentRedactionService';
 import { DocumentAnalysis, ContentSection } from '../services/ContentAnalysisService';
 import PDFAnnotationService from '../services/PDFAnnotationService';
+import DocumentRetrievalService from '../services/DocumentRetrievalService';
+import FarmerQueryService, { FarmerQueryForm } from '../services/FarmerQueryService';
+import LocalToolService, { ToolStep } from '../services/LocalToolService';
+import SessionCacheService from '../services/SessionCacheService';
 import PDFAnnotationTester from '../services/PDFAnnotationTester';
 import EnhancedPDFParser, { OCRConfig } from '../services/EnhancedPDFParser';
 import RedactionPreview from './RedactionPreview';
 import ContentSelectionModal from './ContentSelectionModal';
+import RedactionPatternsPopup from './RedactionPatternsPopup';
 import '../css/redaction-preview.css';
 import '../css/content-selection.css';
 import { Filesystem } from '@capacitor/filesystem';
@@ -29,14 +38,18 @@ interface Message {
   time: string;
   timestamp: string;
   isError?: boolean;
+  isStreaming?: boolean;
+  isPending?: boolean;
+  toolSteps?: ToolStep[];
 }
 
 interface ChatFooterProps {
-  onSendMessage?: (message: string) => void;
+  onSendMessage?: (message: string) => Promise<string | void>; // Resolves to the id of the created user message
   onBotMessage?: (message: Message) => void; // Add this new prop
   setMessages: React.Dispatch<React.SetStateAction<Message[]>>;
   selectedModel?: string; // Add this prop
   onLoadingChange?: (isLoading: boolean) => void; // Add this prop
+  sessionId?: string | null; // Current chat session, used for offline conversation memory
 }
 
 interface UserMessageObj {
@@ -63,6 +76,7 @@ interface PhotoAttachment {
   name: string;
   size: number;
   type: string;
+  redactedImage?: Blob; // Masked copy without EXIF metadata, uploaded instead of the original
 }
 
 // Add interface for file attachment
@@ -74,14 +88,17 @@ interface FileAttachment {
   type: string;
   path: string;
   webPath?: string;
+  redactedData?: Uint8Array; // Redacted copy of a PDF, uploaded instead of the original
+  redactedImage?: Blob; // Masked copy of an image without EXIF metadata, uploaded instead of the original
 }
 
-const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, setMessages, selectedModel, onLoadingChange }) => {
+const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, setMessages, selectedModel, onLoadingChange, sessionId }) => {
   const { t, i18n } = useTranslation();
   const [message, setMessage] = useState<string>('');
   const [isInputFocused, setIsInputFocused] = useState<boolean>(false);
   const [isSending, setIsSending] = useState<boolean>(false);
   const [isProcessingLocally, setIsProcessingLocally] = useState<boolean>(false);
+  const [isGeneratingLocally, setIsGeneratingLocally] = useState<boolean>(false);
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
   const [isRecording, setIsRecording] = useState<boolean>(false);
   const [recordingState, setRecordingState] = useState<'mic' | 'stop' | 'send'>('mic');
@@ -95,9 +112,12 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
   
   // Redaction state
   const [showRedactionPreview, setShowRedactionPreview] = useState<boolean>(false);
+  const [showRedactionPatterns, setShowRedactionPatterns] = useState<boolean>(false);
   const [currentRedactionResult, setCurrentRedactionResult] = useState<RedactionResult | null>(null);
-  const [currentRedactionFile, setCurrentRedactionFile] = useState<{name: string, type: string} | null>(null);
+  const [currentRedactionFile, setCurrentRedactionFile] = useState<{name: string, type: string, file?: FileAttachment['file'], documentId?: string} | null>(null);
   const [isProcessingRedaction, setIsProcessingRedaction] = useState<boolean>(false);
+  // Outgoing message held back because it contains sensitive content
+  const [textRedactionWarning, setTextRedactionWarning] = useState<{ text: string; findings: SensitiveFinding[] } | null>(null);
   
   // Content selection state
   const [showContentSelection, setShowContentSelection] = useState<boolean>(false);
@@ -108,14 +128,24 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
   const speechServiceRef = useRef<SpeechRecognitionService | null>(null);
   const isInitializedRef = useRef<boolean>(false);
 
+  // Set when the user taps stop while a local completion is streaming
+  const stopRequestedRef = useRef<boolean>(false);
+  // Aborts the tool decisions that run before a local answer
+  const toolAbortRef = useRef<AbortController | null>(null);
+
   // Add LlamaService reference
   const [llamaService] = useState(() => LlamaService.getInstance());
   
   // Add DocumentRedactionService reference
   const [redactionService] = useState(() => DocumentRedactionService.getInstance());
+  const [pseudonymService] = useState(() => PseudonymService.getInstance());
   
   // Add Enhanced PDF Annotation services
   const [annotationService] = useState(() => PDFAnnotationService.getInstance());
+  const [retrievalService] = useState(() => DocumentRetrievalService.getInstance());
+  const [farmerQueryService] = useState(() => FarmerQueryService.getInstance());
+  const [localToolService] = useState(() => LocalToolService.getInstance());
+  const [sessionCacheService] = useState(() => SessionCacheService.getInstance());
   const [annotationTester] = useState(() => PDFAnnotationTester.getInstance());
   const [enhancedParser] = useState(() => EnhancedPDFParser.getInstance());
 
@@ -195,6 +225,7 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
     const testRedactionService = async () => {
       try {
         console.log('🧪 Testing redaction service initialization...');
+        await redactionService.initialize();
         const isInitialized = redactionService.isServiceInitialized();
         console.log('✅ Redaction service initialized:', isInitialized);
         
@@ -891,7 +922,8 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
 
       // Get file buffer using the helper function
       let fileBuffer: ArrayBuffer | null = await readFileData(file);
-      let mimeType = file.mimeType || file.type || 'application/octet-stream';
+      // Camera photos only carry their format
+      const mimeType = file.mimeType || file.type || (file.format ? `image/${file.format}` : 'application/octet-stream');
 
       if (!fileBuffer) {
         console.warn('⚠️ Cannot process file - unsupported URI scheme or missing data');
@@ -942,6 +974,11 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
 
           const parseTime = Date.now() - startTime;
 
+          // Index the new sections for offline questions while the user reviews the redaction
+          retrievalService.indexPendingSections().catch(error => {
+            console.error('❌ Failed to index document for offline search:', error);
+          });
+
           console.log('\n' + '📊'.repeat(40));
           console.log('📊 [ENHANCED PARSER TEST] PARSING RESULTS');
           console.log('📊'.repeat(40));
@@ -1063,62 +1100,6 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
         }
       }
 
-      // NEW: Process images with OCR if it's an image file
-      if (mimeType.startsWith('image/')) {
-        console.log('\n' + '─'.repeat(80));
-        console.log('🔍 [OCR TEST] Image detected - Testing Tesseract OCR');
-        console.log('─'.repeat(80));
-
-        try {
-          const startTime = Date.now();
-          
-          // Create a simple document structure for standalone image
-          const imageDocId = `img_${Date.now()}`;
-          
-          // For standalone images, we'll use the parser in a different way
-          // Create an HTML image element from the buffer
-          const blob = new Blob([fileBuffer], { type: mimeType });
-          const imageUrl = URL.createObjectURL(blob);
-          const img = new Image();
-          
-          await new Promise((resolve, reject) => {
-            img.onload = resolve;
-            img.onerror = reject;
-            img.src = imageUrl;
-          });
-
-          console.log(`📷 Image loaded: ${img.width}x${img.height}px`);
-
-          // Initialize OCR and perform recognition
-          const ocrConfig: OCRConfig = {
-            enabled: true,
-            primaryLanguage: 'english',
-            fallbackLanguages: ['english', 'hindi', 'tamil', 'bengali', 'gujarati'],
-            minImageSize: 50,
-            progressCallback: (current, total, imageIndex) => {
-              console.log(`🔍 OCR Progress: ${current}/${total} (image ${imageIndex})`);
-            }
-          };
-
-          // For now, we'll just log that we detected an image
-          // In a full implementation, you'd initialize the parser with OCR and process
-          console.log('🔍 [OCR] Would process image with Tesseract.js');
-          console.log(`   Languages: ${ocrConfig.fallbackLanguages?.join(', ')}`);
-          console.log(`   Min size: ${ocrConfig.minImageSize}px`);
-
-          const ocrTime = Date.now() - startTime;
-          console.log(`✅ [OCR TEST] Image analysis complete in ${ocrTime}ms`);
-
-          // Clean up
-          URL.revokeObjectURL(imageUrl);
-
-          addErrorMessage(`📷 Image detected: ${fileName}\n\n✨ OCR processing available for this image.\n\nFor full OCR, convert to PDF or use dedicated OCR workflow.`);
-
-        } catch (ocrError) {
-          console.error('❌ [OCR TEST] OCR test failed:', ocrError);
-        }
-      }
-
       // Continue with regular redaction workflow
       console.log('\n' + '─'.repeat(80));
       console.log('🔍 [REGULAR WORKFLOW] Proceeding with content analysis');
@@ -1139,6 +1120,24 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
         sectionsByType: documentAnalysis.metadata?.sectionsByType
       });
 
+      // Nothing to confirm when every category found is set to redact automatically
+      const preferences = await redactionService.getRedactionPreferences();
+      if (!redactionService.requiresConfirmation(documentAnalysis, preferences)) {
+        console.log('⚡ Redacting automatically per redaction preferences:', fileName);
+        const redactionResult = await redactAnalyzedDocument(documentAnalysis.documentId, file, mimeType, preferences);
+        applyRedactionResult(redactionResult, file);
+        return;
+      }
+
+      // A photo is a single section, so there is nothing to pick - go straight to the masked image
+      if (mimeType.startsWith('image/')) {
+        const redactionResult = await redactAnalyzedDocument(documentAnalysis.documentId, file, mimeType, preferences);
+        setCurrentRedactionResult(redactionResult);
+        setCurrentRedactionFile({ name: fileName, type: mimeType, file, documentId: documentAnalysis.documentId });
+        setShowRedactionPreview(true);
+        return;
+      }
+
       // Show content selection modal
       setCurrentDocumentAnalysis(documentAnalysis);
       setPendingRedactionFile({
@@ -1160,6 +1159,39 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
     }
   };
 
+  // Redact the selected sections of an analysed document, in the categories the preferences auto-redact
+  const redactAnalyzedDocument = async (
+    documentId: string,
+    file: FileAttachment['file'],
+    mimeType: string,
+    preferences: RedactionPreferences
+  ): Promise<RedactionResult> => {
+    const processingOptions = {
+      ...redactionService.getProcessingOptions(preferences),
+      pseudonymise: await pseudonymService.isEnabled(),
+      sessionId: sessionId ?? null
+    };
+    const fileBuffer = await readFileData(file);
+    // Edits made in the preview the last time this file was sent
+    const edits = fileBuffer ? await redactionService.getRedactionEdits(fileBuffer) : [];
+
+    // Photos are read with OCR and masked, which the sections found by content analysis cannot do
+    if (mimeType.startsWith('image/')) {
+      if (!fileBuffer) {
+        throw new Error('Image data not accessible');
+      }
+      return redactionService.processImage(fileBuffer, mimeType, processingOptions, edits);
+    }
+
+    // Build the redacted copy of a PDF now, so the preview describes the file that will be sent.
+    // Its areas have page positions, which the editor needs to draw them.
+    if (mimeType === 'application/pdf' && fileBuffer) {
+      return redactionService.processSelectedPDF(fileBuffer, documentId, processingOptions, edits);
+    }
+
+    return redactionService.processSelectedSections(documentId, processingOptions, edits);
+  };
+
   // Handle content selection confirmation
   const handleContentSelectionConfirm = async (selectedSections: ContentSection[]): Promise<void> => {
     try {
@@ -1179,18 +1211,12 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
       await redactionService.updateSectionSelections(currentDocumentAnalysis.documentId, selections);
 
       // Process selected sections for redaction
-      const redactionResult = await redactionService.processSelectedSections(
+      const preferences = await redactionService.getRedactionPreferences();
+      const redactionResult = await redactAnalyzedDocument(
         currentDocumentAnalysis.documentId,
-        {
-          enablePIIRedaction: true,
-          enableFinancialRedaction: true,
-          enableMedicalRedaction: true,
-          enableLegalRedaction: true,
-          enableMetadataRedaction: true,
-          confidenceThreshold: 0.7,
-          preserveFormatting: true,
-          userConfirmationRequired: true
-        }
+        pendingRedactionFile.file,
+        pendingRedactionFile.type,
+        preferences
       );
 
       console.log('✅ Redaction processing completed:', {
@@ -1203,7 +1229,9 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
       setCurrentRedactionResult(redactionResult);
       setCurrentRedactionFile({ 
         name: pendingRedactionFile.name, 
-        type: pendingRedactionFile.type 
+        type: pendingRedactionFile.type,
+        file: pendingRedactionFile.file,
+        documentId: currentDocumentAnalysis.documentId
       });
       
       // Clear content selection state
@@ -1238,17 +1266,46 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
   // Handle redaction confirmation
   const handleRedactionConfirm = (result: RedactionResult): void => {
     console.log('✅ Redaction confirmed, proceeding with safe content');
+    const redactedFile = currentRedactionFile?.file;
     
     // Hide redaction preview
     setShowRedactionPreview(false);
     setCurrentRedactionResult(null);
     setCurrentRedactionFile(null);
 
+    applyRedactionResult(result, redactedFile);
+  };
+
+  // Use a redaction result: the redacted PDF or masked photo replaces the original attachment and the safe text goes into the message
+  const applyRedactionResult = (result: RedactionResult, redactedFile?: FileAttachment['file']): void => {
+    // Upload the masked photo in place of the original
+    const redactedImage = result.redactedImage;
+    if (redactedImage && redactedFile) {
+      setPhotoAttachments(prev => prev.map(attachment =>
+        attachment.photo === redactedFile
+          ? { ...attachment, redactedImage: redactedImage.data, size: redactedImage.data.size, type: redactedImage.mimeType }
+          : attachment
+      ));
+      setFileAttachments(prev => prev.map(attachment =>
+        attachment.file === redactedFile
+          ? { ...attachment, redactedImage: redactedImage.data, size: redactedImage.data.size, type: redactedImage.mimeType }
+          : attachment
+      ));
+    }
+
+    // Upload the redacted PDF in place of the original
+    const redactedPdf = result.redactedPdf;
+    if (redactedPdf && redactedFile) {
+      setFileAttachments(prev => prev.map(attachment =>
+        attachment.file === redactedFile ? { ...attachment, redactedData: redactedPdf, size: redactedPdf.byteLength } : attachment
+      ));
+    }
+
     // Add the redacted content to the message
     if (result.extractedText.trim()) {
       const redactedMessage = `📄 Document Content (Redacted):\n\n${result.extractedText}`;
       setMessage(prev => prev ? `${prev}\n\n${redactedMessage}` : redactedMessage);
-    } else {
+    } else if (!redactedImage) {
       addErrorMessage('No text content could be extracted from the document after redaction.');
     }
   };
@@ -1260,6 +1317,26 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
     setMessage(prev => prev ? `${prev}\n\n${warningMessage}` : warningMessage);
   };
 
+  // Render a page of the original file for the redaction editor
+  const handleRedactionRenderPage = async (pageNumber: number): Promise<RedactionPage> => {
+    const fileBuffer = currentRedactionFile ? await readFileData(currentRedactionFile.file) : null;
+    if (!currentRedactionFile || !fileBuffer) {
+      throw new Error('File data not accessible');
+    }
+    return redactionService.renderPage(fileBuffer, currentRedactionFile.type, pageNumber);
+  };
+
+  // Keep the editor's changes for this file and redact it again with them
+  const handleRedactionEditsChange = async (edits: RedactionEdit[]): Promise<RedactionResult> => {
+    const fileBuffer = currentRedactionFile ? await readFileData(currentRedactionFile.file) : null;
+    if (!currentRedactionFile?.documentId || !fileBuffer) {
+      throw new Error('File data not accessible');
+    }
+    const { documentId, file, type } = currentRedactionFile;
+    await redactionService.saveRedactionEdits(fileBuffer, documentId, edits);
+    return redactAnalyzedDocument(documentId, file, type, await redactionService.getRedactionPreferences());
+  };
+
   // Handle redaction cancellation
   const handleRedactionCancel = (): void => {
     console.log('❌ Redaction cancelled by user');
@@ -1271,20 +1348,39 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
   // Handle redaction settings modification
   const handleRedactionSettingsModify = (): void => {
     console.log('⚙️ Redaction settings modification requested');
-    // TODO: Implement settings modal
-    addErrorMessage('Redaction settings modification not yet implemented.');
+    setShowRedactionPatterns(true);
+  };
+
+  // The preview was built with the old patterns, so analyse the file again
+  const handleRedactionPatternsClose = (changed: boolean): void => {
+    setShowRedactionPatterns(false);
+    if (!changed || !currentRedactionFile?.file) {
+      return;
+    }
+    const { file, name } = currentRedactionFile;
+    setShowRedactionPreview(false);
+    setCurrentRedactionResult(null);
+    setCurrentRedactionFile(null);
+    processFileForRedaction(file, name);
   };
 
   // Enhanced photo upload function
-  const uploadPhotoToServer = async (photo: CameraPhoto): Promise<void> => {
+  const uploadPhotoToServer = async (attachment: PhotoAttachment): Promise<void> => {
     try {
       console.log('📤 Starting photo upload...');
       
-      const formData = await CameraService.createPhotoFormData(photo, 'image');
+      // Photos only ever leave the device as their masked copy, which has no EXIF metadata
+      if (!attachment.redactedImage) {
+        throw new Error(`${attachment.name} has not been redacted`);
+      }
+      
+      const format = attachment.type === 'image/png' ? 'png' : 'jpeg';
+      const formData = new FormData();
+      formData.append('image', attachment.redactedImage, `photo.${format}`);
       
       // Add metadata
       formData.append('timestamp', new Date().toISOString());
-      formData.append('format', photo.format);
+      formData.append('format', format);
       
       // Send to your backend
       const response = await fetch('/api/upload-photo', {
@@ -1313,19 +1409,31 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
       // Create FormData for file upload
       const formData = new FormData();
       
-      // Use the helper function to read file data
-      const fileBuffer = await readFileData(attachment.file);
-      
-      if (!fileBuffer) {
-        // For content:// URIs or when we can't read the file directly,
-        // we'll skip the upload and show a warning
-        console.warn('⚠️ Cannot upload file - unsupported URI scheme or missing data');
-        throw new Error(`Cannot upload ${attachment.name} - file data not accessible`);
+      // PDFs and images only ever leave the device as their redacted copy
+      if (attachment.type === 'application/pdf' && !attachment.redactedData) {
+        throw new Error(`${attachment.name} has not been redacted`);
+      }
+      if (attachment.type.startsWith('image/') && !attachment.redactedImage) {
+        throw new Error(`${attachment.name} has not been redacted`);
       }
       
-      // Convert ArrayBuffer to Blob
-      const blob = new Blob([fileBuffer], { type: attachment.type });
-      formData.append('file', blob, attachment.name);
+      if (attachment.redactedImage) {
+        formData.append('file', attachment.redactedImage, attachment.name);
+      } else {
+        // Use the helper function to read file data
+        const fileBuffer = attachment.redactedData ?? await readFileData(attachment.file);
+        
+        if (!fileBuffer) {
+          // For content:// URIs or when we can't read the file directly,
+          // we'll skip the upload and show a warning
+          console.warn('⚠️ Cannot upload file - unsupported URI scheme or missing data');
+          throw new Error(`Cannot upload ${attachment.name} - file data not accessible`);
+        }
+        
+        // Convert ArrayBuffer to Blob
+        const blob = new Blob([fileBuffer as BlobPart], { type: attachment.type });
+        formData.append('file', blob, attachment.name);
+      }
       
       // Add metadata
       formData.append('timestamp', new Date().toISOString());
@@ -1365,30 +1473,67 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
   };
 
   // Send message via WebSocket (Online mode)
-  const sendMessageViaWebSocket = async (messageText: string, timestamp: string): Promise<boolean> => {
+  const sendMessageViaWebSocket = async (messageText: string, timestamp: string, messageId?: string): Promise<boolean> => {
+    const outboxService = OutboxService.getInstance();
+
     try {
-      const connected: boolean = await ChatService.connect();
-      if (!connected) {
-        return false;
+      // Earlier messages are still queued - queue behind them so the order is kept
+      if (messageId && messageText && outboxService.getPendingIds().length > 0) {
+        const queued = await queueMessageInOutbox(messageText, messageId);
+        if (queued && await ChatService.connect()) {
+          outboxService.flush();
+        }
+        return queued;
       }
 
-      // Pass the selected model to the ChatService
-      const success: boolean = await ChatService.sendChatMessage(messageText, selectedModel);
-      
-      if (success) {
-        return true;
-      } else {
+      const connected: boolean = await ChatService.connect();
+      if (connected) {
+        // With a local model loaded, the question also goes as a crop / problem / location form.
+        // Only for messages sent now - queued messages are sent as text only.
+        let queryForm: FarmerQueryForm | null = null;
+        if (messageText && farmerQueryService.isAvailable()) {
+          try {
+            queryForm = await farmerQueryService.extractForm(messageText);
+            console.log('🌾 [CHAT DEBUG] Query form:', queryForm);
+          } catch (error) {
+            console.warn('⚠️ [CHAT DEBUG] Could not fill in the query form, sending text only:', error);
+          }
+        }
+
+        // Pass the selected model to the ChatService
+        const success: boolean = await ChatService.sendChatMessage(messageText, selectedModel, messageId, queryForm ?? undefined);
+        if (success) {
+          return true;
+        }
         console.warn(`⚠️ [CHAT DEBUG] WebSocket send returned false`);
-        return false;
       }
     } catch (error: any) {
       console.error(`❌ [CHAT DEBUG] WebSocket send error:`, error);
+    }
+
+    // Keep text messages for when the connection is back
+    if (messageId && messageText) {
+      return await queueMessageInOutbox(messageText, messageId);
+    }
+    return false;
+  };
+
+  const queueMessageInOutbox = async (messageText: string, messageId: string): Promise<boolean> => {
+    try {
+      const outboxService = OutboxService.getInstance();
+      await outboxService.enqueue(messageId, messageText, selectedModel);
+      setMessages(prevMessages => prevMessages.map(msg => 
+        msg.id === messageId ? { ...msg, isPending: true } : msg
+      ));
+      return true;
+    } catch (error) {
+      console.error(`❌ [CHAT DEBUG] Failed to queue message in outbox:`, error);
       return false;
     }
   };
 
   // Process message locally using downloaded model (Offline mode)
-  const processMessageLocally = async (messageText: string, timestamp: string): Promise<boolean> => {
+  const processMessageLocally = async (messageText: string, timestamp: string, imagePaths: string[] = []): Promise<boolean> => {
     try {
       // Prevent duplicate processing by checking if we're already processing
       if (isProcessingLocally) {
@@ -1425,15 +1570,19 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
         return false;
       }
 
-      // Load the model if not already loaded
+      // Load the model if not already loaded - reloading would also throw away the KV cache
       try {
-        await llamaService.loadModel(selectedModel);
-        console.log(`✅ [LOCAL DEBUG] Model ${selectedModel} loaded successfully`);
-        
-        // Check chat template support after model is loaded
-        const hasTemplateSupport = await llamaService.checkChatTemplateSupport();
-        console.log(`🔍 [LOCAL DEBUG] Chat template support: ${hasTemplateSupport}`);
-        
+        if (llamaService.getCurrentModel() !== selectedModel) {
+          await llamaService.loadModel(selectedModel);
+          console.log(`✅ [LOCAL DEBUG] Model ${selectedModel} loaded successfully`);
+
+          // Check chat template support after model is loaded
+          const hasTemplateSupport = await llamaService.checkChatTemplateSupport();
+          console.log(`🔍 [LOCAL DEBUG] Chat template support: ${hasTemplateSupport}`);
+        }
+
+        // Continue from this chat's saved cache, so only the new question is evaluated
+        await sessionCacheService.restore(sessionId ?? null);
       } catch (error: any) {
         console.error(`❌ [LOCAL DEBUG] Failed to load model ${selectedModel}:`, error);
         
@@ -1461,51 +1610,215 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
         return false;
       }
 
-      // Prepare chat messages for getFormattedChat
-      const chatMessages = [
-        {
-          role: 'system' as const,
-          content: 'You are a helpful AI assistant. Provide clear, concise, and helpful responses to user questions.'
-        },
-        {
-          role: 'user' as const,
-          content: messageText
+      // Photos go to the model as image parts when its projector is loaded
+      let userImages: string[] = [];
+      if (imagePaths.length > 0) {
+        if (llamaService.isVisionReady()) {
+          userImages = imagePaths;
+          console.log(`🖼️ [LOCAL DEBUG] Sending ${userImages.length} photo(s) to ${selectedModel}`);
+        } else {
+          // A vision model downloaded before its projector came with it only needs that file
+          addErrorMessage(llamaService.supportsVision(selectedModel)
+            ? t('local_model_projector_missing', 'Photo support for this model is not downloaded yet. Download it from the model picker to analyse images offline.')
+            : t('local_model_no_vision', 'The selected offline model cannot read photos. Download a vision model such as LAI-Img2Txt to analyse images offline.'));
+          if (!messageText.trim()) {
+            if (onLoadingChange) {
+              onLoadingChange(false);
+            }
+            return true;
+          }
         }
-      ];
+      }
 
-      console.log(`🔄 [LOCAL DEBUG] Generating response for: "${messageText}" using getFormattedChat`);
-      console.log(` [LOCAL DEBUG] Chat messages prepared:`, chatMessages);
-      
-      // Use the new completionWithFormattedChat method
-      const result = await llamaService.completionWithFormattedChat(chatMessages, {
-        n_predict: 256,
-        temperature: 0.7,
-        top_p: 0.9,
-        stop: ['</s>', '<|end|>', '<|eot_id|>', '<|end_of_text|>', '<|im_end|>']
+      const promptText = messageText.trim() || t('local_image_default_prompt', 'Describe this photo. If it shows a crop or plant, identify any disease, pest or nutrient problem and suggest what to do.');
+
+      // Prepare chat messages for getFormattedChat - earlier turns of this session
+      // are included (trimmed to fit n_ctx) so follow-up questions keep their context
+      const nPredict = 256;
+      const systemPrompt = 'You are a helpful AI assistant. Provide clear, concise, and helpful responses to user questions.';
+
+      // Passages from documents the user attached earlier, found on the device. They go with
+      // the question, so the system prompt and history stay as in the saved KV cache.
+      let documentContext: string | undefined;
+      if (messageText.trim() && retrievalService.isAvailable()) {
+        try {
+          const sections = await retrievalService.retrieve(promptText);
+          if (sections.length > 0) {
+            documentContext = retrievalService.formatForPrompt(sections);
+            console.log(`📚 [LOCAL DEBUG] Answering with ${sections.length} document excerpt(s):`,
+              sections.map(section => `${section.fileName} p. ${section.pageNumber}`));
+          }
+        } catch (error) {
+          console.error('❌ [LOCAL DEBUG] Document search failed, answering without it:', error);
+        }
+      }
+
+      const memory = await ConversationMemoryService.getInstance().buildChatMessages({
+        systemPrompt,
+        userMessage: promptText,
+        context: documentContext,
+        userImages,
+        sessionId,
+        reservedTokens: nPredict,
+        summarizeDroppedTurns: true
       });
-      
-      // Check for response content in both text and content fields
-      const responseText = result.text || result.content || '';
-      
+      let chatMessages = memory.messages;
+      console.log(`🧠 [LOCAL DEBUG] Conversation memory: ${memory.keptTurns} turn(s) kept, ${memory.droppedTurns} dropped, ~${memory.promptTokens} prompt tokens`);
+
+      // Streamed bot message - created on the first tool step or token and grown in place
+      const botMessageId = `bot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const botTimestamp = new Date().toISOString();
+      let streamedText = '';
+      let hasStreamedMessage = false;
+      let toolSteps: ToolStep[] = [];
+
+      // Generating starts with the tool decisions, so the stop button covers them too
+      stopRequestedRef.current = false;
+      setIsGeneratingLocally(true);
+
+      // Conversions and lookups come from tools rather than the model's arithmetic.
+      // Skipped for photos, which every tool decision would have to read again.
+      if (messageText.trim() && userImages.length === 0) {
+        const handleToolStep = (steps: ToolStep[]): void => {
+          toolSteps = steps;
+          if (!hasStreamedMessage) {
+            hasStreamedMessage = true;
+            if (onLoadingChange) {
+              onLoadingChange(false);
+            }
+            setMessages(prevMessages => [...prevMessages, {
+              id: botMessageId,
+              text: '',
+              sender: 'bot',
+              time: new Date(botTimestamp).toLocaleTimeString(),
+              timestamp: botTimestamp,
+              isStreaming: true,
+              toolSteps: steps
+            }]);
+            return;
+          }
+          setMessages(prevMessages => prevMessages.map(msg =>
+            msg.id === botMessageId ? { ...msg, toolSteps: steps } : msg
+          ));
+        };
+
+        const toolAbort = new AbortController();
+        toolAbortRef.current = toolAbort;
+        try {
+          const toolResult = await localToolService.resolveToolCalls(chatMessages, {
+            onStep: handleToolStep,
+            signal: toolAbort.signal
+          });
+          chatMessages = toolResult.messages;
+          toolSteps = toolResult.steps;
+        } catch (error) {
+          if (!stopRequestedRef.current) {
+            console.error('❌ [LOCAL DEBUG] Tool calling failed, answering without tools:', error);
+          }
+        } finally {
+          toolAbortRef.current = null;
+        }
+      }
+
+      console.log(`🔄 [LOCAL DEBUG] Generating response for: "${promptText}" using getFormattedChat`);
+      console.log(` [LOCAL DEBUG] Chat messages prepared:`, chatMessages);
+
+      const handleToken = (tokenData: TokenData): void => {
+        streamedText = tokenData.accumulated_text ?? streamedText + (tokenData.token || '');
+        if (!streamedText.trim()) {
+          return;
+        }
+
+        if (!hasStreamedMessage) {
+          hasStreamedMessage = true;
+
+          // The growing bubble replaces the loading animation
+          if (onLoadingChange) {
+            onLoadingChange(false);
+          }
+
+          setMessages(prevMessages => [...prevMessages, {
+            id: botMessageId,
+            text: streamedText,
+            sender: 'bot',
+            time: new Date(botTimestamp).toLocaleTimeString(),
+            timestamp: botTimestamp,
+            isStreaming: true,
+            toolSteps
+          }]);
+          return;
+        }
+
+        const currentText = streamedText;
+        setMessages(prevMessages => prevMessages.map(msg =>
+          msg.id === botMessageId ? { ...msg, text: currentText } : msg
+        ));
+      };
+
+      let result;
+      try {
+        // Stopped during the tool decisions - there is nothing to answer with
+        if (!stopRequestedRef.current) {
+          result = await llamaService.completionWithFormattedChat(chatMessages, {
+            n_predict: nPredict,
+            temperature: 0.7,
+            top_p: 0.9,
+            stop: ['</s>', '<|end|>', '<|eot_id|>', '<|end_of_text|>', '<|im_end|>']
+          }, handleToken);
+        }
+      } catch (completionError) {
+        // A cancelled generation may reject - keep whatever was streamed so far
+        if (!stopRequestedRef.current || !streamedText.trim()) {
+          // Drop the bubble that only showed tool steps
+          setMessages(prevMessages => prevMessages.filter(msg => msg.id !== botMessageId));
+          throw completionError;
+        }
+        console.log(`🛑 [LOCAL DEBUG] Completion rejected after stop, keeping partial text`);
+      } finally {
+        setIsGeneratingLocally(false);
+      }
+
+      const wasStopped = stopRequestedRef.current;
+      stopRequestedRef.current = false;
+      sessionCacheService.markActive(sessionId ?? null);
+
+      // Prefer the final result, fall back to the streamed text (e.g. when stopped)
+      const responseText = (!wasStopped && (result?.text || result?.content)) || streamedText;
+
       if (responseText.trim()) {
-        console.log(`✅ [LOCAL DEBUG] Local response generated using getFormattedChat:`, responseText.substring(0, 200) + '...');
-        
-        // Add bot response to messages
+        console.log(`✅ [LOCAL DEBUG] Local response ${wasStopped ? 'stopped' : 'generated'} using getFormattedChat:`, responseText.substring(0, 200) + '...');
+
         const botMessageObj = {
-          id: `bot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          text: responseText,
+          id: botMessageId,
+          text: responseText.trim(),
           sender: 'bot' as const,
-          time: new Date().toLocaleTimeString(),
-          timestamp: new Date().toISOString()
+          time: new Date(botTimestamp).toLocaleTimeString(),
+          timestamp: botTimestamp,
+          ...(toolSteps.length > 0 ? { toolSteps } : {})
         };
-        
-        setMessages(prevMessages => [...prevMessages, botMessageObj]);
-        
-        // Save bot response to SQLite via callback
+
+        if (hasStreamedMessage) {
+          // Finalise the streamed bubble
+          setMessages(prevMessages => prevMessages.map(msg =>
+            msg.id === botMessageId ? botMessageObj : msg
+          ));
+        } else {
+          setMessages(prevMessages => [...prevMessages, botMessageObj]);
+        }
+
+        // Save bot response (complete or partial) to SQLite via callback
         if (onBotMessage) {
           await onBotMessage(botMessageObj);
         }
-        
+
+        if (onLoadingChange) {
+          onLoadingChange(false);
+        }
+        setIsProcessingLocally(false);
+        return true;
+      } else if (wasStopped) {
+        console.log(`🛑 [LOCAL DEBUG] Generation stopped before any text was produced`);
+        setMessages(prevMessages => prevMessages.filter(msg => msg.id !== botMessageId));
         if (onLoadingChange) {
           onLoadingChange(false);
         }
@@ -1513,6 +1826,7 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
         return true;
       } else {
         console.error(`❌ [LOCAL DEBUG] No response generated from local model using getFormattedChat`);
+        setMessages(prevMessages => prevMessages.filter(msg => msg.id !== botMessageId));
         console.error(`❌ [LOCAL DEBUG] Result object:`, result);
         if (onLoadingChange) {
           onLoadingChange(false);
@@ -1553,25 +1867,71 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
     } finally {
       // Always reset processing state
       setIsProcessingLocally(false);
+
+      // Index more of the user's documents while they read the answer
+      if (retrievalService.isAvailable()) {
+        retrievalService.indexPendingSections().catch(error => {
+          console.error('❌ Failed to index documents for offline search:', error);
+        });
+      }
+    }
+  };
+
+  // Stop a streaming local completion - the partial reply is kept and saved
+  const handleStopGeneration = async (): Promise<void> => {
+    if (!isGeneratingLocally || stopRequestedRef.current) {
+      return;
+    }
+
+    console.log('🛑 [LOCAL DEBUG] Stop requested by user');
+    stopRequestedRef.current = true;
+    toolAbortRef.current?.abort();
+
+    try {
+      await llamaService.stopCompletion();
+    } catch (error) {
+      console.error('❌ [LOCAL DEBUG] Failed to stop completion:', error);
     }
   };
 
   // Enhanced function to handle form submission with dual-mode support
-  const handleSubmit = async (event: React.FormEvent<HTMLFormElement> | { preventDefault: () => void }): Promise<void> => {
+  // `reviewedText` is the message as the user chose to send it from the sensitive content warning
+  const handleSubmit = async (
+    event: React.FormEvent<HTMLFormElement> | { preventDefault: () => void },
+    reviewedText?: string
+  ): Promise<void> => {
     event.preventDefault();
+
+    const userMessage: string = reviewedText ?? message.trim();
     
     // Don't submit if no message and no attachments
-    if ((!message.trim() && photoAttachments.length === 0 && fileAttachments.length === 0) || isSending) {
+    if ((!userMessage && photoAttachments.length === 0 && fileAttachments.length === 0) || isSending) {
       return;
     }
 
-    const userMessage: string = message.trim();
+    // Typed or dictated text goes to the server as-is, so check it like an attachment first
+    if (reviewedText === undefined && userMessage && selectedModel === 'online') {
+      try {
+        const preferences = await redactionService.getRedactionPreferences();
+        const findings = await redactionService.detectInText(userMessage, redactionService.getProcessingOptions(preferences));
+        if (findings.length > 0) {
+          console.log(`⚠️ Outgoing message contains ${findings.length} sensitive finding(s), asking before sending`);
+          setTextRedactionWarning({ text: userMessage, findings });
+          return;
+        }
+      } catch (error) {
+        console.error('❌ Failed to check message for sensitive content:', error);
+      }
+    }
+    setTextRedactionWarning(null);
+
     const timestamp: string = new Date().toISOString();
     
     // Call the onSendMessage callback to handle user message creation and SQLite saving
     // This will create the user message in App.tsx and save it to SQLite
+    let userMessageId: string | undefined;
     if (onSendMessage && userMessage) {
-      await onSendMessage(userMessage);
+      userMessageId = (await onSendMessage(userMessage)) || undefined;
     }
     
     // Clear input and set sending state
@@ -1582,13 +1942,13 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
     updateButtonIcon();
 
     try {
-      // Upload photos first if any
-      if (photoAttachments.length > 0) {
+      // Upload photos first if any - offline models read them from the device instead
+      if (photoAttachments.length > 0 && selectedModel === 'online') {
         console.log('📤 Uploading photos to server...');
         
         for (const attachment of photoAttachments) {
           try {
-            await uploadPhotoToServer(attachment.photo);
+            await uploadPhotoToServer(attachment);
             console.log('✅ Photo uploaded:', attachment.name);
           } catch (error) {
             console.error('❌ Failed to upload photo:', attachment.name, error);
@@ -1617,9 +1977,12 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
       
       if (userMessage || photoAttachments.length > 0 || fileAttachments.length > 0) {
         if (selectedModel === 'online') {
-          success = await sendMessageViaWebSocket(userMessage, timestamp);
+          success = await sendMessageViaWebSocket(userMessage, timestamp, userMessageId);
         } else {
-          success = await processMessageLocally(userMessage, timestamp);
+          const imagePaths = photoAttachments
+            .map(attachment => attachment.photo.path)
+            .filter(path => path && path !== 'unknown');
+          success = await processMessageLocally(userMessage, timestamp, imagePaths);
         }
         
         if (!success) {
@@ -1679,6 +2042,7 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
       if (!sessionId) {
         sessionId = await sqliteService.createSession(deviceId, 'New Chat');
         await setCurrentSessionId(sessionId);
+        await pseudonymService.adoptPendingSession(sessionId);
       }
 
       await sqliteService.saveMessage({
@@ -1709,6 +2073,11 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
 
   // Handle right action click (mic, stop, or send)
   const handleRightActionClick = (): void => {
+    if (isGeneratingLocally) {
+      handleStopGeneration();
+      return;
+    }
+
     switch (recordingState) {
       case 'mic':
         handleMicClick();
@@ -1725,15 +2094,88 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
     setMessage(e.target.value);
+    // The warning describes the text as it was; the edited text is checked again on send
+    setTextRedactionWarning(null);
     updateButtonState();
   };
 
+  // Send the flagged message with its sensitive parts masked
+  const handleMaskAndSend = async (): Promise<void> => {
+    if (!textRedactionWarning) {
+      return;
+    }
+    const { text, findings } = textRedactionWarning;
+    try {
+      const preferences = await redactionService.getRedactionPreferences();
+      const maskedText = await redactionService.redactText(text, findings, {
+        ...redactionService.getProcessingOptions(preferences),
+        pseudonymise: await pseudonymService.isEnabled(),
+        sessionId: sessionId ?? null
+      });
+      await redactionService.logTextRedactionDecision('masked', findings, sessionId);
+      await handleSubmit({ preventDefault: () => {} }, maskedText);
+    } catch (error) {
+      console.error('❌ Failed to mask message:', error);
+      addErrorMessage('Failed to mask message. It was not sent.');
+    }
+  };
+
+  const handleSendUnmasked = async (): Promise<void> => {
+    if (!textRedactionWarning) {
+      return;
+    }
+    const { text, findings } = textRedactionWarning;
+    await redactionService.logTextRedactionDecision('sent_unmasked', findings, sessionId);
+    await handleSubmit({ preventDefault: () => {} }, text);
+  };
+
+  const handleEditFlagged = async (): Promise<void> => {
+    if (!textRedactionWarning) {
+      return;
+    }
+    const { findings } = textRedactionWarning;
+    setTextRedactionWarning(null);
+    await redactionService.logTextRedactionDecision('edited', findings, sessionId);
+  };
+
+  // The flagged message with what would be masked highlighted
+  const renderFlaggedText = (): React.ReactNode => {
+    if (!textRedactionWarning) {
+      return null;
+    }
+    const { text, findings } = textRedactionWarning;
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    for (const finding of findings) {
+      if (finding.start < position) {
+        continue;
+      }
+      parts.push(text.substring(position, finding.start));
+      parts.push(
+        <mark key={finding.start} title={finding.patternName}>
+          {finding.text}
+        </mark>
+      );
+      position = finding.end;
+    }
+    parts.push(text.substring(position));
+    return parts;
+  };
+
   const handleFormSubmit = (e: React.FormEvent<HTMLFormElement>): void => {
     handleSubmit(e);
   };
 
   // Get button icon and class based on current state
   const getButtonIcon = (): { icon: string; className: string; title: string } => {
+    if (isGeneratingLocally) {
+      return {
+        icon: 'icon-stop',
+        className: 'stop-icon generating',
+        title: t('stop_generating', 'Stop generating')
+      };
+    }
+
     switch (recordingState) {
       case 'mic':
         return {
@@ -1797,9 +2239,15 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
           onConfirm={handleRedactionConfirm}
           onCancel={handleRedactionCancel}
           onModifySettings={handleRedactionSettingsModify}
+          onRenderPage={handleRedactionRenderPage}
+          onEditsChange={handleRedactionEditsChange}
         />
       )}
 
+      {showRedactionPatterns && (
+        <RedactionPatternsPopup onClose={handleRedactionPatternsClose} />
+      )}
+
       {/* Photo attachments preview */}
       {photoAttachments.length > 0 && (
         <div className="photo-attachments-preview">
@@ -1878,6 +2326,27 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
         </div>
       )}
 
+      {/* Sensitive content found in the message being sent */}
+      {textRedactionWarning && (
+        <div className="text-redaction-warning" role="alert">
+          <div className="attachments-header">
+            <span>⚠️ {t('text_redaction_warning', 'Your message contains details that may be sensitive')}</span>
+          </div>
+          <div className="text-redaction-preview">{renderFlaggedText()}</div>
+          <div className="text-redaction-actions">
+            <button type="button" className="text-redaction-mask" onClick={handleMaskAndSend} disabled={isSending}>
+              {t('text_redaction_mask', 'Mask and send')}
+            </button>
+            <button type="button" onClick={handleSendUnmasked} disabled={isSending}>
+              {t('text_redaction_send_anyway', 'Send as typed')}
+            </button>
+            <button type="button" onClick={handleEditFlagged}>
+              {t('text_redaction_edit', 'Edit')}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Existing form content */}
       <form onSubmit={handleSubmit} className="chat-input-form">
         <div className="chat-input-container">
@@ -1937,7 +2406,7 @@ const ChatFooter: React.FC<ChatFooterProps> = ({ onSendMessage, onBotMessage, se
                 className={buttonConfig.icon + ' ' + buttonConfig.className}
                 onClick={handleRightActionClick}
                 style={{ 
-                  cursor: isSending ? 'not-allowed' : 'pointer',
+                  cursor: isSending && !isGeneratingLocally ? 'not-allowed' : 'pointer',
                   animation: recordingState === 'stop' ? 'pulse 1s infinite' : 'none'
                 }}
                 title={buttonConfig.title}
@@ -1,26 +1,146 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
-import SQLiteService, { ChatHistoryItem } from '../services/SQLiteService';
+import SQLiteService, {
+  ChatHistoryItem,
+  MessageSearchFilters,
+  MessageSearchResult,
+  SessionTagCount,
+  SEARCH_MATCH_END,
+  SEARCH_MATCH_START
+} from '../services/SQLiteService';
 import { getDeviceId } from '../services/DeviceInfoService';
+import ChatExportService, { ChatExportFormat } from '../services/ChatExportService';
+import { fileService } from '../services/FileService';
+import SessionCacheService from '../services/SessionCacheService';
 import '../css/common.css';
 import '../css/chat-history.css';
 
 interface ChatHistoryPopupProps {
   onClose: () => void;
-  onSelectSession?: (sessionId: string) => void;
+  onSelectSession?: (sessionId: string, messageId?: string) => void;
 }
 
+const SEARCH_DEBOUNCE_MS = 300;
+const SEARCH_RESULT_LIMIT = 50;
+
+// Render an FTS snippet with its matched terms highlighted
+const renderSnippet = (snippet: string): React.ReactNode[] => {
+  return snippet.split(SEARCH_MATCH_START).map((part, index) => {
+    if (index === 0) {
+      return <React.Fragment key={index}>{part}</React.Fragment>;
+    }
+    const [match, rest = ''] = part.split(SEARCH_MATCH_END);
+    return (
+      <React.Fragment key={index}>
+        <mark>{match}</mark>{rest}
+      </React.Fragment>
+    );
+  });
+};
+
 const ChatHistoryPopup: React.FC<ChatHistoryPopupProps> = ({ onClose, onSelectSession }) => {
   const { t } = useTranslation();
   const [chatHistory, setChatHistory] = useState<ChatHistoryItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Organisation state - archived view and tag filter
+  const [showArchived, setShowArchived] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [availableTags, setAvailableTags] = useState<SessionTagCount[]>([]);
+
+  // Export / import state
+  const [exportMenuSessionId, setExportMenuSessionId] = useState<string | null>(null);
+  const [exportingSessionId, setExportingSessionId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Message search state
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchFilters, setSearchFilters] = useState<MessageSearchFilters>({});
+  const [showSearchFilters, setShowSearchFilters] = useState(false);
+  const [searchResults, setSearchResults] = useState<MessageSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [modelsUsed, setModelsUsed] = useState<string[]>([]);
+
+  const isSearchActive = searchQuery.trim().length > 0;
+
   useEffect(() => {
-    loadChatHistory();
-  }, []);
+    if (!isSearchActive) {
+      setSearchResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const deviceId = await getDeviceId();
+        if (!deviceId) {
+          throw new Error('Unable to get device ID');
+        }
+        const results = await SQLiteService.getInstance().searchMessages(deviceId, searchQuery, searchFilters, SEARCH_RESULT_LIMIT);
+        if (!cancelled) {
+          console.log(`🔎 [CHAT HISTORY] ${results.length} search result(s) for "${searchQuery}"`);
+          setSearchResults(results);
+        }
+      } catch (err) {
+        console.error('❌ [CHAT HISTORY] Search failed:', err);
+        if (!cancelled) {
+          setSearchResults([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
 
-  const loadChatHistory = async () => {
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, searchFilters, isSearchActive]);
+
+  const toggleSearchFilters = async () => {
+    const show = !showSearchFilters;
+    setShowSearchFilters(show);
+    if (show && modelsUsed.length === 0) {
+      try {
+        const deviceId = await getDeviceId();
+        if (deviceId) {
+          setModelsUsed(await SQLiteService.getInstance().getModelsUsed(deviceId));
+        }
+      } catch (err) {
+        console.error('❌ [CHAT HISTORY] Failed to load model filter options:', err);
+      }
+    }
+  };
+
+  const updateSearchFilter = (changes: Partial<MessageSearchFilters>) => {
+    setSearchFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  // Date inputs give local calendar days - widen them to whole days in ISO time
+  const handleDateFilterChange = (field: 'fromDate' | 'toDate', value: string) => {
+    if (!value) {
+      updateSearchFilter({ [field]: undefined });
+      return;
+    }
+    const date = new Date(`${value}T${field === 'fromDate' ? '00:00:00' : '23:59:59'}`);
+    updateSearchFilter({ [field]: date.toISOString() });
+  };
+
+  const toDateInputValue = (isoDate?: string): string => {
+    if (!isoDate) {
+      return '';
+    }
+    const date = new Date(isoDate);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  };
+
+  const loadChatHistory = useCallback(async () => {
     try {
       console.log('🔍 [CHAT HISTORY] Starting to load chat history...');
       setLoading(true);
@@ -40,7 +160,16 @@ const ChatHistoryPopup: React.FC<ChatHistoryPopupProps> = ({ onClose, onSelectSe
       // Check if SQLite is initialized
       console.log('🔍 [CHAT HISTORY] Checking SQLite initialization...');
       
-      const history = await sqliteService.getChatHistory(deviceId, 50);
+      const [history, tags] = await Promise.all([
+        sqliteService.getChatHistory(deviceId, 50, { archived: showArchived, tag: tagFilter || undefined }),
+        sqliteService.getTags(deviceId, showArchived)
+      ]);
+      setAvailableTags(tags);
+
+      // The filtered tag may have just been removed from its last session
+      if (tagFilter && !tags.some(item => item.tag.toLowerCase() === tagFilter.toLowerCase())) {
+        setTagFilter(null);
+      }
       console.log('📊 [CHAT HISTORY] Retrieved history:', history);
       console.log('📊 [CHAT HISTORY] History length:', history?.length || 0);
       
@@ -73,11 +202,15 @@ const ChatHistoryPopup: React.FC<ChatHistoryPopupProps> = ({ onClose, onSelectSe
       setLoading(false);
       console.log('🏁 [CHAT HISTORY] Loading completed');
     }
-  };
+  }, [showArchived, tagFilter]);
+
+  useEffect(() => {
+    loadChatHistory();
+  }, [loadChatHistory]);
 
-  const handleSessionSelect = (sessionId: string) => {
+  const handleSessionSelect = (sessionId: string, messageId?: string) => {
     if (onSelectSession) {
-      onSelectSession(sessionId);
+      onSelectSession(sessionId, messageId);
     }
     onClose();
   };
@@ -92,6 +225,7 @@ const ChatHistoryPopup: React.FC<ChatHistoryPopupProps> = ({ onClose, onSelectSe
     try {
       const sqliteService = SQLiteService.getInstance();
       await sqliteService.deleteSession(sessionId);
+      await SessionCacheService.getInstance().discard(sessionId);
       
       // Refresh the list
       await loadChatHistory();
@@ -101,6 +235,111 @@ const ChatHistoryPopup: React.FC<ChatHistoryPopupProps> = ({ onClose, onSelectSe
     }
   };
 
+  const runSessionAction = async (event: React.MouseEvent, action: () => Promise<void>, failureMessage: string) => {
+    event.stopPropagation(); // Prevent session selection
+
+    try {
+      await action();
+      await loadChatHistory();
+    } catch (err) {
+      console.error('❌ [CHAT HISTORY] Session action failed:', err);
+      alert(failureMessage);
+    }
+  };
+
+  const handleTogglePin = (item: ChatHistoryItem, event: React.MouseEvent) =>
+    runSessionAction(
+      event,
+      () => SQLiteService.getInstance().setSessionPinned(item.session_id, !item.is_pinned),
+      t('pinSessionFailed', 'Failed to update chat session')
+    );
+
+  const handleToggleArchive = (item: ChatHistoryItem, event: React.MouseEvent) =>
+    runSessionAction(
+      event,
+      () => item.is_archived
+        ? SQLiteService.getInstance().unarchiveSession(item.session_id)
+        : SQLiteService.getInstance().archiveSession(item.session_id),
+      t('archiveSessionFailed', 'Failed to update chat session')
+    );
+
+  const handleAddTag = (item: ChatHistoryItem, event: React.MouseEvent) => {
+    event.stopPropagation();
+    const tag = prompt(t('addTagPrompt', 'Tag this chat (e.g. a field or season):'));
+    if (!tag || !tag.trim()) {
+      return;
+    }
+    runSessionAction(
+      event,
+      () => SQLiteService.getInstance().addSessionTag(item.session_id, tag),
+      t('addTagFailed', 'Failed to add tag')
+    );
+  };
+
+  const handleRemoveTag = (item: ChatHistoryItem, tag: string, event: React.MouseEvent) =>
+    runSessionAction(
+      event,
+      () => SQLiteService.getInstance().removeSessionTag(item.session_id, tag),
+      t('removeTagFailed', 'Failed to remove tag')
+    );
+
+  const toggleExportMenu = (sessionId: string, event: React.MouseEvent) => {
+    event.stopPropagation();
+    setExportMenuSessionId(prev => prev === sessionId ? null : sessionId);
+  };
+
+  const handleExport = async (sessionId: string, format: ChatExportFormat, event: React.MouseEvent) => {
+    event.stopPropagation();
+    setExportMenuSessionId(null);
+    setExportingSessionId(sessionId);
+
+    try {
+      await ChatExportService.getInstance().exportSession(sessionId, format);
+    } catch (err) {
+      // Dismissing the share sheet rejects - that is not a failure
+      if ((err as Error)?.message?.toLowerCase().includes('cancel')) {
+        return;
+      }
+      console.error('❌ [CHAT HISTORY] Export failed:', err);
+      alert(t('exportFailed', 'Failed to export chat session'));
+    } finally {
+      setExportingSessionId(null);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const result = await fileService.pickFiles({ types: ['application/json'], limit: 1, readData: true });
+      const file = result.files[0];
+      if (!file) {
+        return;
+      }
+
+      let json: string;
+      if (file.data) {
+        json = new TextDecoder().decode(Uint8Array.from(atob(file.data), char => char.charCodeAt(0)));
+      } else if (file.blob) {
+        json = await file.blob.text();
+      } else {
+        throw new Error('The selected file could not be read');
+      }
+
+      await ChatExportService.getInstance().importSession(json);
+      setShowArchived(false);
+      setTagFilter(null);
+      await loadChatHistory();
+    } catch (err) {
+      if ((err as Error)?.message?.toLowerCase().includes('cancel')) {
+        return;
+      }
+      console.error('❌ [CHAT HISTORY] Import failed:', err);
+      alert(`${t('importFailed', 'Failed to import chat')}: ${(err as Error)?.message || err}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   return (
     <div className="popup-backdrop show">
       <div className="popup-content">
@@ -109,8 +348,141 @@ const ChatHistoryPopup: React.FC<ChatHistoryPopupProps> = ({ onClose, onSelectSe
           <button className="close-btn" onClick={onClose}>×</button>
         </div>
         
+        <div className="chat-history-search">
+          <div className="chat-history-search-row">
+            <input
+              type="search"
+              className="chat-history-search-input"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder={t('searchMessages', 'Search messages...')}
+            />
+            <button
+              className={`chat-history-filter-btn ${showSearchFilters ? 'active' : ''}`}
+              onClick={toggleSearchFilters}
+            >
+              {t('searchFilters', 'Filters')}
+            </button>
+          </div>
+          {showSearchFilters && (
+            <div className="chat-history-search-filters">
+              <select
+                value={searchFilters.sender || ''}
+                onChange={(e) => updateSearchFilter({ sender: (e.target.value || undefined) as MessageSearchFilters['sender'] })}
+              >
+                <option value="">{t('searchAnySender', 'Anyone')}</option>
+                <option value="user">{t('searchSenderUser', 'Me')}</option>
+                <option value="bot">{t('searchSenderBot', 'Assistant')}</option>
+              </select>
+              <select
+                value={searchFilters.modelUsed || ''}
+                onChange={(e) => updateSearchFilter({ modelUsed: e.target.value || undefined })}
+              >
+                <option value="">{t('searchAnyModel', 'Any model')}</option>
+                {modelsUsed.map(model => (
+                  <option key={model} value={model}>{model}</option>
+                ))}
+              </select>
+              <label>
+                {t('searchFrom', 'From')}
+                <input
+                  type="date"
+                  value={toDateInputValue(searchFilters.fromDate)}
+                  onChange={(e) => handleDateFilterChange('fromDate', e.target.value)}
+                />
+              </label>
+              <label>
+                {t('searchTo', 'To')}
+                <input
+                  type="date"
+                  value={toDateInputValue(searchFilters.toDate)}
+                  onChange={(e) => handleDateFilterChange('toDate', e.target.value)}
+                />
+              </label>
+            </div>
+          )}
+        </div>
+
+        {!isSearchActive && (
+          <div className="chat-history-organise">
+            <div className="chat-history-tabs">
+              <button
+                className={`chat-history-tab ${!showArchived ? 'active' : ''}`}
+                onClick={() => setShowArchived(false)}
+              >
+                {t('activeChats', 'Chats')}
+              </button>
+              <button
+                className={`chat-history-tab ${showArchived ? 'active' : ''}`}
+                onClick={() => setShowArchived(true)}
+              >
+                {t('archivedChats', 'Archived')}
+              </button>
+              <button
+                className="chat-history-tab"
+                onClick={handleImport}
+                disabled={isImporting}
+              >
+                {isImporting ? t('importingChat', 'Importing...') : t('importChat', 'Import')}
+              </button>
+            </div>
+            {availableTags.length > 0 && (
+              <div className="chat-history-tag-filters">
+                <button
+                  className={`chat-tag-chip ${!tagFilter ? 'active' : ''}`}
+                  onClick={() => setTagFilter(null)}
+                >
+                  {t('allTags', 'All')}
+                </button>
+                {availableTags.map(item => (
+                  <button
+                    key={item.tag}
+                    className={`chat-tag-chip ${tagFilter?.toLowerCase() === item.tag.toLowerCase() ? 'active' : ''}`}
+                    onClick={() => setTagFilter(item.tag)}
+                  >
+                    {item.tag} ({item.count})
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="chat-history-content">
-          {loading ? (
+          {isSearchActive ? (
+            isSearching && searchResults.length === 0 ? (
+              <div className="loading-message">
+                <i className="icon-loading"></i>
+                <span>{t('searching', 'Searching...')}</span>
+              </div>
+            ) : searchResults.length === 0 ? (
+              <div className="empty-message">
+                <i className="icon-empty"></i>
+                <span>{t('noSearchResults', 'No messages match your search')}</span>
+              </div>
+            ) : (
+              <div className="chat-history-list">
+                {searchResults.map((result) => (
+                  <div
+                    key={result.message_id}
+                    className="chat-history-item chat-search-result"
+                    onClick={() => handleSessionSelect(result.session_id, result.message_id)}
+                  >
+                    <div className="chat-item-content">
+                      <div className="chat-search-snippet">
+                        {renderSnippet(result.snippet)}
+                      </div>
+                      <div className="chat-item-date">
+                        {result.sender === 'user' ? t('searchSenderUser', 'Me') : t('searchSenderBot', 'Assistant')}
+                        {' · '}{result.session_title}
+                        {' · '}{new Date(result.created_at).toLocaleDateString()}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )
+          ) : loading ? (
             <div className="loading-message">
               <i className="icon-loading"></i>
               <span>{t('loading', 'Loading...')}</span>
@@ -126,25 +498,82 @@ const ChatHistoryPopup: React.FC<ChatHistoryPopupProps> = ({ onClose, onSelectSe
           ) : chatHistory.length === 0 ? (
             <div className="empty-message">
               <i className="icon-empty"></i>
-              <span>{t('noChatHistory', 'No chat history found')}</span>
+              <span>
+                {showArchived
+                  ? t('noArchivedChats', 'No archived chats')
+                  : t('noChatHistory', 'No chat history found')}
+              </span>
             </div>
           ) : (
             <div className="chat-history-list">
               {chatHistory.map((item) => (
                 <div
                   key={item.session_id}
-                  className="chat-history-item"
+                  className={`chat-history-item ${item.is_pinned ? 'pinned' : ''}`}
                   onClick={() => handleSessionSelect(item.session_id)}
                 >
                   <div className="chat-item-content">
                     <div className="chat-item-title">
+                      {item.is_pinned && <span className="chat-item-pin-marker">📌 </span>}
                       {item.display_title}
                     </div>
                     <div className="chat-item-date">
                       {item.formatted_date}
                     </div>
+                    {exportMenuSessionId === item.session_id && (
+                      <div className="chat-item-export-menu">
+                        <button className="chat-tag-chip" onClick={(e) => handleExport(item.session_id, 'pdf', e)}>PDF</button>
+                        <button className="chat-tag-chip" onClick={(e) => handleExport(item.session_id, 'markdown', e)}>Markdown</button>
+                        <button className="chat-tag-chip" onClick={(e) => handleExport(item.session_id, 'json', e)}>JSON</button>
+                      </div>
+                    )}
+                    {item.tags.length > 0 && (
+                      <div className="chat-item-tags">
+                        {item.tags.map(tag => (
+                          <span key={tag} className="chat-tag-chip">
+                            {tag}
+                            <button
+                              className="chat-tag-remove"
+                              onClick={(e) => handleRemoveTag(item, tag, e)}
+                              title={t('removeTag', 'Remove tag')}
+                            >
+                              ×
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </div>
                   <div className="chat-item-actions">
+                    <button
+                      className="session-action-btn"
+                      onClick={(e) => handleTogglePin(item, e)}
+                      title={item.is_pinned ? t('unpinSession', 'Unpin') : t('pinSession', 'Pin')}
+                    >
+                      {item.is_pinned ? t('unpinSession', 'Unpin') : t('pinSession', 'Pin')}
+                    </button>
+                    <button
+                      className="session-action-btn"
+                      onClick={(e) => handleAddTag(item, e)}
+                      title={t('addTag', 'Add tag')}
+                    >
+                      {t('addTag', 'Add tag')}
+                    </button>
+                    <button
+                      className="session-action-btn"
+                      onClick={(e) => toggleExportMenu(item.session_id, e)}
+                      disabled={exportingSessionId === item.session_id}
+                      title={t('exportSession', 'Export')}
+                    >
+                      {exportingSessionId === item.session_id ? t('exportingSession', 'Exporting...') : t('exportSession', 'Export')}
+                    </button>
+                    <button
+                      className="session-action-btn"
+                      onClick={(e) => handleToggleArchive(item, e)}
+                      title={item.is_archived ? t('unarchiveSession', 'Unarchive') : t('archiveSession', 'Archive')}
+                    >
+                      {item.is_archived ? t('unarchiveSession', 'Unarchive') : t('archiveSession', 'Archive')}
+                    </button>
                     <button
                       className="delete-btn"
                       onClick={(e) => handleDeleteSession(item.session_id, e)}
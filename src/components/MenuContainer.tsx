@@ -19,7 +19,7 @@ interface MenuContainerProps {
   isUserLoggedIn: boolean;
   isOffline: boolean;
   onAuthStateChange: (isLoggedIn: boolean, isOfflineMode: boolean) => void;
-  onSessionSelect?: (sessionId: string) => void;
+  onSessionSelect?: (sessionId: string, messageId?: string) => void;
 }
 
 const MenuContainer: React.FC<MenuContainerProps> = ({ 
@@ -69,9 +69,9 @@ const MenuContainer: React.FC<MenuContainerProps> = ({
     }
   };
 
-  const handleSessionSelect = (sessionId: string) => {
+  const handleSessionSelect = (sessionId: string, messageId?: string) => {
     if (onSessionSelect) {
-      onSessionSelect(sessionId);
+      onSessionSelect(sessionId, messageId);
     }
   };
 
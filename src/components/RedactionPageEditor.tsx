@@ -0,0 +1,245 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { PageWord, RedactedArea, RedactionEdit, RedactionPage } from '../services/DocumentRedactionService';
+
+type Box = [number, number, number, number];
+
+interface RedactionPageEditorProps {
+  redactedAreas: RedactedArea[];
+  edits: RedactionEdit[];
+  onRenderPage: (pageNumber: number) => Promise<RedactionPage>;
+  onAddEdit: (edit: RedactionEdit) => void;
+  onToggleArea: (area: RedactedArea) => void;
+  onRestoreEdit: (edit: RedactionEdit) => void;
+  // While the result is rebuilt after an edit
+  busy: boolean;
+}
+
+// Smallest box worth keeping, as a fraction of the page size
+const MIN_BOX_FRACTION = 0.01;
+
+/**
+ * The original page with its redactions drawn over it. Tap a word or draw a
+ * box to redact it, tap a redaction to keep that text visible.
+ */
+const RedactionPageEditor: React.FC<RedactionPageEditorProps> = ({
+  redactedAreas,
+  edits,
+  onRenderPage,
+  onAddEdit,
+  onToggleArea,
+  onRestoreEdit,
+  busy
+}) => {
+  const [pageNumber, setPageNumber] = useState(0);
+  const [page, setPage] = useState<RedactionPage | null>(null);
+  const [pageUrl, setPageUrl] = useState<string | null>(null);
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [draft, setDraft] = useState<Box | null>(null);
+  const draftStartRef = useRef<[number, number] | null>(null);
+  // The parent passes a new function on every render; only a page change should re-render
+  const renderPageRef = useRef(onRenderPage);
+  renderPageRef.current = onRenderPage;
+
+  useEffect(() => {
+    let cancelled = false;
+    setRenderError(null);
+    renderPageRef.current(pageNumber)
+      .then(rendered => {
+        if (!cancelled) {
+          setPage(rendered);
+        }
+      })
+      .catch(error => {
+        console.error('❌ Failed to render page for redaction editor:', error);
+        if (!cancelled) {
+          setRenderError('This page could not be shown.');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pageNumber]);
+
+  useEffect(() => {
+    if (!page) {
+      setPageUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(page.image);
+    setPageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [page]);
+
+  const getBoxStyle = (box: Box, bounds: Box): React.CSSProperties => {
+    const [left, top, right, bottom] = bounds;
+    const width = right - left;
+    const height = bottom - top;
+    return {
+      left: `${((box[0] - left) / width) * 100}%`,
+      top: `${((box[1] - top) / height) * 100}%`,
+      width: `${((box[2] - box[0]) / width) * 100}%`,
+      height: `${((box[3] - box[1]) / height) * 100}%`
+    };
+  };
+
+  const toPagePoint = (event: React.PointerEvent<HTMLDivElement>, bounds: Box): [number, number] => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const [left, top, right, bottom] = bounds;
+    return [
+      left + ((event.clientX - rect.left) / rect.width) * (right - left),
+      top + ((event.clientY - rect.top) / rect.height) * (bottom - top)
+    ];
+  };
+
+  const handleWordTap = (word: PageWord): void => {
+    onAddEdit({
+      action: 'add',
+      pageNumber,
+      boundingBox: word.boundingBox,
+      text: word.text,
+      category: 'pii'
+    });
+  };
+
+  const handleDrawStart = (event: React.PointerEvent<HTMLDivElement>): void => {
+    if (!page) {
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toPagePoint(event, page.bounds);
+    draftStartRef.current = point;
+    setDraft([point[0], point[1], point[0], point[1]]);
+  };
+
+  const handleDrawMove = (event: React.PointerEvent<HTMLDivElement>): void => {
+    const start = draftStartRef.current;
+    if (!page || !start) {
+      return;
+    }
+    const [x, y] = toPagePoint(event, page.bounds);
+    setDraft([Math.min(start[0], x), Math.min(start[1], y), Math.max(start[0], x), Math.max(start[1], y)]);
+  };
+
+  const handleDrawEnd = (): void => {
+    const box = draft;
+    draftStartRef.current = null;
+    setDraft(null);
+    if (!page || !box) {
+      return;
+    }
+
+    const [left, top, right, bottom] = page.bounds;
+    if (box[2] - box[0] < (right - left) * MIN_BOX_FRACTION || box[3] - box[1] < (bottom - top) * MIN_BOX_FRACTION) {
+      return;
+    }
+
+    const text = page.words
+      .filter(word => {
+        const centerX = (word.boundingBox[0] + word.boundingBox[2]) / 2;
+        const centerY = (word.boundingBox[1] + word.boundingBox[3]) / 2;
+        return centerX >= box[0] && centerX <= box[2] && centerY >= box[1] && centerY <= box[3];
+      })
+      .map(word => word.text)
+      .join(' ');
+
+    onAddEdit({ action: 'add', pageNumber, boundingBox: box, text, category: 'pii' });
+  };
+
+  const pageAreas = redactedAreas.filter(area => (area.pageNumber ?? 0) === pageNumber && area.boundingBox);
+  const removedEdits = edits.filter(edit => edit.action === 'remove' && edit.pageNumber === pageNumber);
+
+  return (
+    <div className="page-editor">
+      <div className="page-editor-toolbar">
+        <button
+          type="button"
+          className={`btn btn-secondary ${isDrawing ? 'active' : ''}`}
+          onClick={() => setIsDrawing(!isDrawing)}
+        >
+          {isDrawing ? '👆 Tap words' : '✏️ Draw box'}
+        </button>
+        {page && page.pageCount > 1 && (
+          <div className="page-editor-nav">
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() => setPageNumber(pageNumber - 1)}
+              disabled={pageNumber === 0}
+            >
+              ◀
+            </button>
+            <span>Page {pageNumber + 1} of {page.pageCount}</span>
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() => setPageNumber(pageNumber + 1)}
+              disabled={pageNumber >= page.pageCount - 1}
+            >
+              ▶
+            </button>
+          </div>
+        )}
+      </div>
+
+      {page && pageUrl && page.pageNumber === pageNumber ? (
+        <div className={`page-editor-canvas ${busy ? 'busy' : ''}`}>
+          <img src={pageUrl} alt={`Page ${pageNumber + 1}`} className="page-editor-image" />
+          {page.words.map((word, index) => (
+            <button
+              key={`word_${index}`}
+              type="button"
+              className="page-word"
+              style={getBoxStyle(word.boundingBox, page.bounds)}
+              onClick={() => handleWordTap(word)}
+              disabled={busy || isDrawing}
+              title={word.text}
+            />
+          ))}
+          {pageAreas.map(area => (
+            <button
+              key={area.id}
+              type="button"
+              className={`page-redaction ${area.manual ? 'manual' : ''}`}
+              style={getBoxStyle(area.boundingBox as Box, page.bounds)}
+              onClick={() => onToggleArea(area)}
+              disabled={busy || isDrawing}
+              title={area.manual ? 'Tap to remove this box' : 'Tap to keep this text visible'}
+            />
+          ))}
+          {removedEdits.map((edit, index) => (
+            <button
+              key={`removed_${index}`}
+              type="button"
+              className="page-redaction removed"
+              style={getBoxStyle(edit.boundingBox, page.bounds)}
+              onClick={() => onRestoreEdit(edit)}
+              disabled={busy || isDrawing}
+              title="Tap to redact this again"
+            />
+          ))}
+          {isDrawing && (
+            <div
+              className="page-draw-layer"
+              onPointerDown={handleDrawStart}
+              onPointerMove={handleDrawMove}
+              onPointerUp={handleDrawEnd}
+              onPointerCancel={handleDrawEnd}
+            />
+          )}
+          {draft && <div className="page-redaction draft" style={getBoxStyle(draft, page.bounds)} />}
+        </div>
+      ) : (
+        <div className="page-editor-loading">{renderError ?? 'Rendering page...'}</div>
+      )}
+
+      <p className="image-preview-hint">
+        {isDrawing
+          ? 'Drag over anything the patterns missed, such as a handwritten name.'
+          : 'Tap a word to redact it, or tap a black box to keep that text visible.'}
+      </p>
+    </div>
+  );
+};
+
+export default RedactionPageEditor;
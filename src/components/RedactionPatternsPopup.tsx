@@ -0,0 +1,459 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import '../css/redaction-patterns.css';
+import DocumentRedactionService, {
+  CategoryRedactionPreference,
+  REDACTION_CATEGORIES,
+  RedactionPreferences
+} from '../services/DocumentRedactionService';
+import { RedactionPattern as StoredRedactionPattern } from '../services/RedactionDatabaseService';
+import SensitiveContentDetector, { DEFAULT_CONFIDENCE_THRESHOLD, SensitiveFinding } from '../services/SensitiveContentDetector';
+import { compileStoredPattern } from '../services/RedactionPatterns';
+import PseudonymService from '../services/PseudonymService';
+
+interface RedactionPatternsPopupProps {
+  // `changed` is true when preferences or patterns were added, edited, removed or switched
+  onClose: (changed: boolean) => void;
+}
+
+interface PatternDraft {
+  name: string;
+  matchType: StoredRedactionPattern['match_type'];
+  regex: string;
+  keywords: string;
+  category: StoredRedactionPattern['pattern_category'];
+  severity: StoredRedactionPattern['severity'];
+  source: 'user' | 'organization';
+  // Kept when a switched-off pattern is edited
+  isActive: boolean;
+}
+
+const EMPTY_DRAFT: PatternDraft = {
+  name: '',
+  matchType: 'regex',
+  regex: '',
+  keywords: '',
+  category: 'pii',
+  severity: 'high',
+  source: 'user',
+  isActive: true
+};
+
+const CATEGORIES: StoredRedactionPattern['pattern_category'][] = ['pii', 'financial', 'medical', 'legal', 'other'];
+// Low only redacts with a keyword nearby, which custom patterns do not have
+const SEVERITIES: StoredRedactionPattern['severity'][] = ['high', 'medium'];
+
+// Keywords are entered one per line or separated by commas
+const parseKeywords = (text: string): string[] =>
+  text.split(/[\n,]/).map(keyword => keyword.trim()).filter(keyword => keyword.length > 0);
+
+const toStoredPattern = (draft: PatternDraft): Omit<StoredRedactionPattern, 'id' | 'created_at' | 'updated_at'> => ({
+  pattern_name: draft.name.trim(),
+  pattern_regex: draft.matchType === 'regex' ? draft.regex : '',
+  pattern_category: draft.category,
+  severity: draft.severity,
+  is_active: draft.isActive,
+  match_type: draft.matchType,
+  keywords: draft.matchType === 'keywords' ? JSON.stringify(parseKeywords(draft.keywords)) : undefined,
+  source: draft.source
+});
+
+const RedactionPatternsPopup: React.FC<RedactionPatternsPopupProps> = ({ onClose }) => {
+  const { t } = useTranslation();
+  const [redactionService] = useState(() => DocumentRedactionService.getInstance());
+  const [patterns, setPatterns] = useState<StoredRedactionPattern[]>([]);
+  const [preferences, setPreferences] = useState<RedactionPreferences | null>(null);
+  const [pseudonymise, setPseudonymise] = useState<boolean>(false);
+  const [draft, setDraft] = useState<PatternDraft>(EMPTY_DRAFT);
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [testText, setTestText] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [changed, setChanged] = useState<boolean>(false);
+
+  const loadPatterns = useCallback(async (): Promise<void> => {
+    try {
+      setPatterns(await redactionService.getStoredPatterns());
+    } catch (err) {
+      console.error('❌ Failed to load redaction patterns:', err);
+      setError(t('redaction_patterns_load_failed', 'Could not load redaction patterns'));
+    }
+  }, [redactionService, t]);
+
+  useEffect(() => {
+    loadPatterns();
+  }, [loadPatterns]);
+
+  useEffect(() => {
+    redactionService.getRedactionPreferences().then(setPreferences);
+    PseudonymService.getInstance().isEnabled().then(setPseudonymise);
+  }, [redactionService]);
+
+  const handlePseudonymiseChange = async (enabled: boolean): Promise<void> => {
+    setPseudonymise(enabled);
+    try {
+      await PseudonymService.getInstance().setEnabled(enabled);
+      setChanged(true);
+    } catch (err) {
+      console.error('❌ Failed to save pseudonymisation setting:', err);
+      setError(t('redaction_preferences_save_failed', 'Could not save redaction preferences'));
+      setPseudonymise(!enabled);
+    }
+  };
+
+  const handlePreferenceChange = async (
+    category: keyof RedactionPreferences,
+    field: keyof CategoryRedactionPreference,
+    value: boolean
+  ): Promise<void> => {
+    if (!preferences) {
+      return;
+    }
+    const updated = { ...preferences, [category]: { ...preferences[category], [field]: value } };
+    setPreferences(updated);
+    try {
+      await redactionService.saveRedactionPreferences(updated);
+      setChanged(true);
+    } catch (err) {
+      console.error('❌ Failed to save redaction preferences:', err);
+      setError(t('redaction_preferences_save_failed', 'Could not save redaction preferences'));
+      setPreferences(preferences);
+    }
+  };
+
+  // Compile the draft as it is typed, so the test box and errors are live
+  const compiled = useMemo(() => {
+    if (!draft.name.trim() || (draft.matchType === 'regex' ? !draft.regex : !draft.keywords.trim())) {
+      return { pattern: null, error: null };
+    }
+    try {
+      return { pattern: compileStoredPattern(toStoredPattern(draft)), error: null };
+    } catch (err) {
+      return { pattern: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [draft]);
+
+  const testFindings = useMemo<SensitiveFinding[]>(() => {
+    if (!compiled.pattern || !testText) {
+      return [];
+    }
+    return SensitiveContentDetector.getInstance().testPattern(compiled.pattern, testText);
+  }, [compiled.pattern, testText]);
+
+  const updateDraft = (field: keyof PatternDraft, value: string): void => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async (): Promise<void> => {
+    if (!compiled.pattern) {
+      return;
+    }
+    const name = draft.name.trim();
+    if (editingName !== name && patterns.some(pattern => pattern.pattern_name === name)) {
+      setError(t('redaction_patterns_name_taken', 'A pattern with this name already exists'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await redactionService.saveStoredPattern(toStoredPattern(draft));
+      // Only once the renamed pattern is saved, so a failed save loses nothing
+      if (editingName && editingName !== name) {
+        await redactionService.deleteStoredPattern(editingName);
+      }
+      setDraft(EMPTY_DRAFT);
+      setEditingName(null);
+      setChanged(true);
+      await loadPatterns();
+    } catch (err) {
+      console.error('❌ Failed to save redaction pattern:', err);
+      setError(t('redaction_patterns_save_failed', 'Could not save the pattern'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (pattern: StoredRedactionPattern): void => {
+    setEditingName(pattern.pattern_name);
+    setError(null);
+    setDraft({
+      name: pattern.pattern_name,
+      matchType: pattern.match_type,
+      regex: pattern.pattern_regex,
+      keywords: pattern.keywords ? (JSON.parse(pattern.keywords) as string[]).join('\n') : '',
+      category: pattern.pattern_category,
+      severity: pattern.severity === 'low' ? 'medium' : pattern.severity,
+      source: pattern.source === 'organization' ? 'organization' : 'user',
+      isActive: pattern.is_active
+    });
+  };
+
+  const handleCancelEdit = (): void => {
+    setEditingName(null);
+    setDraft(EMPTY_DRAFT);
+    setError(null);
+  };
+
+  const handleDelete = async (patternName: string): Promise<void> => {
+    try {
+      await redactionService.deleteStoredPattern(patternName);
+      if (editingName === patternName) {
+        handleCancelEdit();
+      }
+      setChanged(true);
+      await loadPatterns();
+    } catch (err) {
+      console.error('❌ Failed to delete redaction pattern:', err);
+      setError(t('redaction_patterns_delete_failed', 'Could not delete the pattern'));
+    }
+  };
+
+  const handleToggle = async (pattern: StoredRedactionPattern): Promise<void> => {
+    try {
+      await redactionService.setPatternEnabled(pattern.pattern_name, !pattern.is_active);
+      setChanged(true);
+      await loadPatterns();
+    } catch (err) {
+      console.error('❌ Failed to switch redaction pattern:', err);
+      setError(t('redaction_patterns_save_failed', 'Could not save the pattern'));
+    }
+  };
+
+  const getCategoryLabel = (category: string): string => t(`redaction_category_${category}`, category.toUpperCase());
+
+  // The test text with every match marked, in order
+  const renderTestPreview = (): React.ReactNode => {
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    for (const finding of testFindings) {
+      if (finding.start < position) {
+        continue;
+      }
+      parts.push(testText.substring(position, finding.start));
+      parts.push(
+        <mark
+          key={finding.start}
+          className={finding.confidence >= DEFAULT_CONFIDENCE_THRESHOLD ? 'would-redact' : 'below-threshold'}
+          title={`${Math.round(finding.confidence * 100)}%`}
+        >
+          {finding.text}
+        </mark>
+      );
+      position = finding.end;
+    }
+    parts.push(testText.substring(position));
+    return parts;
+  };
+
+  const customPatterns = patterns.filter(pattern => pattern.source !== 'builtin');
+  const builtinPatterns = patterns.filter(pattern => pattern.source === 'builtin');
+  const redactedCount = testFindings.filter(finding => finding.confidence >= DEFAULT_CONFIDENCE_THRESHOLD).length;
+
+  const renderPatternRow = (pattern: StoredRedactionPattern): React.ReactElement => (
+    <div key={pattern.pattern_name} className={`pattern-row ${pattern.is_active ? '' : 'inactive'}`}>
+      <label className="pattern-toggle">
+        <input
+          type="checkbox"
+          checked={pattern.is_active}
+          onChange={() => handleToggle(pattern)}
+        />
+        <span className="pattern-name">{pattern.pattern_name}</span>
+      </label>
+      <span className={`pattern-badge category-${pattern.pattern_category}`}>{getCategoryLabel(pattern.pattern_category)}</span>
+      <span className={`pattern-badge severity-${pattern.severity}`}>{t(`redaction_severity_${pattern.severity}`, pattern.severity)}</span>
+      {pattern.source !== 'builtin' && (
+        <>
+          <span className="pattern-badge source">
+            {pattern.source === 'organization'
+              ? t('redaction_patterns_source_organization', 'Organisation')
+              : t('redaction_patterns_source_user', 'Mine')}
+          </span>
+          <button type="button" className="pattern-action" onClick={() => handleEdit(pattern)}>
+            ✏️
+          </button>
+          <button type="button" className="pattern-action" onClick={() => handleDelete(pattern.pattern_name)}>
+            🗑️
+          </button>
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="redaction-patterns-overlay">
+      <div className="redaction-patterns-modal">
+        <div className="redaction-patterns-header">
+          <h3>{t('redaction_settings_title', 'Redaction settings')}</h3>
+          <button type="button" className="close-button" onClick={() => onClose(changed)}>
+            ×
+          </button>
+        </div>
+
+        <div className="redaction-patterns-content">
+          {error && <div className="pattern-error">{error}</div>}
+
+          {preferences && (
+            <section>
+              <h4>{t('redaction_preferences_title', 'Categories')}</h4>
+              <p className="pattern-hint">
+                {t('redaction_preferences_hint', 'Documents with only categories that do not ask first are redacted and attached straight away.')}
+              </p>
+              <table className="preference-table">
+                <thead>
+                  <tr>
+                    <th></th>
+                    <th>{t('redaction_preferences_auto', 'Redact')}</th>
+                    <th>{t('redaction_preferences_confirm', 'Ask first')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {REDACTION_CATEGORIES.map(category => (
+                    <tr key={category}>
+                      <td>{getCategoryLabel(category)}</td>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={preferences[category].autoRedact}
+                          onChange={e => handlePreferenceChange(category, 'autoRedact', e.target.checked)}
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={preferences[category].requireConfirmation}
+                          onChange={e => handlePreferenceChange(category, 'requireConfirmation', e.target.checked)}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <label className="pattern-toggle pseudonymise-toggle">
+                <input
+                  type="checkbox"
+                  checked={pseudonymise}
+                  onChange={e => handlePseudonymiseChange(e.target.checked)}
+                />
+                {t('redaction_pseudonymise', 'Use placeholders such as <PERSON_1> instead of [REDACTED]')}
+              </label>
+              <p className="pattern-hint">
+                {t('redaction_pseudonymise_hint', 'The AI can refer to each value by its placeholder. Replies show the real values, which stay on this device.')}
+              </p>
+            </section>
+          )}
+
+          <section className="pattern-editor">
+            <h4>
+              {editingName
+                ? t('redaction_patterns_edit', 'Edit pattern')
+                : t('redaction_patterns_add', 'Add a pattern')}
+            </h4>
+            <p className="pattern-hint">
+              {t('redaction_patterns_hint', 'For example member IDs (MEM-\\d{6}) or internal scheme numbers.')}
+            </p>
+
+            <input
+              type="text"
+              className="pattern-input"
+              placeholder={t('redaction_patterns_name', 'Name')}
+              value={draft.name}
+              onChange={e => updateDraft('name', e.target.value)}
+            />
+
+            <div className="pattern-options">
+              <select value={draft.matchType} onChange={e => updateDraft('matchType', e.target.value)}>
+                <option value="regex">{t('redaction_patterns_type_regex', 'Regular expression')}</option>
+                <option value="keywords">{t('redaction_patterns_type_keywords', 'Keyword list')}</option>
+              </select>
+              <select value={draft.category} onChange={e => updateDraft('category', e.target.value)}>
+                {CATEGORIES.map(category => (
+                  <option key={category} value={category}>{getCategoryLabel(category)}</option>
+                ))}
+              </select>
+              <select value={draft.severity} onChange={e => updateDraft('severity', e.target.value)}>
+                {SEVERITIES.map(severity => (
+                  <option key={severity} value={severity}>{t(`redaction_severity_${severity}`, severity)}</option>
+                ))}
+              </select>
+              <select value={draft.source} onChange={e => updateDraft('source', e.target.value)}>
+                <option value="user">{t('redaction_patterns_source_user', 'Mine')}</option>
+                <option value="organization">{t('redaction_patterns_source_organization', 'Organisation')}</option>
+              </select>
+            </div>
+
+            {draft.matchType === 'regex' ? (
+              <input
+                type="text"
+                className="pattern-input pattern-code"
+                placeholder="MEM-\d{6}"
+                value={draft.regex}
+                onChange={e => updateDraft('regex', e.target.value)}
+              />
+            ) : (
+              <textarea
+                className="pattern-input"
+                rows={3}
+                placeholder={t('redaction_patterns_keywords', 'One keyword per line')}
+                value={draft.keywords}
+                onChange={e => updateDraft('keywords', e.target.value)}
+              />
+            )}
+            {compiled.error && <div className="pattern-error">{compiled.error}</div>}
+
+            <textarea
+              className="pattern-input pattern-test"
+              rows={3}
+              placeholder={t('redaction_patterns_test', 'Paste some text to test the pattern')}
+              value={testText}
+              onChange={e => setTestText(e.target.value)}
+            />
+            {compiled.pattern && testText && (
+              <div className="pattern-test-result">
+                <div className="pattern-test-summary">
+                  {t('redaction_patterns_test_result', '{{matches}} match(es), {{redacted}} would be redacted', {
+                    matches: testFindings.length,
+                    redacted: redactedCount
+                  })}
+                </div>
+                <div className="pattern-test-preview">{renderTestPreview()}</div>
+              </div>
+            )}
+
+            <div className="pattern-editor-actions">
+              {editingName && (
+                <button type="button" className="btn btn-secondary" onClick={handleCancelEdit}>
+                  {t('cancel', 'Cancel')}
+                </button>
+              )}
+              <button
+                type="button"
+                className="btn btn-primary"
+                onClick={handleSave}
+                disabled={!compiled.pattern || saving}
+              >
+                {saving ? t('saving', 'Saving...') : t('save', 'Save')}
+              </button>
+            </div>
+          </section>
+
+          <section>
+            <h4>{t('redaction_patterns_custom', 'Your patterns')}</h4>
+            {customPatterns.length === 0 ? (
+              <p className="pattern-hint">{t('redaction_patterns_none', 'No custom patterns yet.')}</p>
+            ) : (
+              customPatterns.map(renderPatternRow)
+            )}
+          </section>
+
+          <section>
+            <h4>{t('redaction_patterns_builtin', 'Built-in patterns')}</h4>
+            {builtinPatterns.map(renderPatternRow)}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RedactionPatternsPopup;
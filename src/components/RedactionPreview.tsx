@@ -1,38 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import '../css/redaction-preview.css';
-
-interface RedactedArea {
-  id: string;
-  type: 'text' | 'image' | 'metadata';
-  originalContent: string;
-  redactedContent: string;
-  boundingBox?: [number, number, number, number];
-  pageNumber?: number;
-  confidence: number;
-  category: string;
-}
-
-interface RedactionSummary {
-  totalRedactions: number;
-  piiRedactions: number;
-  financialRedactions: number;
-  medicalRedactions: number;
-  legalRedactions: number;
-  otherRedactions: number;
-  highConfidence: number;
-  mediumConfidence: number;
-  lowConfidence: number;
-}
-
-interface RedactionResult {
-  originalText: string;
-  redactedText: string;
-  redactedAreas: RedactedArea[];
-  extractedText: string;
-  confidence: number;
-  redactionSummary: RedactionSummary;
-}
+import RedactionPageEditor from './RedactionPageEditor';
+import { RedactedArea, RedactionEdit, RedactionPage, RedactionResult } from '../services/DocumentRedactionService';
+import { RedactionCategory } from '../services/SensitiveContentDetector';
 
 interface RedactionPreviewProps {
   redactionResult: RedactionResult;
@@ -41,19 +12,97 @@ interface RedactionPreviewProps {
   onConfirm: (result: RedactionResult) => void;
   onCancel: () => void;
   onModifySettings?: () => void;
+  // Both are needed for the editor and for toggling boxes on a photo
+  onRenderPage?: (pageNumber: number) => Promise<RedactionPage>;
+  // Saves the edits and returns the result rebuilt with them
+  onEditsChange?: (edits: RedactionEdit[]) => Promise<RedactionResult>;
 }
 
+// Manual areas are drawn from their edit's box, so they match it exactly
+const isSameBox = (a: number[], b: number[]): boolean =>
+  a.every((value, index) => Math.abs(value - b[index]) < 0.5);
+
 const RedactionPreview: React.FC<RedactionPreviewProps> = ({
   redactionResult,
   fileName,
   fileType,
   onConfirm,
   onCancel,
-  onModifySettings
+  onModifySettings,
+  onRenderPage,
+  onEditsChange
 }) => {
   const { t } = useTranslation();
-  const [selectedTab, setSelectedTab] = useState<'summary' | 'details' | 'text'>('summary');
+  const [result, setResult] = useState<RedactionResult>(redactionResult);
+  const [selectedTab, setSelectedTab] = useState<'summary' | 'details' | 'text' | 'image' | 'edit'>(
+    redactionResult.redactedImage ? 'image' : 'summary'
+  );
   const [showConfirmation, setShowConfirmation] = useState(false);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [isApplyingEdits, setIsApplyingEdits] = useState(false);
+  // Set when the last edit could not be saved or applied; the preview still shows the result before it
+  const [editError, setEditError] = useState<string | null>(null);
+
+  const redactedImage = result.redactedImage;
+  const edits = result.edits ?? [];
+  const canEdit = !!onRenderPage && !!onEditsChange;
+
+  useEffect(() => {
+    if (!redactedImage) {
+      setImageUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(redactedImage.data);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [redactedImage]);
+
+  // Rebuild the result with the user's edits; areas, summary and masked image all follow
+  const updateEdits = async (nextEdits: RedactionEdit[]): Promise<void> => {
+    if (!onEditsChange || isApplyingEdits) {
+      return;
+    }
+    setIsApplyingEdits(true);
+    try {
+      setResult(await onEditsChange(nextEdits));
+      setEditError(null);
+    } catch (error) {
+      console.error('❌ Failed to apply redaction edits:', error);
+      setEditError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsApplyingEdits(false);
+    }
+  };
+
+  const handleAddEdit = (edit: RedactionEdit): void => {
+    updateEdits([...edits, edit]);
+  };
+
+  // A manual box is taken away; an automatic one is kept visible as a false positive
+  const handleToggleArea = (area: RedactedArea): void => {
+    const boundingBox = area.boundingBox;
+    if (!boundingBox) {
+      return;
+    }
+    const pageNumber = area.pageNumber ?? 0;
+    if (area.manual) {
+      updateEdits(edits.filter(edit =>
+        !(edit.action === 'add' && edit.pageNumber === pageNumber && isSameBox(edit.boundingBox, boundingBox))
+      ));
+      return;
+    }
+    updateEdits([...edits, {
+      action: 'remove',
+      pageNumber,
+      boundingBox,
+      text: area.originalContent,
+      category: area.category as RedactionCategory
+    }]);
+  };
+
+  const handleRestoreEdit = (restored: RedactionEdit): void => {
+    updateEdits(edits.filter(edit => edit !== restored));
+  };
 
   const getCategoryIcon = (category: string): string => {
     switch (category) {
@@ -97,12 +146,19 @@ const RedactionPreview: React.FC<RedactionPreviewProps> = ({
     return 'Low';
   };
 
+  const getImageBoxStyle = (box: number[], width: number, height: number): React.CSSProperties => ({
+    left: `${(box[0] / width) * 100}%`,
+    top: `${(box[1] / height) * 100}%`,
+    width: `${((box[2] - box[0]) / width) * 100}%`,
+    height: `${((box[3] - box[1]) / height) * 100}%`
+  });
+
   const handleConfirm = () => {
     setShowConfirmation(true);
   };
 
   const handleFinalConfirm = () => {
-    onConfirm(redactionResult);
+    onConfirm(result);
   };
 
   const handleFinalCancel = () => {
@@ -131,6 +187,14 @@ const RedactionPreview: React.FC<RedactionPreviewProps> = ({
         {!showConfirmation ? (
           <>
             <div className="redaction-preview-tabs">
+              {redactedImage && (
+                <button 
+                  className={`tab ${selectedTab === 'image' ? 'active' : ''}`}
+                  onClick={() => setSelectedTab('image')}
+                >
+                  🖼️ Image
+                </button>
+              )}
               <button 
                 className={`tab ${selectedTab === 'summary' ? 'active' : ''}`}
                 onClick={() => setSelectedTab('summary')}
@@ -141,8 +205,16 @@ const RedactionPreview: React.FC<RedactionPreviewProps> = ({
                 className={`tab ${selectedTab === 'details' ? 'active' : ''}`}
                 onClick={() => setSelectedTab('details')}
               >
-                🔍 Details ({redactionResult.redactedAreas.length})
+                🔍 Details ({result.redactedAreas.length})
               </button>
+              {canEdit && (
+                <button 
+                  className={`tab ${selectedTab === 'edit' ? 'active' : ''}`}
+                  onClick={() => setSelectedTab('edit')}
+                >
+                  ✏️ Edit
+                </button>
+              )}
               <button 
                 className={`tab ${selectedTab === 'text' ? 'active' : ''}`}
                 onClick={() => setSelectedTab('text')}
@@ -156,11 +228,11 @@ const RedactionPreview: React.FC<RedactionPreviewProps> = ({
                 <div className="summary-tab">
                   <div className="redaction-stats">
                     <div className="stat-card">
-                      <div className="stat-number">{redactionResult.redactionSummary.totalRedactions}</div>
+                      <div className="stat-number">{result.redactionSummary.totalRedactions}</div>
                       <div className="stat-label">Total Redactions</div>
                     </div>
                     <div className="stat-card">
-                      <div className="stat-number">{Math.round(redactionResult.confidence * 100)}%</div>
+                      <div className="stat-number">{Math.round(result.confidence * 100)}%</div>
                       <div className="stat-label">Confidence</div>
                     </div>
                   </div>
@@ -168,39 +240,39 @@ const RedactionPreview: React.FC<RedactionPreviewProps> = ({
                   <div className="category-breakdown">
                     <h4>Redaction Categories</h4>
                     <div className="category-list">
-                      {redactionResult.redactionSummary.piiRedactions > 0 && (
+                      {result.redactionSummary.piiRedactions > 0 && (
                         <div className="category-item">
                           <span className="category-icon">👤</span>
                           <span className="category-name">Personal Information</span>
-                          <span className="category-count">{redactionResult.redactionSummary.piiRedactions}</span>
+                          <span className="category-count">{result.redactionSummary.piiRedactions}</span>
                         </div>
                       )}
-                      {redactionResult.redactionSummary.financialRedactions > 0 && (
+                      {result.redactionSummary.financialRedactions > 0 && (
                         <div className="category-item">
                           <span className="category-icon">💰</span>
                           <span className="category-name">Financial Data</span>
-                          <span className="category-count">{redactionResult.redactionSummary.financialRedactions}</span>
+                          <span className="category-count">{result.redactionSummary.financialRedactions}</span>
                         </div>
                       )}
-                      {redactionResult.redactionSummary.medicalRedactions > 0 && (
+                      {result.redactionSummary.medicalRedactions > 0 && (
                         <div className="category-item">
                           <span className="category-icon">🏥</span>
                           <span className="category-name">Medical Information</span>
-                          <span className="category-count">{redactionResult.redactionSummary.medicalRedactions}</span>
+                          <span className="category-count">{result.redactionSummary.medicalRedactions}</span>
                         </div>
                       )}
-                      {redactionResult.redactionSummary.legalRedactions > 0 && (
+                      {result.redactionSummary.legalRedactions > 0 && (
                         <div className="category-item">
                           <span className="category-icon">⚖️</span>
                           <span className="category-name">Legal Information</span>
-                          <span className="category-count">{redactionResult.redactionSummary.legalRedactions}</span>
+                          <span className="category-count">{result.redactionSummary.legalRedactions}</span>
                         </div>
                       )}
-                      {redactionResult.redactionSummary.otherRedactions > 0 && (
+                      {result.redactionSummary.otherRedactions > 0 && (
                         <div className="category-item">
                           <span className="category-icon">🔒</span>
                           <span className="category-name">Other</span>
-                          <span className="category-count">{redactionResult.redactionSummary.otherRedactions}</span>
+                          <span className="category-count">{result.redactionSummary.otherRedactions}</span>
                         </div>
                       )}
                     </div>
@@ -211,15 +283,15 @@ const RedactionPreview: React.FC<RedactionPreviewProps> = ({
                     <div className="confidence-list">
                       <div className="confidence-item high-confidence">
                         <span className="confidence-label">High Confidence</span>
-                        <span className="confidence-count">{redactionResult.redactionSummary.highConfidence}</span>
+                        <span className="confidence-count">{result.redactionSummary.highConfidence}</span>
                       </div>
                       <div className="confidence-item medium-confidence">
                         <span className="confidence-label">Medium Confidence</span>
-                        <span className="confidence-count">{redactionResult.redactionSummary.mediumConfidence}</span>
+                        <span className="confidence-count">{result.redactionSummary.mediumConfidence}</span>
                       </div>
                       <div className="confidence-item low-confidence">
                         <span className="confidence-label">Low Confidence</span>
-                        <span className="confidence-count">{redactionResult.redactionSummary.lowConfidence}</span>
+                        <span className="confidence-count">{result.redactionSummary.lowConfidence}</span>
                       </div>
                     </div>
                   </div>
@@ -228,7 +300,7 @@ const RedactionPreview: React.FC<RedactionPreviewProps> = ({
 
               {selectedTab === 'details' && (
                 <div className="details-tab">
-                  {redactionResult.redactedAreas.length === 0 ? (
+                  {result.redactedAreas.length === 0 ? (
                     <div className="no-redactions">
                       <div className="no-redactions-icon">✅</div>
                       <h4>No Sensitive Content Detected</h4>
@@ -236,7 +308,7 @@ const RedactionPreview: React.FC<RedactionPreviewProps> = ({
                     </div>
                   ) : (
                     <div className="redaction-details">
-                      {redactionResult.redactedAreas.map((area) => (
+                      {result.redactedAreas.map((area) => (
                         <div key={area.id} className="redaction-detail-item">
                           <div className="redaction-header">
                             <span className="category-icon">{getCategoryIcon(area.category)}</span>
@@ -247,7 +319,7 @@ const RedactionPreview: React.FC<RedactionPreviewProps> = ({
                           </div>
                           <div className="redaction-content">
                             <div className="original-content">
-                              <strong>Original:</strong> {area.originalContent}
+                              <strong>Original:</strong> {area.originalContent || (area.manual ? 'Drawn area' : '')}
                             </div>
                             <div className="redacted-content">
                               <strong>Redacted:</strong> {area.redactedContent}
@@ -265,13 +337,66 @@ const RedactionPreview: React.FC<RedactionPreviewProps> = ({
                 </div>
               )}
 
+              {selectedTab === 'image' && redactedImage && (
+                <div className="image-tab">
+                  <div className="image-preview-container">
+                    {imageUrl && <img src={imageUrl} alt={fileName} className="image-preview" />}
+                    {result.redactedAreas.map((area) => {
+                      if (!area.boundingBox) {
+                        return null;
+                      }
+                      return (
+                        <button
+                          key={area.id}
+                          type="button"
+                          className="image-mask-box"
+                          style={getImageBoxStyle(area.boundingBox, redactedImage.width, redactedImage.height)}
+                          onClick={() => handleToggleArea(area)}
+                          disabled={!canEdit || isApplyingEdits}
+                          title={getCategoryName(area.category)}
+                        />
+                      );
+                    })}
+                    {edits.filter(edit => edit.action === 'remove').map((edit, index) => (
+                      <button
+                        key={`removed_${index}`}
+                        type="button"
+                        className="image-mask-box excluded"
+                        style={getImageBoxStyle(edit.boundingBox, redactedImage.width, redactedImage.height)}
+                        onClick={() => handleRestoreEdit(edit)}
+                        disabled={!canEdit || isApplyingEdits}
+                        title="Not masked"
+                      />
+                    ))}
+                  </div>
+                  <p className="image-preview-hint">
+                    {result.redactedAreas.length} areas masked.
+                    {canEdit && ' Tap a box to leave it unmasked, or use Edit to add more.'}
+                    {' '}Location and camera details are removed from the photo.
+                    {' '}Faces and signatures are masked where they are found{canEdit ? ' - use Edit for any that were missed.' : '.'}
+                  </p>
+                </div>
+              )}
+
+              {selectedTab === 'edit' && onRenderPage && (
+                <RedactionPageEditor
+                  redactedAreas={result.redactedAreas}
+                  edits={edits}
+                  onRenderPage={onRenderPage}
+                  onAddEdit={handleAddEdit}
+                  onToggleArea={handleToggleArea}
+                  onRestoreEdit={handleRestoreEdit}
+                  busy={isApplyingEdits}
+                />
+              )}
+
               {selectedTab === 'text' && (
                 <div className="text-tab">
                   <div className="text-preview-container">
                     <div className="text-section">
                       <h4>Extracted Text (Safe for AI)</h4>
                       <div className="text-preview safe-text">
-                        {redactionResult.extractedText || 'No text content extracted.'}
+                        {result.extractedText || 'No text content extracted.'}
                       </div>
                     </div>
                   </div>
@@ -280,6 +405,14 @@ const RedactionPreview: React.FC<RedactionPreviewProps> = ({
             </div>
 
             <div className="redaction-preview-footer">
+              {editError && (
+                <div className="warning-message edit-error">
+                  <span className="warning-icon">❌</span>
+                  <span>
+                    Your last change was not saved ({editError}). The preview shows the redactions without it.
+                  </span>
+                </div>
+              )}
               <div className="warning-message">
                 <span className="warning-icon">⚠️</span>
                 <span>
@@ -305,9 +438,9 @@ const RedactionPreview: React.FC<RedactionPreviewProps> = ({
                 <button 
                   className="btn btn-primary"
                   onClick={handleConfirm}
-                  disabled={redactionResult.redactedAreas.length === 0}
+                  disabled={result.redactedAreas.length === 0}
                 >
-                  {redactionResult.redactedAreas.length > 0 ? '🔒 Process with Redaction' : '✅ Process Document'}
+                  {result.redactedAreas.length > 0 ? '🔒 Process with Redaction' : '✅ Process Document'}
                 </button>
               </div>
             </div>
@@ -317,7 +450,7 @@ const RedactionPreview: React.FC<RedactionPreviewProps> = ({
             <div className="confirmation-icon">🔒</div>
             <h3>Confirm Redaction</h3>
             <p>
-              You are about to process this document with {redactionResult.redactedAreas.length} redactions applied.
+              You are about to process this document with {result.redactedAreas.length} redactions applied.
               The original sensitive content will be protected and only safe text will be sent to AI.
             </p>
             <div className="confirmation-buttons">
@@ -307,6 +307,10 @@ const RegistrationPopup: React.FC<RegistrationPopupProps> = ({ onClose, onAuthSt
 
       await authService.setSecureItem('username', username);
       await authService.setSecureItem('user_id', contact);
+      // The phone's country picks the locale-specific redaction patterns
+      if (selectedContactMethod === 'phone' && countryCodes[countryCode]) {
+        await authService.setSecureItem('country', countryCodes[countryCode][0]);
+      }
       if (deviceId) {
         await authService.setSecureItem('device_id', deviceId);
       }
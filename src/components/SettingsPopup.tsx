@@ -6,6 +6,7 @@ import '../css/icons.min.css';
 import '../css/common.css';
 import '../css/userSettings.css';
 import AuthService from '../services/AuthService';
+import RedactionPatternsPopup from './RedactionPatternsPopup';
 
 interface UserData {
   username: string;
@@ -42,6 +43,7 @@ const SettingsPopup: React.FC<SettingsPopupProps> = ({ onClose, onAuthStateChang
   const [pass, setPass] = useState<string | null>(null);
   const [isLoggingOut, setIsLoggingOut] = useState<boolean>(false);
   const [showSuccessMessage, setShowSuccessMessage] = useState<boolean>(false);
+  const [showRedactionSettings, setShowRedactionSettings] = useState<boolean>(false);
 
   // Generate year options (current year to 100 years back)
   const currentYear = new Date().getFullYear();
@@ -458,6 +460,24 @@ const SettingsPopup: React.FC<SettingsPopupProps> = ({ onClose, onAuthStateChang
               </div>
             </fieldset>
             
+            {/* Redaction */}
+            <fieldset>
+              <legend id="label-redaction">{t('redaction_settings_title', 'Redaction settings')}</legend>
+              <div className="form-group">
+                <div className="icon">
+                  <i className="icon-shield-blue"></i>
+                  <button 
+                    type="button"
+                    className="date-picker-button"
+                    onClick={() => setShowRedactionSettings(true)}
+                    aria-describedby="label-redaction"
+                  >
+                    {t('redaction_settings_open', 'What to hide from documents before sending')}
+                  </button>
+                </div>
+              </div>
+            </fieldset>
+            
             {/* Form Actions */}
             <div className="form-actions">
               <button 
@@ -483,6 +503,10 @@ const SettingsPopup: React.FC<SettingsPopupProps> = ({ onClose, onAuthStateChang
           </div>
         </div>
       </div>
+
+      {showRedactionSettings && (
+        <RedactionPatternsPopup onClose={() => setShowRedactionSettings(false)} />
+      )}
     </>
   );
 };
@@ -3,23 +3,32 @@ interface EnvironmentConfig {
   apiBaseUrl: string;
   useSSL: boolean;
   port: number;
+  // SPKI public key (base64) that verifies the signed model catalog. Without it
+  // only the models built into the app are offered.
+  modelCatalogPublicKey: string;
 }
 
+// Set at build time, e.g. VITE_MODEL_CATALOG_PUBLIC_KEY=MFkw... npm run build
+const MODEL_CATALOG_PUBLIC_KEY = import.meta.env.VITE_MODEL_CATALOG_PUBLIC_KEY || '';
+
 const ENV: Record<string, EnvironmentConfig> = {
   development: {
     apiBaseUrl: 'https://staging.annadata.ai', // Use staging server directly in development
     useSSL: true,
-    port: 443
+    port: 443,
+    modelCatalogPublicKey: MODEL_CATALOG_PUBLIC_KEY
   },
   staging: {
     apiBaseUrl: 'https://staging.annadata.ai',
     useSSL: true,
-    port: 443
+    port: 443,
+    modelCatalogPublicKey: MODEL_CATALOG_PUBLIC_KEY
   },
   production: {
     apiBaseUrl: 'https://staging.annadata.ai',
     useSSL: true,
-    port: 443
+    port: 443,
+    modelCatalogPublicKey: MODEL_CATALOG_PUBLIC_KEY
   }
 };
 
@@ -0,0 +1,117 @@
+// Typical sowing and harvest windows for common crops in north and central
+// India. Local dates move with rainfall, altitude and variety, so these are
+// a starting point for the answer, not a schedule.
+
+export interface CropSeason {
+  season: 'kharif' | 'rabi' | 'zaid' | 'year-round';
+  sowing: string;
+  harvest: string;
+  notes?: string;
+}
+
+export interface CropCalendarEntry {
+  crop: string;
+  // Other names farmers use, lower case
+  aliases: string[];
+  seasons: CropSeason[];
+}
+
+export const CROP_CALENDAR: CropCalendarEntry[] = [
+  {
+    crop: 'Rice',
+    aliases: ['paddy', 'dhan', 'chawal'],
+    seasons: [
+      { season: 'kharif', sowing: 'Nursery May-June, transplant June-July', harvest: 'October-November' },
+      { season: 'rabi', sowing: 'Nursery November-December, transplant January', harvest: 'April-May', notes: 'Boro rice, eastern India' }
+    ]
+  },
+  {
+    crop: 'Wheat',
+    aliases: ['gehun', 'gehu'],
+    seasons: [
+      { season: 'rabi', sowing: 'November (late sowing until mid-December)', harvest: 'March-April' }
+    ]
+  },
+  {
+    crop: 'Maize',
+    aliases: ['corn', 'makka', 'makki'],
+    seasons: [
+      { season: 'kharif', sowing: 'June-July', harvest: 'September-October' },
+      { season: 'rabi', sowing: 'October-November', harvest: 'February-March' },
+      { season: 'zaid', sowing: 'February-March', harvest: 'May-June' }
+    ]
+  },
+  {
+    crop: 'Cotton',
+    aliases: ['kapas', 'narma'],
+    seasons: [
+      { season: 'kharif', sowing: 'April-May (irrigated), June-July (rainfed)', harvest: 'October-January, in pickings' }
+    ]
+  },
+  {
+    crop: 'Sugarcane',
+    aliases: ['ganna'],
+    seasons: [
+      { season: 'year-round', sowing: 'February-March (spring) or October (autumn)', harvest: '10-18 months after planting, mostly November-April' }
+    ]
+  },
+  {
+    crop: 'Mustard',
+    aliases: ['sarson', 'rapeseed', 'rai'],
+    seasons: [
+      { season: 'rabi', sowing: 'October', harvest: 'February-March' }
+    ]
+  },
+  {
+    crop: 'Chickpea',
+    aliases: ['chana', 'gram', 'bengal gram'],
+    seasons: [
+      { season: 'rabi', sowing: 'October-November', harvest: 'February-March' }
+    ]
+  },
+  {
+    crop: 'Pigeon pea',
+    aliases: ['arhar', 'tur', 'toor', 'red gram'],
+    seasons: [
+      { season: 'kharif', sowing: 'June-July', harvest: 'December-January (late varieties until March)' }
+    ]
+  },
+  {
+    crop: 'Soybean',
+    aliases: ['soyabean', 'soya'],
+    seasons: [
+      { season: 'kharif', sowing: 'Mid June-early July, after 100 mm of rain', harvest: 'September-October' }
+    ]
+  },
+  {
+    crop: 'Groundnut',
+    aliases: ['peanut', 'moongphali', 'mungfali'],
+    seasons: [
+      { season: 'kharif', sowing: 'June-July', harvest: 'September-October' },
+      { season: 'rabi', sowing: 'November-December', harvest: 'March-April', notes: 'Southern and coastal states' }
+    ]
+  },
+  {
+    crop: 'Potato',
+    aliases: ['aloo', 'alu'],
+    seasons: [
+      { season: 'rabi', sowing: 'October-November', harvest: 'January-March' }
+    ]
+  },
+  {
+    crop: 'Onion',
+    aliases: ['pyaz', 'kanda'],
+    seasons: [
+      { season: 'kharif', sowing: 'Nursery May-June, transplant July-August', harvest: 'October-November' },
+      { season: 'rabi', sowing: 'Nursery October-November, transplant December-January', harvest: 'April-May' }
+    ]
+  }
+];
+
+/**
+ * The calendar entry for a crop name or alias, or null if it is not listed
+ */
+export function findCropCalendar(crop: string): CropCalendarEntry | null {
+  const name = crop.trim().toLowerCase();
+  return CROP_CALENDAR.find(entry => entry.crop.toLowerCase() === name || entry.aliases.includes(name)) ?? null;
+}
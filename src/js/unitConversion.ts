@@ -0,0 +1,43 @@
+// Land, weight and volume units farmers ask about, for exact conversions
+// instead of the model's own arithmetic.
+
+export type UnitDimension = 'area' | 'mass' | 'volume';
+
+interface UnitDefinition {
+  dimension: UnitDimension;
+  // Size in square metres, kilograms or litres
+  factor: number;
+}
+
+const UNITS: Record<string, UnitDefinition> = {
+  square_metre: { dimension: 'area', factor: 1 },
+  square_foot: { dimension: 'area', factor: 0.09290304 },
+  gunta: { dimension: 'area', factor: 101.17141056 },
+  acre: { dimension: 'area', factor: 4046.8564224 },
+  hectare: { dimension: 'area', factor: 10000 },
+  gram: { dimension: 'mass', factor: 0.001 },
+  kg: { dimension: 'mass', factor: 1 },
+  pound: { dimension: 'mass', factor: 0.45359237 },
+  quintal: { dimension: 'mass', factor: 100 },
+  tonne: { dimension: 'mass', factor: 1000 },
+  millilitre: { dimension: 'volume', factor: 0.001 },
+  litre: { dimension: 'volume', factor: 1 },
+  gallon: { dimension: 'volume', factor: 3.785411784 }
+};
+
+export const UNIT_NAMES = Object.keys(UNITS);
+
+/**
+ * The value in the target unit, rounded to 6 decimal places
+ */
+export function convertUnits(value: number, from: string, to: string): number {
+  const source = UNITS[from];
+  const target = UNITS[to];
+  if (!source || !target) {
+    throw new Error(`Unknown unit "${source ? to : from}". Known units: ${UNIT_NAMES.join(', ')}`);
+  }
+  if (source.dimension !== target.dimension) {
+    throw new Error(`Cannot convert ${source.dimension} (${from}) to ${target.dimension} (${to})`);
+  }
+  return Math.round(((value * source.factor) / target.factor) * 1e6) / 1e6;
+}
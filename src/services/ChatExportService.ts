@@ -0,0 +1,405 @@
+import { Capacitor } from '@capacitor/core';
+// @ts-expect-error - mupdf's types are only reachable through package exports, which moduleResolution "Node" does not read
+import * as mupdf from 'mupdf';
+import MarkdownService from './MarkdownService';
+import SQLiteService, { ChatMessage, ImportedMessage, MessageVersion } from './SQLiteService';
+import { getDeviceId } from './DeviceInfoService';
+
+/**
+ * Export a chat session as Markdown, JSON or PDF and hand it to the share
+ * sheet, and import JSON exports back as new sessions.
+ *
+ * The JSON format carries every message with its edit history so an import
+ * recreates the conversation exactly; Markdown and PDF are for reading and
+ * printing only.
+ */
+
+export type ChatExportFormat = 'markdown' | 'json' | 'pdf';
+
+export interface ChatExportFile {
+  format: typeof EXPORT_FORMAT_ID;
+  version: number;
+  exported_at: string;
+  session: {
+    title: string;
+    created_at: string;
+    updated_at: string;
+    tags: string[];
+  };
+  messages: Array<Omit<ChatMessage, 'id' | 'session_id'> & {
+    versions: Array<Omit<MessageVersion, 'id' | 'message_id'>>;
+  }>;
+}
+
+interface ExportedSession {
+  title: string;
+  created_at: string;
+  updated_at: string;
+  tags: string[];
+  messages: ChatMessage[];
+}
+
+const EXPORT_FORMAT_ID = 'annadata-chat-export';
+const EXPORT_FORMAT_VERSION = 1;
+
+const MIME_TYPES: Record<ChatExportFormat, string> = {
+  markdown: 'text/markdown',
+  json: 'application/json',
+  pdf: 'application/pdf'
+};
+
+const FILE_EXTENSIONS: Record<ChatExportFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  pdf: 'pdf'
+};
+
+// A4 in points, with mupdf's default em size for body text
+const PDF_PAGE_WIDTH = 595;
+const PDF_PAGE_HEIGHT = 842;
+const PDF_FONT_SIZE = 11;
+
+const PDF_STYLES = `
+  body { font-family: sans-serif; margin: 36pt; color: #222; }
+  h1 { font-size: 16pt; margin-bottom: 2pt; }
+  .export-meta { color: #777; font-size: 9pt; margin-bottom: 16pt; }
+  .message { margin-bottom: 12pt; }
+  .message-header { font-size: 9pt; color: #777; margin-bottom: 2pt; }
+  .message-user .message-body { background-color: #eef6ee; padding: 6pt; }
+  .message-bot .message-body { padding: 6pt 0; }
+  pre, code { font-family: monospace; font-size: 9pt; }
+  blockquote { border-left: 2pt solid #ccc; padding-left: 6pt; color: #555; }
+`;
+
+export class ChatExportService {
+  private static instance: ChatExportService;
+  private sqliteService = SQLiteService.getInstance();
+
+  private constructor() {}
+
+  public static getInstance(): ChatExportService {
+    if (!ChatExportService.instance) {
+      ChatExportService.instance = new ChatExportService();
+    }
+    return ChatExportService.instance;
+  }
+
+  /**
+   * Export a session in the given format and open the share sheet
+   * (on web the file is downloaded instead)
+   */
+  async exportSession(sessionId: string, format: ChatExportFormat): Promise<void> {
+    console.log(`📤 [EXPORT] Exporting session ${sessionId} as ${format}`);
+    const session = await this.loadSession(sessionId);
+    const fileName = this.buildFileName(session.title, format);
+
+    let data: string | Uint8Array;
+    switch (format) {
+      case 'markdown':
+        data = this.toMarkdown(session);
+        break;
+      case 'json':
+        data = JSON.stringify(await this.toExportFile(session), null, 2);
+        break;
+      case 'pdf':
+        data = await this.toPdf(session);
+        break;
+    }
+
+    await this.shareFile(fileName, data, format, session.title);
+    console.log(`✅ [EXPORT] Exported ${session.messages.length} message(s) to ${fileName}`);
+  }
+
+  /**
+   * Import a JSON export as a new session. Returns the new session id.
+   */
+  async importSession(json: string): Promise<string> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error('The selected file is not valid JSON');
+    }
+
+    if (!this.isExportFile(parsed)) {
+      throw new Error('The selected file is not a chat export');
+    }
+    const exportFile = parsed;
+    if (exportFile.version > EXPORT_FORMAT_VERSION) {
+      throw new Error('This chat export was made by a newer version of the app');
+    }
+
+    const deviceId = await getDeviceId();
+    if (!deviceId) {
+      throw new Error('Unable to get device ID');
+    }
+
+    const messages: ImportedMessage[] = exportFile.messages
+      .map(message => ({
+        content: message.content,
+        sender: message.sender,
+        model_used: message.model_used,
+        language: message.language,
+        created_at: message.created_at,
+        is_error: Boolean(message.is_error),
+        metadata: message.metadata,
+        versions: (message.versions || [])
+          .slice()
+          .sort((a, b) => a.version_number - b.version_number)
+          .map(version => ({
+            content: version.content,
+            edited_at: version.edited_at,
+            edit_reason: version.edit_reason
+          }))
+      }));
+
+    await this.sqliteService.initialize();
+    const sessionId = await this.sqliteService.importSession(deviceId, {
+      title: exportFile.session?.title,
+      created_at: exportFile.session?.created_at,
+      tags: exportFile.session?.tags
+    }, messages);
+
+    console.log(`📥 [EXPORT] Imported ${messages.length} message(s) as session ${sessionId}`);
+    return sessionId;
+  }
+
+  /**
+   * Whether parsed JSON is a chat export, down to every field that is stored.
+   * The file comes from the user, so nothing in it is trusted.
+   */
+  private isExportFile(value: unknown): value is ChatExportFile {
+    const isObject = (item: unknown): item is Record<string, unknown> =>
+      typeof item === 'object' && item !== null && !Array.isArray(item);
+    // Exports write absent values as null
+    const isOptionalString = (item: unknown): boolean => item === undefined || item === null || typeof item === 'string';
+
+    if (!isObject(value) || value.format !== EXPORT_FORMAT_ID || typeof value.version !== 'number' || !Array.isArray(value.messages)) {
+      return false;
+    }
+
+    const session = value.session;
+    if (session !== undefined && !(isObject(session) &&
+      isOptionalString(session.title) &&
+      isOptionalString(session.created_at) &&
+      (session.tags === undefined || (Array.isArray(session.tags) && session.tags.every(tag => typeof tag === 'string'))))) {
+      return false;
+    }
+
+    return value.messages.every(message =>
+      isObject(message) &&
+      typeof message.content === 'string' &&
+      (message.sender === 'user' || message.sender === 'bot') &&
+      isOptionalString(message.model_used) &&
+      isOptionalString(message.language) &&
+      isOptionalString(message.created_at) &&
+      (message.versions === undefined || (Array.isArray(message.versions) && message.versions.every(version =>
+        isObject(version) &&
+        typeof version.content === 'string' &&
+        typeof version.version_number === 'number' &&
+        isOptionalString(version.edited_at) &&
+        isOptionalString(version.edit_reason)
+      )))
+    );
+  }
+
+  private async loadSession(sessionId: string): Promise<ExportedSession> {
+    await this.sqliteService.initialize();
+
+    const session = await this.sqliteService.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const [messages, tags] = await Promise.all([
+      this.sqliteService.getSessionMessages(sessionId),
+      this.sqliteService.getSessionTags(sessionId)
+    ]);
+
+    return {
+      title: session.title || 'Chat',
+      created_at: session.created_at,
+      updated_at: session.updated_at,
+      tags,
+      messages: messages.filter(message => !message.is_error)
+    };
+  }
+
+  private async toExportFile(session: ExportedSession): Promise<ChatExportFile> {
+    const messages: ChatExportFile['messages'] = [];
+    for (const message of session.messages) {
+      const versions = await this.sqliteService.getMessageVersions(message.message_id);
+      messages.push({
+        message_id: message.message_id,
+        content: message.content,
+        sender: message.sender,
+        model_used: message.model_used,
+        language: message.language,
+        created_at: message.created_at,
+        is_error: message.is_error,
+        metadata: message.metadata,
+        versions: versions.map(version => ({
+          version_number: version.version_number,
+          content: version.content,
+          edited_at: version.edited_at,
+          edit_reason: version.edit_reason
+        }))
+      });
+    }
+
+    return {
+      format: EXPORT_FORMAT_ID,
+      version: EXPORT_FORMAT_VERSION,
+      exported_at: new Date().toISOString(),
+      session: {
+        title: session.title,
+        created_at: session.created_at,
+        updated_at: session.updated_at,
+        tags: session.tags
+      },
+      messages
+    };
+  }
+
+  private toMarkdown(session: ExportedSession): string {
+    const lines: string[] = [
+      `# ${session.title}`,
+      '',
+      `_Exported ${new Date().toLocaleString()}${session.tags.length > 0 ? ` · ${session.tags.join(', ')}` : ''}_`,
+      ''
+    ];
+
+    for (const message of session.messages) {
+      lines.push(`### ${this.getSenderLabel(message)} · ${new Date(message.created_at).toLocaleString()}`);
+      lines.push('');
+      // Bot replies are already Markdown; user text is quoted so it is not reformatted
+      lines.push(message.sender === 'user'
+        ? message.content.split('\n').map(line => `> ${line}`).join('\n')
+        : message.content);
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Render the conversation to HTML with MarkdownService (KaTeX included)
+   * and lay it out on A4 pages with mupdf
+   */
+  private async toPdf(session: ExportedSession): Promise<Uint8Array> {
+    const messageHtml: string[] = [];
+    for (const message of session.messages) {
+      const body = message.sender === 'bot' && MarkdownService.containsMarkdown(message.content)
+        ? await MarkdownService.render(message.content)
+        : this.escapeHtml(message.content).replace(/\n/g, '<br>');
+
+      messageHtml.push(`
+        <div class="message message-${message.sender}">
+          <div class="message-header">${this.escapeHtml(this.getSenderLabel(message))} · ${this.escapeHtml(new Date(message.created_at).toLocaleString())}</div>
+          <div class="message-body">${body}</div>
+        </div>`);
+    }
+
+    const html = this.prepareHtmlForPdf(`<!DOCTYPE html>
+      <html>
+        <head><meta charset="utf-8"><title>${this.escapeHtml(session.title)}</title><style>${PDF_STYLES}</style></head>
+        <body>
+          <h1>${this.escapeHtml(session.title)}</h1>
+          <div class="export-meta">${this.escapeHtml(`Exported ${new Date().toLocaleString()}`)}</div>
+          ${messageHtml.join('')}
+        </body>
+      </html>`);
+
+    const source = mupdf.Document.openDocument(new TextEncoder().encode(html), 'text/html');
+    source.layout(PDF_PAGE_WIDTH, PDF_PAGE_HEIGHT, PDF_FONT_SIZE);
+
+    const buffer = new mupdf.Buffer();
+    const writer = new mupdf.DocumentWriter(buffer, 'pdf', '');
+    const pageCount = source.countPages();
+
+    for (let i = 0; i < pageCount; i++) {
+      const page = source.loadPage(i);
+      const device = writer.beginPage(page.getBounds());
+      page.run(device, mupdf.Matrix.identity);
+      writer.endPage();
+    }
+    writer.close();
+
+    console.log(`📄 [EXPORT] Generated ${pageCount} PDF page(s)`);
+    return buffer.asUint8Array();
+  }
+
+  // KaTeX emits both MathML and HTML; the MathML copy is hidden by KaTeX's CSS
+  // in the app but mupdf would print it as duplicate text
+  private prepareHtmlForPdf(html: string): string {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    doc.querySelectorAll('.katex-mathml').forEach(element => element.remove());
+    doc.querySelectorAll('a').forEach(link => link.removeAttribute('target'));
+    return `<!DOCTYPE html>${doc.documentElement.outerHTML}`;
+  }
+
+  private async shareFile(fileName: string, data: string | Uint8Array, format: ChatExportFormat, title: string): Promise<void> {
+    if (Capacitor.getPlatform() === 'web') {
+      const blob = new Blob([data as BlobPart], { type: MIME_TYPES[format] });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      return;
+    }
+
+    const { Filesystem, Directory, Encoding } = await import('@capacitor/filesystem');
+    const { Share } = await import('@capacitor/share');
+
+    const writeResult = typeof data === 'string'
+      ? await Filesystem.writeFile({ path: `exports/${fileName}`, data, directory: Directory.Cache, encoding: Encoding.UTF8, recursive: true })
+      : await Filesystem.writeFile({ path: `exports/${fileName}`, data: this.bytesToBase64(data), directory: Directory.Cache, recursive: true });
+
+    await Share.share({
+      title,
+      files: [writeResult.uri],
+      dialogTitle: title
+    });
+  }
+
+  private buildFileName(title: string, format: ChatExportFormat): string {
+    const safeTitle = title
+      .replace(/[^\p{L}\p{N}]+/gu, '-')
+      .replace(/^-+|-+$/g, '')
+      .substring(0, 40) || 'chat';
+    const date = new Date().toISOString().substring(0, 10);
+    return `${safeTitle}-${date}.${FILE_EXTENSIONS[format]}`;
+  }
+
+  private getSenderLabel(message: ChatMessage): string {
+    if (message.sender === 'user') {
+      return 'You';
+    }
+    return message.model_used && message.model_used !== 'online'
+      ? `AnnaData (${message.model_used})`
+      : 'AnnaData';
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+  }
+}
+
+export default ChatExportService;
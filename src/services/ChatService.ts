@@ -1,16 +1,14 @@
 import { Preferences } from '@capacitor/preferences';
 import config from '../config/environment';
 import AuthService from './AuthService';
+import type { FarmerQueryForm } from './FarmerQueryService';
 
 // Type definitions
 interface LoadingAnimation {
   element: HTMLDivElement | null;
-  timeoutId: NodeJS.Timeout | null;
-  timeoutDuration: number;
   init(): void;
   show(): void;
   hide(): void;
-  clearTimeout(): void;
 }
 
 interface TokenResult {
@@ -33,6 +31,7 @@ interface MessagePayload {
   ai_status?: string;
   kafka_topics?: string[];
   message_id?: string;
+  reply_to?: string; // Id of the user message this payload belongs to, filled in by ChatService
   timestamp?: string;
 }
 
@@ -59,6 +58,8 @@ interface ChatMessage {
   timestamp: string;
   language: string;
   model?: string; // Add this field
+  message_id?: string; // Client id, lets the server drop repeated sends
+  query_form?: FarmerQueryForm; // Crop, problem and location read from the question on the device
 }
 
 interface LangOptions {
@@ -68,14 +69,27 @@ interface LangOptions {
   };
 }
 
+// Lifecycle of an outgoing message, from publish to the bot's answer
+export type MessageDeliveryState = 'sending' | 'delivered' | 'processing' | 'answered' | 'failed' | 'timed_out';
+
+interface TrackedMessage {
+  state: MessageDeliveryState;
+  timeoutId: NodeJS.Timeout | null;
+}
+
 type MessageCallback = (topic: string, payload: MessagePayload) => void;
 type ConnectionCallback = (connected: boolean, error?: any) => void;
+type DeliveryStateCallback = (messageId: string, state: MessageDeliveryState) => void;
+
+// A message times out when the server has been silent about it this long
+const RESPONSE_TIMEOUT_MS = 30000;
+// Timed-out messages are still matched to a late answer for this long
+const LATE_REPLY_GRACE_MS = 5 * 60 * 1000;
+const IN_FLIGHT_STATES: MessageDeliveryState[] = ['sending', 'delivered', 'processing'];
 
-// Chat loading animation controller
+// Chat loading animation controller - shown while any message awaits its answer
 const loadingAnimation: LoadingAnimation = {
   element: null,
-  timeoutId: null,
-  timeoutDuration: 30000, // Increased to 30 seconds for longer server responses
   
   init(): void {
     // Create loading animation element if not already created
@@ -95,27 +109,12 @@ const loadingAnimation: LoadingAnimation = {
     if (!this.element) this.init();
     if (this.element) {
       this.element.style.display = 'flex';
-      
-      // Set a longer timeout as a fallback (in case server never responds)
-      this.clearTimeout();
-      this.timeoutId = setTimeout(() => {
-        this.hide();
-        // You can optionally show a timeout message here if needed
-      }, this.timeoutDuration);
     }
   },
   
   hide(): void {
     if (this.element) {
       this.element.style.display = 'none';
-      this.clearTimeout();
-    }
-  },
-  
-  clearTimeout(): void {
-    if (this.timeoutId) {
-      clearTimeout(this.timeoutId);
-      this.timeoutId = null;
     }
   }
 };
@@ -124,6 +123,9 @@ class ChatService {
   private socket: WebSocket | null;
   private messageCallbacks: MessageCallback[];
   private connectionCallbacks: ConnectionCallback[];
+  private deliveryStateCallbacks: DeliveryStateCallback[];
+  // Outgoing messages by message_id, in send order
+  private trackedMessages: Map<string, TrackedMessage>;
   private isConnected: boolean;
   private clientId: string;
   private reconnectTimeout: number;
@@ -138,6 +140,8 @@ class ChatService {
     this.socket = null;
     this.messageCallbacks = [];
     this.connectionCallbacks = [];
+    this.deliveryStateCallbacks = [];
+    this.trackedMessages = new Map();
     this.isConnected = false;
     this.clientId = `annadata_mobile_${Math.random().toString(16).substr(2, 8)}`;
     this.reconnectTimeout = 5000;
@@ -447,16 +451,18 @@ class ChatService {
   }
 
   // Send a chat message
-  public async sendChatMessage(message: string, model?: string): Promise<boolean> {
+  // Replies and status updates are matched to the message by messageId (generated when not given)
+  public async sendChatMessage(message: string, model?: string, messageId?: string, queryForm?: FarmerQueryForm): Promise<boolean> {
+    const id: string = messageId || `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
     try {
-      // Show loading animation
-      loadingAnimation.show();
+      this.setDeliveryState(id, 'sending');
       
       let deviceId: string | null = await AuthService.getSecureItem('device_id');
       
       if (!deviceId) {
         console.error(`❌ [CHAT DEBUG] Device ID not found, cannot send message`);
-        loadingAnimation.hide();
+        this.setDeliveryState(id, 'failed');
         return false;
       }
       
@@ -476,26 +482,98 @@ class ChatService {
         timestamp: new Date().toISOString(),
         language: languageName,
         model: model, // Include the selected model
+        message_id: id,
+        ...(queryForm ? { query_form: queryForm } : {}),
       };
 
       const result: boolean = this.publish(topic, JSON.stringify(messageObj));
       
       if (result) {
-        // Note: We don't hide the animation here because we need to wait for the bot response
-        // The animation will be hidden when we receive a message from the bot topic
+        // Stays 'sending' until the server confirms it; the animation runs until the answer arrives
         return true;
       } else {
         console.error(`❌ [CHAT DEBUG] Failed to publish message to topic: ${topic}`);
-        loadingAnimation.hide();
+        this.setDeliveryState(id, 'failed');
         return false;
       }
     } catch (error: any) {
       console.error(`❌ [CHAT DEBUG] Error sending chat message:`, error);
-      loadingAnimation.hide();
+      this.setDeliveryState(id, 'failed');
       return false;
     }
   }
 
+  // Current state of an outgoing message, or null if it is not tracked (any more)
+  public getDeliveryState(messageId: string): MessageDeliveryState | null {
+    return this.trackedMessages.get(messageId)?.state ?? null;
+  }
+
+  private setDeliveryState(messageId: string, state: MessageDeliveryState): void {
+    const previous: TrackedMessage | undefined = this.trackedMessages.get(messageId);
+    if (previous?.timeoutId) {
+      clearTimeout(previous.timeoutId);
+    }
+
+    const tracked: TrackedMessage = { state, timeoutId: null };
+    if (IN_FLIGHT_STATES.includes(state)) {
+      // Every sign of life from the server restarts this message's timer
+      tracked.timeoutId = setTimeout(() => {
+        console.warn(`⏱️ [CHAT DEBUG] No answer for message ${messageId} within ${RESPONSE_TIMEOUT_MS / 1000}s`);
+        this.setDeliveryState(messageId, 'timed_out');
+      }, RESPONSE_TIMEOUT_MS);
+    } else if (state === 'timed_out') {
+      tracked.timeoutId = setTimeout(() => {
+        this.trackedMessages.delete(messageId);
+      }, LATE_REPLY_GRACE_MS);
+    }
+
+    // Map.set keeps an existing message in its original (send order) position
+    if (state === 'answered' || state === 'failed') {
+      this.trackedMessages.delete(messageId);
+    } else {
+      this.trackedMessages.set(messageId, tracked);
+    }
+
+    this.updateLoadingAnimation();
+    this.deliveryStateCallbacks.forEach((callback: DeliveryStateCallback) => {
+      try {
+        callback(messageId, state);
+      } catch (error) {
+        console.error('Delivery state callback failed:', error);
+      }
+    });
+  }
+
+  /**
+   * The tracked message a server payload refers to. Servers that do not echo
+   * message_id handle messages in order, so fall back to the oldest message
+   * in one of the given states.
+   */
+  private resolveTrackedMessage(payload: MessagePayload, fallbackStates: MessageDeliveryState[]): string | null {
+    const candidates: Array<string | undefined> = [payload.reply_to, payload.message_id, payload.data?.message_id];
+    const matchedId: string | undefined = candidates.find(id => id && this.trackedMessages.has(id));
+    if (matchedId) {
+      return matchedId;
+    }
+
+    for (const [messageId, tracked] of this.trackedMessages) {
+      if (fallbackStates.includes(tracked.state)) {
+        return messageId;
+      }
+    }
+    return null;
+  }
+
+  private updateLoadingAnimation(): void {
+    const hasInFlight: boolean = Array.from(this.trackedMessages.values())
+      .some((tracked: TrackedMessage) => IN_FLIGHT_STATES.includes(tracked.state));
+    if (hasInFlight) {
+      loadingAnimation.show();
+    } else {
+      loadingAnimation.hide();
+    }
+  }
+
   // Connection successful callback
   private async onConnect(): Promise<void> {
     this.isConnected = true;
@@ -679,22 +757,16 @@ class ChatService {
     try {
       const payload: MessagePayload = JSON.parse(event.data);
       
-      // Enhanced topic-based logging
-      if (payload.topic) {
-        if (payload.topic.includes('-bot')) {
-          loadingAnimation.hide();
-        }
-      }
-      
-      // Hide loading animation when we receive a bot message
-      if (payload.topic && payload.topic.includes('-bot')) {
-        loadingAnimation.hide();
-      }
-      
       // Check if this is an authentication error
       if (payload.type === 'error' && payload.message) {
         console.error(`❌ [MESSAGE DEBUG] Server error message:`, payload.message);
-        loadingAnimation.hide(); // Hide animation on error
+        
+        // Only an error naming one of our messages fails it
+        const failedId: string | null = this.resolveTrackedMessage(payload, []);
+        if (failedId) {
+          this.setDeliveryState(failedId, 'failed');
+          payload.reply_to = failedId;
+        }
         
         if (payload.message.includes('Authentication') || payload.message.includes('token')) {
           console.error(`❌ [AUTH DEBUG] Authentication error detected. Token might be invalid or expired.`);
@@ -724,10 +796,11 @@ class ChatService {
           timestamp: payload.timestamp
         });
         
-        // Hide loading animation when processing is completed
-        if (payload.status === 'completed') {
-          console.log('✅ [CHAT DEBUG] Processing completed, hiding loading animation');
-          loadingAnimation.hide();
+        // 'completed' is followed by the ai_response, which marks the message answered
+        const processingId: string | null = this.resolveTrackedMessage(payload, IN_FLIGHT_STATES);
+        if (processingId) {
+          this.setDeliveryState(processingId, 'processing');
+          payload.reply_to = processingId;
         }
       }
       
@@ -748,9 +821,14 @@ class ChatService {
         }
         
         if (responseContent) {
-          console.log('✅ [CHAT DEBUG] AI response content found, hiding loading animation');
-          // Hide loading animation when AI response is received
-          loadingAnimation.hide();
+          const answeredId: string | null = this.resolveTrackedMessage(payload, IN_FLIGHT_STATES);
+          if (answeredId) {
+            console.log(`✅ [CHAT DEBUG] AI response matched to message ${answeredId}`);
+            this.setDeliveryState(answeredId, 'answered');
+            payload.reply_to = answeredId;
+          } else {
+            console.warn('⚠️ [CHAT DEBUG] AI response does not match any outgoing message');
+          }
         } else {
           console.error('❌ [CHAT DEBUG] AI response received but no content found:', payload);
         }
@@ -763,6 +841,15 @@ class ChatService {
           status: payload.status,
           message_id: payload.message_id
         });
+        
+        const deliveredId: string | null = this.resolveTrackedMessage(payload, ['sending']);
+        if (deliveredId) {
+          // A late confirmation must not move a message back from 'processing'
+          if (this.getDeliveryState(deliveredId) === 'sending') {
+            this.setDeliveryState(deliveredId, 'delivered');
+          }
+          payload.reply_to = deliveredId;
+        }
       }
       
       // Handle connection established
@@ -825,6 +912,20 @@ class ChatService {
     }
   }
 
+  // Add delivery state callback
+  public onDeliveryState(callback: DeliveryStateCallback): void {
+    if (typeof callback === 'function') {
+      this.deliveryStateCallbacks.push(callback);
+    }
+  }
+
+  public removeDeliveryStateCallback(callback: DeliveryStateCallback): void {
+    const index: number = this.deliveryStateCallbacks.indexOf(callback);
+    if (index > -1) {
+      this.deliveryStateCallbacks.splice(index, 1);
+    }
+  }
+
   // Add connection status callback
   public onConnectionStatus(callback: ConnectionCallback): void {
     if (typeof callback === 'function') {
@@ -7,6 +7,7 @@ import RedactionDatabaseService, {
   RedactionResult, 
   RedactionPattern 
 } from './RedactionDatabaseService';
+import SensitiveContentDetector, { SensitiveFinding } from './SensitiveContentDetector';
 
 /**
  * Content Analysis Service - Analyzes documents and extracts sections for redaction
@@ -30,6 +31,8 @@ export interface ContentSection {
   hasSensitiveContent: boolean;
   sensitivePatterns: string[];
   confidence: number;
+  // What the detector found in `content`; redaction applies exactly these
+  findings?: SensitiveFinding[];
   boundingBox?: [number, number, number, number];
   metadata?: any;
 }
@@ -50,6 +53,7 @@ class ContentAnalysisService {
   private static instance: ContentAnalysisService;
   private redactionDb: RedactionDatabaseService;
   private isInitialized: boolean = false;
+  private detector = SensitiveContentDetector.getInstance();
 
   private constructor() {
     this.redactionDb = RedactionDatabaseService.getInstance();
@@ -125,6 +129,8 @@ class ContentAnalysisService {
           has_sensitive_content: section.hasSensitiveContent,
           sensitive_patterns_found: JSON.stringify(section.sensitivePatterns),
           confidence_score: section.confidence,
+          content: section.content,
+          findings: JSON.stringify(section.findings ?? []),
           is_user_selected: true, // Default to selected
           created_at: new Date().toISOString(),
           metadata: section.metadata ? JSON.stringify(section.metadata) : null
@@ -306,6 +312,7 @@ class ContentAnalysisService {
         hasSensitiveContent: hasSensitiveContent.hasSensitive,
         sensitivePatterns: hasSensitiveContent.patterns,
         confidence: hasSensitiveContent.confidence,
+        findings: hasSensitiveContent.findings,
         metadata: {
           extractedAt: new Date().toISOString(),
           fieldCount: Object.keys(metadata).length
@@ -358,6 +365,7 @@ class ContentAnalysisService {
           hasSensitiveContent: hasSensitiveContent.hasSensitive,
           sensitivePatterns: hasSensitiveContent.patterns,
           confidence: hasSensitiveContent.confidence,
+          findings: hasSensitiveContent.findings,
           metadata: {
             pageNumber,
             blockIndex: i,
@@ -400,6 +408,7 @@ class ContentAnalysisService {
         hasSensitiveContent: hasSensitiveContent.hasSensitive,
         sensitivePatterns: hasSensitiveContent.patterns,
         confidence: hasSensitiveContent.confidence,
+        findings: hasSensitiveContent.findings,
         metadata: {
           pageNumber,
           extractedAt: new Date().toISOString(),
@@ -502,6 +511,7 @@ class ContentAnalysisService {
           hasSensitiveContent: hasSensitiveContent.hasSensitive,
           sensitivePatterns: hasSensitiveContent.patterns,
           confidence: hasSensitiveContent.confidence,
+          findings: hasSensitiveContent.findings,
           metadata: {
             pageNumber,
             formIndex: i,
@@ -551,6 +561,7 @@ class ContentAnalysisService {
           hasSensitiveContent: hasSensitiveContent.hasSensitive,
           sensitivePatterns: hasSensitiveContent.patterns,
           confidence: hasSensitiveContent.confidence,
+          findings: hasSensitiveContent.findings,
           metadata: {
             pageNumber,
             linkIndex: i,
@@ -599,6 +610,7 @@ class ContentAnalysisService {
           hasSensitiveContent: hasSensitiveContent.hasSensitive,
           sensitivePatterns: hasSensitiveContent.patterns,
           confidence: hasSensitiveContent.confidence,
+          findings: hasSensitiveContent.findings,
           metadata: {
             pageNumber,
             annotationIndex: i,
@@ -622,30 +634,15 @@ class ContentAnalysisService {
     hasSensitive: boolean;
     patterns: string[];
     confidence: number;
+    findings: SensitiveFinding[];
   }> {
-    // This would integrate with the existing redaction patterns
-    // For now, return a simple implementation
-    const patterns: string[] = [];
-    let confidence = 0;
-    
-    // Simple email detection
-    const emailRegex = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g;
-    if (emailRegex.test(text)) {
-      patterns.push('Email Address');
-      confidence = Math.max(confidence, 0.9);
-    }
-    
-    // Simple phone detection
-    const phoneRegex = /(\+?1[-.\s]?)?\(?[0-9]{3}\)?[-.\s]?[0-9]{3}[-.\s]?[0-9]{4}/g;
-    if (phoneRegex.test(text)) {
-      patterns.push('Phone Number');
-      confidence = Math.max(confidence, 0.8);
-    }
+    const findings = await this.detector.detect(text);
     
     return {
-      hasSensitive: patterns.length > 0,
-      patterns,
-      confidence
+      hasSensitive: findings.length > 0,
+      patterns: [...new Set(findings.map(finding => finding.patternName))],
+      confidence: findings.reduce((max, finding) => Math.max(max, finding.confidence), 0),
+      findings
     };
   }
 
@@ -749,12 +746,14 @@ class ContentAnalysisService {
         type: s.section_type as any,
         index: s.section_index,
         pageNumber: s.page_number,
-        content: s.content_preview,
+        // Sections stored before full content was kept only have the preview
+        content: s.content ?? s.content_preview,
         preview: s.content_preview,
         length: s.content_length,
         hasSensitiveContent: s.has_sensitive_content,
         sensitivePatterns: JSON.parse(s.sensitive_patterns_found),
         confidence: s.confidence_score,
+        findings: s.content && s.findings ? JSON.parse(s.findings) : undefined,
         metadata: s.metadata ? JSON.parse(s.metadata) : null
       }));
       
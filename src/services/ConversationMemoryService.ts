@@ -0,0 +1,298 @@
+import LlamaService, { CompletionMessage } from './LlamaService';
+import SQLiteService, { ChatMessage } from './SQLiteService';
+
+/**
+ * Builds the multi-turn prompt for offline chat.
+ *
+ * Prior turns of the current session are read from SQLite, converted to
+ * CompletionMessage[] and trimmed oldest-first (measured with the loaded
+ * model's tokenizer) so that the prompt plus the reply fits n_ctx.
+ * Dropped turns can optionally be folded into a short running summary.
+ */
+
+export interface ConversationMemoryOptions {
+  systemPrompt: string;
+  userMessage: string;
+  // Text sent ahead of the new user message, e.g. document excerpts. It stays out of
+  // the system prompt so the prompt before the new message, and its KV cache, stay the same.
+  context?: string;
+  // Local image paths sent with the new user message (vision models only)
+  userImages?: string[];
+  sessionId?: string | null;
+  // Tokens kept free for the model's reply (usually the n_predict of the completion)
+  reservedTokens?: number;
+  // Summarise turns that no longer fit instead of silently forgetting them
+  summarizeDroppedTurns?: boolean;
+}
+
+export interface ConversationMemoryResult {
+  messages: CompletionMessage[];
+  keptTurns: number;
+  droppedTurns: number;
+  summary: string | null;
+  promptTokens: number;
+}
+
+interface HistoryTurn {
+  messageId: string;
+  role: 'user' | 'assistant';
+  content: string;
+  tokens: number;
+}
+
+interface SessionSummary {
+  // Id of the newest message already folded into the summary
+  lastMessageId: string;
+  summary: string;
+}
+
+const DEFAULT_CONTEXT_SIZE = 1024;
+const DEFAULT_RESERVED_TOKENS = 256;
+// Rough allowance for the role markers the chat template adds around each message
+const TEMPLATE_TOKENS_PER_MESSAGE = 8;
+// Headroom for tokenizer / template differences
+const SAFETY_MARGIN_TOKENS = 32;
+const SUMMARY_MAX_TOKENS = 96;
+// Prompt tokens an image typically takes once encoded by the projector
+const IMAGE_TOKENS_ESTIMATE = 256;
+
+export class ConversationMemoryService {
+  private static instance: ConversationMemoryService;
+  private llamaService = LlamaService.getInstance();
+  private summaries: Map<string, SessionSummary> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): ConversationMemoryService {
+    if (!ConversationMemoryService.instance) {
+      ConversationMemoryService.instance = new ConversationMemoryService();
+    }
+    return ConversationMemoryService.instance;
+  }
+
+  /**
+   * Build the messages for completionWithFormattedChat: system prompt,
+   * as much recent history as fits, and the new user message.
+   * Requires the model to be loaded so its tokenizer and n_ctx are known.
+   */
+  async buildChatMessages(options: ConversationMemoryOptions): Promise<ConversationMemoryResult> {
+    const {
+      systemPrompt,
+      userMessage,
+      context,
+      userImages = [],
+      sessionId,
+      reservedTokens = DEFAULT_RESERVED_TOKENS,
+      summarizeDroppedTurns = false
+    } = options;
+
+    const contextSize = this.llamaService.getContextSize() || DEFAULT_CONTEXT_SIZE;
+    const history = sessionId ? await this.loadHistory(sessionId, userMessage) : [];
+
+    const fixedTokens =
+      await this.countMessageTokens(systemPrompt) +
+      await this.countMessageTokens(userMessage) +
+      (context ? await this.countMessageTokens(context) : 0) +
+      userImages.length * IMAGE_TOKENS_ESTIMATE;
+    const budget = contextSize - reservedTokens - SAFETY_MARGIN_TOKENS - fixedTokens;
+
+    let { kept, dropped } = this.fitTurns(history, budget);
+    let summary: string | null = null;
+
+    if (dropped.length > 0 && summarizeDroppedTurns && sessionId) {
+      // Make room for the summary, then summarise everything that no longer fits
+      ({ kept, dropped } = this.fitTurns(history, budget - SUMMARY_MAX_TOKENS - TEMPLATE_TOKENS_PER_MESSAGE));
+      summary = await this.summarizeTurns(sessionId, dropped, contextSize);
+    }
+
+    if (dropped.length > 0) {
+      console.log(`✂️ [MEMORY] Dropped ${dropped.length} oldest turn(s) to fit n_ctx=${contextSize}${summary ? ' (summarised)' : ''}`);
+    }
+
+    const systemContent = summary
+      ? `${systemPrompt}\n\nSummary of the earlier conversation:\n${summary}`
+      : systemPrompt;
+
+    const messages: CompletionMessage[] = [
+      { role: 'system', content: systemContent },
+      ...kept.map(turn => ({ role: turn.role, content: turn.content })),
+      { role: 'user', content: this.buildUserContent(context ? `${context}\n\n${userMessage}` : userMessage, userImages) }
+    ];
+
+    const promptTokens = fixedTokens +
+      kept.reduce((total, turn) => total + turn.tokens, 0) +
+      (summary ? await this.countMessageTokens(summary) : 0);
+
+    return {
+      messages,
+      keptTurns: kept.length,
+      droppedTurns: dropped.length,
+      summary,
+      promptTokens
+    };
+  }
+
+  /**
+   * Content of the new user message: plain text, or image parts followed by the text
+   */
+  private buildUserContent(userMessage: string, userImages: string[]): CompletionMessage['content'] {
+    if (userImages.length === 0) {
+      return userMessage;
+    }
+    return [
+      ...userImages.map(path => ({ type: 'image_url' as const, image_url: { url: path } })),
+      { type: 'text' as const, text: userMessage }
+    ];
+  }
+
+  /**
+   * Load prior turns of the session as alternating user/assistant turns
+   */
+  private async loadHistory(sessionId: string, userMessage: string): Promise<HistoryTurn[]> {
+    let storedMessages: ChatMessage[] = [];
+    try {
+      const sqliteService = SQLiteService.getInstance();
+      await sqliteService.initialize();
+      storedMessages = await sqliteService.getSessionMessages(sessionId);
+    } catch (error) {
+      console.error('❌ [MEMORY] Failed to load session history, continuing without it:', error);
+      return [];
+    }
+
+    const usable = storedMessages.filter(msg => !msg.is_error && msg.content && msg.content.trim());
+
+    // The new user message is saved before generation starts - it is appended separately
+    const last = usable[usable.length - 1];
+    if (last && last.sender === 'user' && last.content.trim() === userMessage.trim()) {
+      usable.pop();
+    }
+
+    // Chat templates expect user/assistant alternation, so merge consecutive messages of the same role
+    const turns: Array<Omit<HistoryTurn, 'tokens'>> = [];
+    for (const msg of usable) {
+      const role = msg.sender === 'user' ? 'user' : 'assistant';
+      const previous = turns[turns.length - 1];
+      if (previous && previous.role === role) {
+        previous.content = `${previous.content}\n\n${msg.content.trim()}`;
+        previous.messageId = msg.message_id;
+      } else {
+        turns.push({ messageId: msg.message_id, role, content: msg.content.trim() });
+      }
+    }
+
+    // The history must end with an assistant turn, since the new user message follows it
+    if (turns.length > 0 && turns[turns.length - 1].role === 'user') {
+      turns.pop();
+    }
+
+    const history: HistoryTurn[] = [];
+    for (const turn of turns) {
+      history.push({ ...turn, tokens: await this.countMessageTokens(turn.content) });
+    }
+    return history;
+  }
+
+  /**
+   * Keep the newest turns that fit the token budget. The kept history
+   * always starts with a user turn so the template sees whole exchanges.
+   */
+  private fitTurns(history: HistoryTurn[], budget: number): { kept: HistoryTurn[]; dropped: HistoryTurn[] } {
+    let used = 0;
+    let start = history.length;
+
+    while (start > 0 && used + history[start - 1].tokens <= budget) {
+      used += history[start - 1].tokens;
+      start--;
+    }
+
+    while (start < history.length && history[start].role !== 'user') {
+      start++;
+    }
+
+    return {
+      kept: history.slice(start),
+      dropped: history.slice(0, start)
+    };
+  }
+
+  /**
+   * Fold dropped turns into a running per-session summary. Only turns newer
+   * than the cached summary are sent to the model.
+   */
+  private async summarizeTurns(sessionId: string, dropped: HistoryTurn[], contextSize: number): Promise<string | null> {
+    const cached = this.summaries.get(sessionId);
+    const cachedIndex = cached ? dropped.findIndex(turn => turn.messageId === cached.lastMessageId) : -1;
+
+    if (cached && cachedIndex === dropped.length - 1) {
+      return cached.summary;
+    }
+
+    const newTurns = cachedIndex >= 0 ? dropped.slice(cachedIndex + 1) : dropped;
+    const previousSummary = cachedIndex >= 0 && cached ? cached.summary : null;
+
+    // The summarisation prompt itself has to fit n_ctx - keep the newest dropped turns that do
+    const summaryBudget = contextSize - SUMMARY_MAX_TOKENS - SAFETY_MARGIN_TOKENS * 4 -
+      (previousSummary ? await this.countMessageTokens(previousSummary) : 0);
+    const transcriptTurns: HistoryTurn[] = [];
+    let used = 0;
+    for (let i = newTurns.length - 1; i >= 0; i--) {
+      if (used + newTurns[i].tokens > summaryBudget) {
+        break;
+      }
+      used += newTurns[i].tokens;
+      transcriptTurns.unshift(newTurns[i]);
+    }
+
+    const transcript = transcriptTurns
+      .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+      .join('\n');
+
+    const instructions = previousSummary
+      ? `Existing summary:\n${previousSummary}\n\nUpdate it with this additional conversation:\n${transcript}`
+      : `Conversation:\n${transcript}`;
+
+    try {
+      console.log(`📝 [MEMORY] Summarising ${transcriptTurns.length} dropped turn(s) for session ${sessionId}`);
+      const result = await this.llamaService.completionWithFormattedChat([
+        {
+          role: 'system',
+          content: 'Summarise the conversation in a few short sentences. Keep names, crops, places, quantities and any open questions. Reply with the summary only.'
+        },
+        { role: 'user', content: instructions }
+      ], {
+        n_predict: SUMMARY_MAX_TOKENS,
+        temperature: 0.2
+      });
+
+      const summary = (result.text || result.content || '').trim();
+      if (!summary) {
+        return previousSummary;
+      }
+
+      this.summaries.set(sessionId, {
+        lastMessageId: dropped[dropped.length - 1].messageId,
+        summary
+      });
+      return summary;
+    } catch (error) {
+      console.error('❌ [MEMORY] Failed to summarise dropped turns:', error);
+      return previousSummary;
+    }
+  }
+
+  /**
+   * Token count of one message including template overhead. Falls back to a
+   * character estimate when the tokenizer is unavailable.
+   */
+  private async countMessageTokens(text: string): Promise<number> {
+    try {
+      const tokens = await this.llamaService.tokenize(text);
+      return tokens.length + TEMPLATE_TOKENS_PER_MESSAGE;
+    } catch (error) {
+      console.warn('⚠️ [MEMORY] Tokenizer unavailable, estimating token count:', error);
+      return Math.ceil(text.length / 3) + TEMPLATE_TOKENS_PER_MESSAGE;
+    }
+  }
+}
+
+export default ConversationMemoryService;
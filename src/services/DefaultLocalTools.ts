@@ -0,0 +1,115 @@
+import LocalToolService from './LocalToolService';
+import BalanceService from './NidhiService';
+import SQLiteService, { SEARCH_MATCH_END, SEARCH_MATCH_START } from './SQLiteService';
+import { getDeviceId } from './DeviceInfoService';
+import { UNIT_NAMES, convertUnits } from '../js/unitConversion';
+import { CROP_CALENDAR, findCropCalendar } from '../js/cropCalendar';
+
+// The tools every offline chat has. Feature modules can register more with LocalToolService.
+
+interface ConvertUnitsArgs {
+  value: number;
+  from: string;
+  to: string;
+}
+
+interface CropCalendarArgs {
+  crop: string;
+}
+
+interface SearchChatHistoryArgs {
+  query: string;
+}
+
+const HISTORY_RESULTS = 5;
+
+/**
+ * Register the built-in tools. Returns a function that removes them again.
+ */
+export function registerDefaultLocalTools(): () => void {
+  const toolService = LocalToolService.getInstance();
+
+  const unregisters = [
+    toolService.register<ConvertUnitsArgs>({
+      name: 'convert_units',
+      description: 'Convert land area, weight or volume, e.g. acres to hectares or kg to quintals.',
+      parameters: {
+        type: 'object',
+        properties: {
+          value: { type: 'number' },
+          from: { type: 'string', enum: UNIT_NAMES },
+          to: { type: 'string', enum: UNIT_NAMES }
+        },
+        required: ['value', 'from', 'to'],
+        additionalProperties: false
+      },
+      run: async ({ value, from, to }) => `${value} ${from} = ${convertUnits(value, from, to)} ${to}`
+    }),
+
+    toolService.register<Record<string, never>>({
+      name: 'get_nidhi_balance',
+      description: "The user's Nidhi fund balance, NPA and return on investment. Needs a connection.",
+      parameters: { type: 'object', properties: {}, additionalProperties: false },
+      run: async () => {
+        const response = await BalanceService.getBalanceData();
+        if (!response.success || !response.data) {
+          throw new Error(response.error || 'Balance not available');
+        }
+        return response.data;
+      }
+    }),
+
+    toolService.register<CropCalendarArgs>({
+      name: 'crop_calendar',
+      description: 'Typical sowing and harvest months for a crop in north and central India.',
+      parameters: {
+        type: 'object',
+        properties: {
+          crop: { type: 'string', description: 'Crop name in English or Hindi, e.g. wheat or gehun' }
+        },
+        required: ['crop'],
+        additionalProperties: false
+      },
+      run: async ({ crop }) => {
+        const entry = findCropCalendar(crop);
+        if (!entry) {
+          throw new Error(`No calendar for "${crop}". Known crops: ${CROP_CALENDAR.map(known => known.crop).join(', ')}`);
+        }
+        return { crop: entry.crop, seasons: entry.seasons };
+      }
+    }),
+
+    toolService.register<SearchChatHistoryArgs>({
+      name: 'search_chat_history',
+      description: 'Search earlier chats on this device for what was asked or answered before.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', minLength: 2, description: 'Words to look for' }
+        },
+        required: ['query'],
+        additionalProperties: false
+      },
+      run: async ({ query }) => {
+        const deviceId = await getDeviceId();
+        if (!deviceId) {
+          throw new Error('Chat history is not available');
+        }
+        const sqliteService = SQLiteService.getInstance();
+        await sqliteService.initialize();
+        const results = await sqliteService.searchMessages(deviceId, query, {}, HISTORY_RESULTS);
+        if (results.length === 0) {
+          return 'No earlier messages match.';
+        }
+        return results.map(result => ({
+          chat: result.session_title,
+          date: result.created_at.slice(0, 10),
+          from: result.sender,
+          text: result.snippet.split(SEARCH_MATCH_START).join('').split(SEARCH_MATCH_END).join('')
+        }));
+      }
+    })
+  ];
+
+  return () => unregisters.forEach(unregister => unregister());
+}
@@ -1,3 +1,5 @@
+import { Capacitor, registerPlugin } from '@capacitor/core';
+
 /**
  * Device and location information service
  */
@@ -41,6 +43,19 @@ interface UserAgentData {
   brands?: Array<{ brand: string; version: string }>;
 }
 
+// Local Android plugin (registered in MainActivity)
+interface DeviceMemoryPlugin {
+  getTotalMemory(): Promise<{ totalBytes: number }>;
+}
+
+const DeviceMemory = registerPlugin<DeviceMemoryPlugin>('DeviceMemory');
+
+// navigator.deviceMemory never reports more than this
+const DEVICE_MEMORY_CAP_GB = 8;
+
+// RAM sizes phones are sold with, in GB
+const NOMINAL_MEMORY_SIZES_GB = [1, 2, 3, 4, 6, 8, 12, 16, 24, 32];
+
 // Extend Navigator interface for userAgentData
 declare global {
   interface Navigator {
@@ -215,6 +230,34 @@ export async function getFullDeviceInfo(): Promise<DeviceInfo> {
   return deviceInfo;
 }
 
+let deviceMemoryGB: Promise<number | null> | null = null;
+
+/**
+ * Device RAM in GB, as the device was sold with. On Android the total the
+ * system reports leaves out what the kernel reserves (a 4 GB phone reports
+ * about 3.7 GB), so it is rounded up to the next nominal size. Elsewhere it is
+ * navigator.deviceMemory, which is rounded down and capped at 8 GB, so a value
+ * at the cap counts as unknown. Returns null when the RAM is not known.
+ */
+function getDeviceMemoryGB(): Promise<number | null> {
+  if (!deviceMemoryGB) {
+    deviceMemoryGB = (async () => {
+      if (Capacitor.getPlatform() === 'android') {
+        try {
+          const { totalBytes } = await DeviceMemory.getTotalMemory();
+          const totalGB = totalBytes / (1024 * 1024 * 1024);
+          return NOMINAL_MEMORY_SIZES_GB.find(size => size >= totalGB) ?? Math.ceil(totalGB);
+        } catch (error) {
+          console.warn('Could not read the device RAM:', error);
+        }
+      }
+      const reported = navigator.deviceMemory;
+      return typeof reported === 'number' && reported > 0 && reported < DEVICE_MEMORY_CAP_GB ? reported : null;
+    })();
+  }
+  return deviceMemoryGB;
+}
+
 // Session management functions
 async function getCurrentSessionId(): Promise<string | null> {
   try {
@@ -234,4 +277,4 @@ async function setCurrentSessionId(sessionId: string): Promise<void> {
 }
 
 // Export the functions
-export { getDeviceId, isDeviceIdAvailable, getCurrentSessionId, setCurrentSessionId };
+export { getDeviceId, isDeviceIdAvailable, getCurrentSessionId, setCurrentSessionId, getDeviceMemoryGB };
@@ -1,7 +1,23 @@
 // @ts-ignore - MuPDF types may not be fully compatible
 import * as mupdf from "mupdf";
+import { Capacitor, registerPlugin } from '@capacitor/core';
 import ContentAnalysisService, { DocumentAnalysis, ContentSection } from './ContentAnalysisService';
-import RedactionDatabaseService from './RedactionDatabaseService';
+import RedactionDatabaseService, {
+  RedactionPattern as StoredRedactionPattern,
+  TextRedactionLogEntry
+} from './RedactionDatabaseService';
+import { compileStoredPattern } from './RedactionPatterns';
+import { getDeviceId } from './DeviceInfoService';
+import EnhancedPDFParser, { OCRConfig, OCRWord } from './EnhancedPDFParser';
+import SensitiveContentDetector, {
+  MANUAL_PATTERN_NAME,
+  RedactionCategory,
+  RedactionPattern,
+  SensitiveFinding
+} from './SensitiveContentDetector';
+import PseudonymService from './PseudonymService';
+
+export type { RedactionContext, RedactionPattern, RedactionValidator } from './SensitiveContentDetector';
 
 /**
  * DocumentRedactionService - Handles sensitive content redaction for PDF and image files
@@ -14,13 +30,6 @@ import RedactionDatabaseService from './RedactionDatabaseService';
  * - User confirmation workflow
  */
 
-export interface RedactionPattern {
-  name: string;
-  pattern: RegExp;
-  severity: 'high' | 'medium' | 'low';
-  category: 'pii' | 'financial' | 'medical' | 'legal' | 'other';
-}
-
 export interface RedactionResult {
   originalText: string;
   redactedText: string;
@@ -28,6 +37,50 @@ export interface RedactionResult {
   extractedText: string;
   confidence: number;
   redactionSummary: RedactionSummary;
+  // Redacted copy of the PDF, with the matched text removed from the file (PDFs only)
+  redactedPdf?: Uint8Array;
+  // Masked copy of the photo, uploaded instead of the original (images only)
+  redactedImage?: RedactedImage;
+  // Manual edits applied on top of the automatic findings
+  edits?: RedactionEdit[];
+}
+
+export interface RedactedImage {
+  // Re-encoded from the canvas, so it carries no EXIF metadata (GPS position, device, time)
+  data: Blob;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+export type ImageMaskStyle = 'blackout' | 'pixelate';
+
+// A change the user made to the automatic redactions in the editor, kept per file
+export interface RedactionEdit {
+  // 'add' redacts a box the patterns missed, 'remove' keeps a false positive
+  action: 'add' | 'remove';
+  pageNumber: number;
+  // PDF points, or pixels for images
+  boundingBox: mupdf.Rect;
+  // Text under the box; empty for boxes drawn over pictures or handwriting
+  text: string;
+  category: RedactionCategory;
+}
+
+// A word on a rendered page, so it can be tapped to redact it
+export interface PageWord {
+  text: string;
+  boundingBox: mupdf.Rect;
+}
+
+// One page of the original document as the editor shows it
+export interface RedactionPage {
+  pageNumber: number;
+  pageCount: number;
+  image: Blob;
+  // Page area in the units bounding boxes use
+  bounds: mupdf.Rect;
+  words: PageWord[];
 }
 
 export interface RedactedArea {
@@ -35,10 +88,15 @@ export interface RedactedArea {
   type: 'text' | 'image' | 'metadata';
   originalContent: string;
   redactedContent: string;
+  // PDF points, or pixels for images
   boundingBox?: mupdf.Rect;
+  // One quad per line the match covers
+  quads?: mupdf.Quad[];
   pageNumber?: number;
   confidence: number;
   category: string;
+  // Added in the redaction editor rather than found by a pattern
+  manual?: boolean;
 }
 
 export interface RedactionSummary {
@@ -53,12 +111,88 @@ export interface RedactionSummary {
   lowConfidence: number;
 }
 
+interface PageCharacter {
+  start: number;
+  end: number;
+  line: number;
+  quad: mupdf.Quad;
+}
+
+interface TextMatch {
+  area: RedactedArea;
+  finding: SensitiveFinding;
+}
+
+// A page's redactions once the editor's changes are applied
+interface EditedPage {
+  areas: RedactedArea[];
+  // Offsets into the page text, for the text sent to the AI
+  findings: SensitiveFinding[];
+}
+
+// A selected section with what was redacted in it
+interface RedactedSection {
+  section: ContentSection;
+  matches: TextMatch[];
+}
+
+// Per-category choices from UserRedactionPreferences
+export interface CategoryRedactionPreference {
+  // Redact matches in this category
+  autoRedact: boolean;
+  // Show the selection modal and preview before sending
+  requireConfirmation: boolean;
+}
+
+export type RedactionPreferences = Record<RedactionCategory, CategoryRedactionPreference>;
+
+export const REDACTION_CATEGORIES: RedactionCategory[] = ['pii', 'financial', 'medical', 'legal', 'other'];
+
+// Only the bundled language packs, so photos are read offline
+const PHOTO_OCR_CONFIG: OCRConfig = {
+  enabled: true,
+  primaryLanguage: 'english',
+  fallbackLanguages: ['english', 'hindi']
+};
+
+// Pixels in the photo
+interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Local Android plugin (registered in MainActivity)
+interface FaceDetectionPlugin {
+  detectFaces(options: { image: string }): Promise<{ faces: FaceBox[] }>;
+}
+
+const FaceDetection = registerPlugin<FaceDetectionPlugin>('FaceDetection');
+
+// Shape Detection API, which some browsers have
+interface BrowserFaceDetector {
+  detect(image: CanvasImageSource): Promise<{ boundingBox: DOMRectReadOnly }[]>;
+}
+type BrowserFaceDetectorConstructor = new (options: { maxDetectedFaces: number }) => BrowserFaceDetector;
+
+// Words that label where a form is signed
+const SIGNATURE_LABEL = /^(?:signature|sign|signed|sd\/-|हस्ताक्षर|दस्तखत)$/i;
+
 export interface DocumentProcessingOptions {
   enablePIIRedaction: boolean;
   enableFinancialRedaction: boolean;
   enableMedicalRedaction: boolean;
   enableLegalRedaction: boolean;
+  // Uncategorised patterns are redacted unless this is false
+  enableOtherRedaction?: boolean;
   enableMetadataRedaction: boolean;
+  // How matches are hidden in photos; blacked out unless set
+  imageMaskStyle?: ImageMaskStyle;
+  // Send placeholders such as <ACCOUNT_1> instead of [PII_REDACTED], restored locally in replies
+  pseudonymise?: boolean;
+  // Chat session the placeholders belong to; null in a new chat that has no session yet
+  sessionId?: string | null;
   confidenceThreshold: number;
   preserveFormatting: boolean;
   userConfirmationRequired: boolean;
@@ -66,13 +200,18 @@ export interface DocumentProcessingOptions {
 
 class DocumentRedactionService {
   private static instance: DocumentRedactionService;
-  private redactionPatterns: RedactionPattern[] = [];
+  private detector = SensitiveContentDetector.getInstance();
+  private pdfParser = EnhancedPDFParser.getInstance();
+  // The editor renders the photo processImage just read, so keep the last OCR result
+  private lastOcr: { fileHash: string; words: OCRWord[] } | null = null;
+  // Likewise the faces found in it, since each edit processes the photo again
+  private lastFaces: { fileHash: string; faces: FaceBox[] } | null = null;
   private isInitialized: boolean = false;
+  private initializationPromise: Promise<void> | null = null;
   private contentAnalysisService: ContentAnalysisService;
   private redactionDb: RedactionDatabaseService;
 
   private constructor() {
-    this.initializeRedactionPatterns();
     this.contentAnalysisService = ContentAnalysisService.getInstance();
     this.redactionDb = RedactionDatabaseService.getInstance();
   }
@@ -84,90 +223,16 @@ class DocumentRedactionService {
     return DocumentRedactionService.instance;
   }
 
-  /**
-   * Initialize the service with default redaction patterns
-   */
-  private initializeRedactionPatterns(): void {
-    this.redactionPatterns = [
-      // PII Patterns
-      {
-        name: 'Email Address',
-        pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g,
-        severity: 'high',
-        category: 'pii'
-      },
-      {
-        name: 'Phone Number',
-        pattern: /(\+?1[-.\s]?)?\(?[0-9]{3}\)?[-.\s]?[0-9]{3}[-.\s]?[0-9]{4}/g,
-        severity: 'high',
-        category: 'pii'
-      },
-      {
-        name: 'SSN',
-        pattern: /\b\d{3}-?\d{2}-?\d{4}\b/g,
-        severity: 'high',
-        category: 'pii'
-      },
-      {
-        name: 'Credit Card',
-        pattern: /\b(?:\d{4}[-\s]?){3}\d{4}\b/g,
-        severity: 'high',
-        category: 'financial'
-      },
-      {
-        name: 'Bank Account',
-        pattern: /\b\d{8,17}\b/g,
-        severity: 'high',
-        category: 'financial'
-      },
-      {
-        name: 'Address',
-        pattern: /\b\d+\s+[A-Za-z0-9\s,.-]+(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Way|Place|Pl)\b/gi,
-        severity: 'medium',
-        category: 'pii'
-      },
-      {
-        name: 'Date of Birth',
-        pattern: /\b(?:0?[1-9]|1[0-2])[\/\-](?:0?[1-9]|[12]\d|3[01])[\/\-](?:19|20)\d{2}\b/g,
-        severity: 'high',
-        category: 'pii'
-      },
-      {
-        name: 'Driver License',
-        pattern: /\b[A-Z]\d{7,8}\b/g,
-        severity: 'high',
-        category: 'pii'
-      },
-      {
-        name: 'Passport',
-        pattern: /\b[A-Z]{1,2}\d{6,9}\b/g,
-        severity: 'high',
-        category: 'pii'
-      },
-      {
-        name: 'Medical Record',
-        pattern: /\b(?:MRN|Medical Record|Patient ID)[:\s]*\d{6,12}\b/gi,
-        severity: 'high',
-        category: 'medical'
-      },
-      {
-        name: 'Case Number',
-        pattern: /\b(?:Case|Docket|File)[\s#:]*[A-Z0-9\-]{6,20}\b/gi,
-        severity: 'medium',
-        category: 'legal'
-      }
-    ];
-    this.isInitialized = true;
-  }
-
   /**
    * Process a PDF document for sensitive content redaction
    */
   public async processPDF(
     fileBuffer: ArrayBuffer,
-    options: Partial<DocumentProcessingOptions> = {}
+    options: Partial<DocumentProcessingOptions> = {},
+    edits: RedactionEdit[] = []
   ): Promise<RedactionResult> {
     try {
+      await this.initialize();
       const defaultOptions: DocumentProcessingOptions = {
         enablePIIRedaction: true,
         enableFinancialRedaction: true,
@@ -197,35 +262,43 @@ class DocumentRedactionService {
       // Process each page
       const pageCount = document.countPages();
       for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
-        const page = document.loadPage(pageIndex);
+        const page = document.loadPage(pageIndex) as mupdf.PDFPage;
         console.log(`📄 Processing page ${pageIndex + 1}/${pageCount}`);
         
-        // Extract original text using the correct API
+        // Extract the text together with the position of every character
         let pageText = "";
+        let pageCharacters: PageCharacter[] = [];
         try {
-          const structuredText = page.toStructuredText("preserve-whitespace");
-          pageText = structuredText.asText();
+          ({ text: pageText, characters: pageCharacters } = this.getPageCharacters(page));
           console.log(`📄 Extracted ${pageText.length} characters from page ${pageIndex + 1}: "${pageText.substring(0, 100)}..."`);
         } catch (extractError) {
           console.error(`❌ Error extracting text from page ${pageIndex + 1}:`, extractError);
-          pageText = "";
         }
         originalText += pageText + "\n";
 
-        // Apply redaction patterns to the extracted text (simpler approach)
-        const pageRedactions = await this.applyTextRedactionPatterns(
-          pageText,
-          pageIndex,
-          defaultOptions
+        // Match on the page text, so matches may span words and lines, then map them back onto the page
+        const pageMatches = await this.findTextMatches(pageText, pageIndex, defaultOptions);
+        for (const match of pageMatches) {
+          const quads = this.getMatchQuads(pageCharacters, match.finding.start, match.finding.end);
+          if (quads.length > 0) {
+            match.area.quads = quads;
+            match.area.boundingBox = this.getQuadsBounds(quads);
+          }
+        }
+        const { areas: pageRedactions, findings: pageFindings } = this.applyPageEdits(
+          pageMatches, pageCharacters, pageText, pageIndex, edits
         );
         
         redactedAreas.push(...pageRedactions);
 
-        // Create redaction annotations
+        // Burn in black boxes and remove the text (and image pixels) underneath
         await this.createRedactionAnnotations(page, pageRedactions);
+        if (pageRedactions.some(area => area.quads)) {
+          page.applyRedactions(true, mupdf.PDFPage.REDACT_IMAGE_PIXELS);
+        }
 
         // Extract clean text after redaction
-        const cleanText = this.extractCleanText(pageText, pageRedactions);
+        const cleanText = await this.redactFindings(pageText, pageFindings, defaultOptions);
         extractedText += cleanText + "\n";
       }
 
@@ -234,11 +307,9 @@ class DocumentRedactionService {
         this.cleanDocumentMetadata(document);
       }
 
-      // Apply redactions to document
-      for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
-        const page = document.loadPage(pageIndex);
-        page.applyRedactions();
-      }
+      // Garbage collection drops the objects that held the removed text, so it is not left in the file
+      const redactedPdf = document.saveToBuffer("garbage=deduplicate,compress").asUint8Array().slice();
+      console.log(`📄 Redacted PDF saved: ${redactedPdf.byteLength} bytes`);
 
       // Generate redaction summary
       const redactionSummary = this.generateRedactionSummary(redactedAreas);
@@ -249,7 +320,9 @@ class DocumentRedactionService {
         redactedAreas,
         extractedText: extractedText.trim(),
         confidence: this.calculateOverallConfidence(redactedAreas),
-        redactionSummary
+        redactionSummary,
+        redactedPdf,
+        edits
       };
 
     } catch (error) {
@@ -259,14 +332,17 @@ class DocumentRedactionService {
   }
 
   /**
-   * Process an image file for sensitive content redaction
+   * Process an image file: mask sensitive text found by OCR, faces and
+   * signatures, and drop the image metadata
    */
   public async processImage(
     fileBuffer: ArrayBuffer,
     mimeType: string,
-    options: Partial<DocumentProcessingOptions> = {}
+    options: Partial<DocumentProcessingOptions> = {},
+    edits: RedactionEdit[] = []
   ): Promise<RedactionResult> {
     try {
+      await this.initialize();
       const defaultOptions: DocumentProcessingOptions = {
         enablePIIRedaction: true,
         enableFinancialRedaction: true,
@@ -279,53 +355,36 @@ class DocumentRedactionService {
         ...options
       };
 
-      // Load image document
-      console.log(`🖼️ Loading image document, buffer size: ${fileBuffer.byteLength} bytes, mimeType: ${mimeType}`);
-      const document = mupdf.Document.openDocument(fileBuffer, mimeType);
-      const page = document.loadPage(0);
-      console.log(`🖼️ Image document loaded successfully`);
+      console.log(`🖼️ Loading image, buffer size: ${fileBuffer.byteLength} bytes, mimeType: ${mimeType}`);
+      const canvas = await this.loadImageCanvas(fileBuffer, mimeType);
 
-      // Extract text using the correct API
-      let originalText = "";
-      try {
-        const structuredText = page.toStructuredText("preserve-whitespace");
-        originalText = structuredText.asText();
-        console.log(`🖼️ Extracted ${originalText.length} characters from image: "${originalText.substring(0, 100)}..."`);
-      } catch (extractError) {
-        console.error(`❌ Error extracting text from image:`, extractError);
-        originalText = "";
-      }
-      
-      if (!originalText.trim()) {
-        // If no text extracted, return empty result
-        return {
-          originalText: "",
-          redactedText: "",
-          redactedAreas: [],
-          extractedText: "",
-          confidence: 1.0,
-          redactionSummary: {
-            totalRedactions: 0,
-            piiRedactions: 0,
-            financialRedactions: 0,
-            medicalRedactions: 0,
-            legalRedactions: 0,
-            otherRedactions: 0,
-            highConfidence: 0,
-            mediumConfidence: 0,
-            lowConfidence: 0
-          }
-        };
+      // Read the text with Tesseract, keeping each word's box so matches can be masked where they are
+      const words = await this.recognizeWords(fileBuffer, canvas);
+      const { text: originalText, characters } = this.getWordCharacters(words);
+      console.log(`🖼️ Recognised ${originalText.length} characters in image: "${originalText.substring(0, 100)}..."`);
+
+      const matches = await this.findTextMatches(originalText, 0, defaultOptions);
+      for (const match of matches) {
+        const quads = this.getMatchQuads(characters, match.finding.start, match.finding.end);
+        if (quads.length > 0) {
+          match.area.quads = quads;
+          match.area.boundingBox = this.getQuadsBounds(quads);
+        }
       }
+      const { areas: textAreas, findings } = this.applyPageEdits(matches, characters, originalText, 0, edits);
 
-      // Apply redaction patterns to extracted text
-      const redactedAreas = await this.applyTextRedactionPatterns(
-        originalText,
-        0,
-        defaultOptions
-      );
+      const pictureAreas = defaultOptions.enablePIIRedaction
+        ? (await this.findPictureAreas(fileBuffer, canvas, words)).filter(area =>
+          !edits.some(edit => edit.action === 'remove' && edit.pageNumber === 0 && this.isEditOf(edit, area))
+        )
+        : [];
+      const redactedAreas = [...textAreas, ...pictureAreas];
+
+      this.maskImageRegions(canvas, redactedAreas, defaultOptions.imageMaskStyle ?? 'blackout');
+      const redactedImage = await this.encodeCanvas(canvas, mimeType);
+      console.log(`🖼️ Masked ${redactedAreas.length} regions, redacted image: ${redactedImage.data.size} bytes`);
 
-      const redactedText = this.applyRedactionsToText(originalText, redactedAreas);
+      const redactedText = await this.redactFindings(originalText, findings, defaultOptions);
 
       const redactionSummary = this.generateRedactionSummary(redactedAreas);
 
@@ -335,7 +394,9 @@ class DocumentRedactionService {
         redactedAreas,
         extractedText: redactedText.trim(),
         confidence: this.calculateOverallConfidence(redactedAreas),
-        redactionSummary
+        redactionSummary,
+        redactedImage,
+        edits
       };
 
     } catch (error) {
@@ -345,169 +406,540 @@ class DocumentRedactionService {
   }
 
   /**
-   * Get page words for redaction analysis
+   * Render one page of the original document with its words, for the redaction editor
    */
-  private getPageWords(page: mupdf.PDFPage): Array<{rect: mupdf.Rect, text: string}> {
-    const words: Array<{rect: mupdf.Rect, text: string}> = [];
-    let currentWord = { rect: [0, 0, 0, 0] as mupdf.Rect, text: "" };
+  public async renderPage(fileBuffer: ArrayBuffer, mimeType: string, pageNumber: number = 0): Promise<RedactionPage> {
+    if (mimeType.startsWith('image/')) {
+      const canvas = await this.loadImageCanvas(fileBuffer, mimeType);
+      const words = await this.recognizeWords(fileBuffer, canvas);
+      const image = await this.encodeCanvas(canvas, mimeType);
+      return {
+        pageNumber: 0,
+        pageCount: 1,
+        image: image.data,
+        bounds: [0, 0, canvas.width, canvas.height],
+        words: words.map(word => ({ text: word.text, boundingBox: word.bbox }))
+      };
+    }
 
-    page.toStructuredText("preserve-whitespace,preserve-spans").walk({
-      onChar(char: any, origin: any, font: any, size: any, quad: any) {
-        if (char === ' ') {
-          if (currentWord.text.trim()) {
-            words.push({
-              rect: currentWord.rect,
-              text: currentWord.text.trim()
-            });
-            currentWord = { rect: [0, 0, 0, 0], text: "" };
-          }
-        } else {
-          currentWord.text += char;
-          // Update bounding box
-          if (currentWord.rect[0] === 0 && currentWord.rect[1] === 0) {
-            currentWord.rect = [quad[0], quad[1], quad[6], quad[7]];
-          } else {
-            currentWord.rect[0] = Math.min(currentWord.rect[0], quad[0]);
-            currentWord.rect[1] = Math.min(currentWord.rect[1], quad[1]);
-            currentWord.rect[2] = Math.max(currentWord.rect[2], quad[6]);
-            currentWord.rect[3] = Math.max(currentWord.rect[3], quad[7]);
-          }
-        }
+    const document = mupdf.Document.openDocument(fileBuffer, mimeType);
+    const page = document.loadPage(pageNumber) as mupdf.PDFPage;
+    const pixmap = page.toPixmap(mupdf.Matrix.scale(2, 2), mupdf.ColorSpace.DeviceRGB, false, true);
+    const { text, characters } = this.getPageCharacters(page);
+
+    return {
+      pageNumber,
+      pageCount: document.countPages(),
+      image: new Blob([pixmap.asPNG().slice()], { type: 'image/png' }),
+      bounds: page.getBounds(),
+      words: this.getPageWords(text, characters)
+    };
+  }
+
+  /**
+   * Manual edits saved for this file, from an earlier time it was sent
+   */
+  public async getRedactionEdits(fileBuffer: ArrayBuffer): Promise<RedactionEdit[]> {
+    await this.initialize();
+    const rows = await this.redactionDb.getRedactionEdits(await this.getFileHash(fileBuffer));
+    return rows.map(row => ({
+      action: row.edit_action === 'remove' ? 'remove' : 'add',
+      pageNumber: row.page_number,
+      boundingBox: JSON.parse(row.bounding_box),
+      text: row.text,
+      category: row.category
+    }));
+  }
+
+  /**
+   * Keep the editor's changes for this file, so sending it again reuses them
+   */
+  public async saveRedactionEdits(fileBuffer: ArrayBuffer, documentId: string, edits: RedactionEdit[]): Promise<void> {
+    await this.initialize();
+    await this.redactionDb.replaceRedactionEdits(await this.getFileHash(fileBuffer), edits.map(edit => ({
+      document_id: documentId,
+      edit_action: edit.action,
+      page_number: edit.pageNumber,
+      bounding_box: JSON.stringify(edit.boundingBox),
+      text: edit.text,
+      category: edit.category
+    })));
+  }
+
+  /**
+   * Find sensitive content in plain text, with the redacted area for each finding
+   */
+  private async findTextMatches(
+    text: string,
+    pageNumber: number,
+    options: DocumentProcessingOptions
+  ): Promise<TextMatch[]> {
+    const findings = await this.detector.detect(text, {
+      categories: this.getEnabledCategories(options),
+      confidenceThreshold: options.confidenceThreshold
+    });
+
+    return findings.map(finding => ({
+      area: this.createRedactedArea(finding, pageNumber),
+      finding
+    }));
+  }
+
+  private createRedactedArea(finding: SensitiveFinding, pageNumber?: number): RedactedArea {
+    return {
+      id: `redaction_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type: 'text',
+      originalContent: finding.text,
+      redactedContent: this.generateRedactedContent(finding.category),
+      pageNumber,
+      confidence: finding.confidence,
+      category: finding.category
+    };
+  }
+
+  /**
+   * Replace findings by offset, so the same text elsewhere is left alone
+   */
+  private async redactFindings(
+    text: string,
+    findings: SensitiveFinding[],
+    options: Pick<DocumentProcessingOptions, 'pseudonymise' | 'sessionId'>
+  ): Promise<string> {
+    if (options.pseudonymise) {
+      return PseudonymService.getInstance().pseudonymise(options.sessionId ?? null, text, findings);
+    }
+    return this.detector.redact(text, findings, finding => this.generateRedactedContent(finding.category));
+  }
+
+  /**
+   * Page text with the quad of every character. Lines end in "\n" (which has
+   * no quad), so offsets into the text map straight back to characters.
+   */
+  private getPageCharacters(page: mupdf.PDFPage): { text: string; characters: PageCharacter[] } {
+    const characters: PageCharacter[] = [];
+    let text = "";
+    let line = 0;
+
+    page.toStructuredText("preserve-whitespace").walk({
+      onChar(char: string, origin: mupdf.Point, font: mupdf.Font, size: number, quad: mupdf.Quad) {
+        // Line-height quads overlap the lines above and below, and redaction would
+        // remove glyphs there too - keep only the glyph's own height around the baseline
+        const top = origin[1] - size * 0.8;
+        const bottom = origin[1] + size * 0.2;
+        characters.push({
+          start: text.length,
+          end: text.length + char.length,
+          line,
+          quad: [quad[0], top, quad[2], top, quad[4], bottom, quad[6], bottom]
+        });
+        text += char;
       },
-      endLine: () => {
-        if (currentWord.text.trim()) {
-          words.push({
-            rect: currentWord.rect,
-            text: currentWord.text.trim()
-          });
-          currentWord = { rect: [0, 0, 0, 0], text: "" };
-        }
+      endLine() {
+        text += "\n";
+        line++;
       }
     });
 
-    return words;
+    return { text, characters };
   }
 
   /**
-   * Apply redaction patterns to page words
+   * OCR words joined into text, one line per text line, with each word's box
+   * standing in for its characters so getMatchQuads() works on photos too
    */
-  private async applyRedactionPatterns(
-    words: Array<{rect: mupdf.Rect, text: string}>,
-    pageNumber: number,
-    options: DocumentProcessingOptions
-  ): Promise<RedactedArea[]> {
-    const redactedAreas: RedactedArea[] = [];
+  private getWordCharacters(words: OCRWord[]): { text: string; characters: PageCharacter[] } {
+    const characters: PageCharacter[] = [];
+    let text = "";
 
-    for (const word of words) {
-      const text = word.text;
-      
-      for (const pattern of this.redactionPatterns) {
-        // Skip patterns based on options
-        if (!this.shouldApplyPattern(pattern, options)) {
+    words.forEach((word, index) => {
+      if (index > 0) {
+        text += words[index - 1].line === word.line ? " " : "\n";
+      }
+      const [x0, y0, x1, y1] = word.bbox;
+      characters.push({
+        start: text.length,
+        end: text.length + word.text.length,
+        line: word.line,
+        quad: [x0, y0, x1, y0, x0, y1, x1, y1]
+      });
+      text += word.text;
+    });
+
+    return { text, characters };
+  }
+
+  /**
+   * Quads covering the characters in [start, end), merged into one per line
+   */
+  private getMatchQuads(characters: PageCharacter[], start: number, end: number): mupdf.Quad[] {
+    const lines = new Map<number, mupdf.Quad>();
+
+    for (const character of characters) {
+      if (character.end <= start || character.start >= end) {
+        continue;
+      }
+
+      const [x0, y0, x1, , , y3] = character.quad;
+      const existing = lines.get(character.line);
+      if (!existing) {
+        lines.set(character.line, [...character.quad] as mupdf.Quad);
+        continue;
+      }
+
+      const left = Math.min(existing[0], x0);
+      const top = Math.min(existing[1], y0);
+      const right = Math.max(existing[2], x1);
+      const bottom = Math.max(existing[5], y3);
+      lines.set(character.line, [left, top, right, top, left, bottom, right, bottom]);
+    }
+
+    return Array.from(lines.values());
+  }
+
+  private getQuadsBounds(quads: mupdf.Quad[]): mupdf.Rect {
+    return [
+      Math.min(...quads.map(quad => quad[0])),
+      Math.min(...quads.map(quad => quad[1])),
+      Math.max(...quads.map(quad => quad[2])),
+      Math.max(...quads.map(quad => quad[5]))
+    ];
+  }
+
+  /**
+   * Decode an image onto a canvas. Drawing applies the EXIF orientation, so
+   * OCR boxes and the masked copy are both upright.
+   */
+  private async loadImageCanvas(fileBuffer: ArrayBuffer, mimeType: string): Promise<HTMLCanvasElement> {
+    const imageUrl = URL.createObjectURL(new Blob([fileBuffer], { type: mimeType }));
+    try {
+      const image = new Image();
+      await new Promise<void>((resolve, reject) => {
+        image.onload = () => resolve();
+        image.onerror = () => reject(new Error('Could not decode image'));
+        image.src = imageUrl;
+      });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Canvas is not available');
+      }
+      context.drawImage(image, 0, 0);
+      return canvas;
+    } finally {
+      URL.revokeObjectURL(imageUrl);
+    }
+  }
+
+  /**
+   * Black out or pixelate each line of each area, padded a little since OCR boxes sit tight on the glyphs
+   */
+  private maskImageRegions(canvas: HTMLCanvasElement, redactedAreas: RedactedArea[], style: ImageMaskStyle): void {
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas is not available');
+    }
+
+    for (const area of redactedAreas) {
+      const rects: mupdf.Rect[] = area.quads
+        ? area.quads.map(quad => [quad[0], quad[1], quad[2], quad[5]] as mupdf.Rect)
+        : area.boundingBox ? [area.boundingBox] : [];
+
+      for (const [x0, y0, x1, y1] of rects) {
+        const padding = Math.ceil((y1 - y0) * 0.15);
+        const left = Math.max(0, Math.floor(x0 - padding));
+        const top = Math.max(0, Math.floor(y0 - padding));
+        const width = Math.min(canvas.width, Math.ceil(x1 + padding)) - left;
+        const height = Math.min(canvas.height, Math.ceil(y1 + padding)) - top;
+        if (width <= 0 || height <= 0) {
           continue;
         }
 
-        if (pattern.pattern.test(text)) {
-          const confidence = this.calculatePatternConfidence(text, pattern);
-          
-          if (confidence >= options.confidenceThreshold) {
-            redactedAreas.push({
-              id: `redaction_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-              type: 'text',
-              originalContent: text,
-              redactedContent: this.generateRedactedContent(pattern.category),
-              boundingBox: word.rect,
-              pageNumber,
-              confidence,
-              category: pattern.category
-            });
-          }
+        if (style === 'pixelate') {
+          this.pixelateRegion(context, left, top, width, height);
+        } else {
+          context.fillStyle = '#000000';
+          context.fillRect(left, top, width, height);
         }
       }
     }
+  }
 
-    return redactedAreas;
+  /**
+   * Scale the region down to a few blocks per text line and back up without smoothing
+   */
+  private pixelateRegion(context: CanvasRenderingContext2D, left: number, top: number, width: number, height: number): void {
+    const blockSize = Math.max(8, Math.round(height / 2));
+    const blocks = document.createElement('canvas');
+    blocks.width = Math.max(1, Math.ceil(width / blockSize));
+    blocks.height = Math.max(1, Math.ceil(height / blockSize));
+    const blocksContext = blocks.getContext('2d');
+    if (!blocksContext) {
+      throw new Error('Canvas is not available');
+    }
+
+    blocksContext.drawImage(context.canvas, left, top, width, height, 0, 0, blocks.width, blocks.height);
+    context.imageSmoothingEnabled = false;
+    context.drawImage(blocks, 0, 0, blocks.width, blocks.height, left, top, width, height);
+    context.imageSmoothingEnabled = true;
   }
 
   /**
-   * Apply redaction patterns to plain text
+   * Encode the canvas as PNG for PNG input and JPEG otherwise; only the pixels are kept
    */
-  private async applyTextRedactionPatterns(
+  private encodeCanvas(canvas: HTMLCanvasElement, mimeType: string): Promise<RedactedImage> {
+    const outputType = mimeType === 'image/png' ? 'image/png' : 'image/jpeg';
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => {
+        if (!blob) {
+          reject(new Error('Could not encode image'));
+          return;
+        }
+        resolve({ data: blob, mimeType: outputType, width: canvas.width, height: canvas.height });
+      }, outputType, 0.9);
+    });
+  }
+
+  /**
+   * Apply the editor's changes to one page: drop the matches the user kept,
+   * and redact each added box along with the text under it
+   */
+  private applyPageEdits(
+    matches: TextMatch[],
+    characters: PageCharacter[],
     text: string,
     pageNumber: number,
-    options: DocumentProcessingOptions
-  ): Promise<RedactedArea[]> {
-    const redactedAreas: RedactedArea[] = [];
+    edits: RedactionEdit[]
+  ): EditedPage {
+    const pageEdits = edits.filter(edit => edit.pageNumber === pageNumber);
+    const kept = matches.filter(match =>
+      !pageEdits.some(edit => edit.action === 'remove' && this.isEditOf(edit, match.area))
+    );
+    const areas = kept.map(match => match.area);
+    const findings = kept.map(match => match.finding);
+
+    for (const edit of pageEdits) {
+      if (edit.action !== 'add') {
+        continue;
+      }
+      const [x0, y0, x1, y1] = edit.boundingBox;
+      const ranges = this.getCharacterRanges(characters, text, edit.boundingBox);
+      const boxText = ranges.map(([start, end]) => text.substring(start, end)).join(' ');
+
+      areas.push({
+        id: `redaction_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        type: boxText ? 'text' : 'image',
+        originalContent: boxText || edit.text,
+        redactedContent: this.generateRedactedContent(edit.category),
+        boundingBox: edit.boundingBox,
+        quads: [[x0, y0, x1, y0, x0, y1, x1, y1]],
+        pageNumber,
+        confidence: 1,
+        category: edit.category,
+        manual: true
+      });
+      findings.push(...ranges.map(([start, end]) => ({
+        patternName: MANUAL_PATTERN_NAME,
+        category: edit.category,
+        start,
+        end,
+        text: text.substring(start, end),
+        confidence: 1
+      })));
+    }
+
+    return { areas, findings };
+  }
 
-    for (const pattern of this.redactionPatterns) {
-      if (!this.shouldApplyPattern(pattern, options)) {
+  /**
+   * Whether a 'remove' edit refers to this area: same text, and the area sits inside the edit's box
+   */
+  private isEditOf(edit: RedactionEdit, area: RedactedArea): boolean {
+    if (!area.boundingBox || area.originalContent !== edit.text) {
+      return false;
+    }
+    const [x0, y0, x1, y1] = area.boundingBox;
+    const [left, top, right, bottom] = edit.boundingBox;
+    const centerX = (x0 + x1) / 2;
+    const centerY = (y0 + y1) / 2;
+    return centerX >= left && centerX <= right && centerY >= top && centerY <= bottom;
+  }
+
+  /**
+   * Text ranges of the characters whose centre lies in the box, joined across whitespace
+   */
+  private getCharacterRanges(characters: PageCharacter[], text: string, box: mupdf.Rect): Array<[number, number]> {
+    const [left, top, right, bottom] = box;
+    const ranges: Array<[number, number]> = [];
+
+    for (const character of characters) {
+      const centerX = (character.quad[0] + character.quad[2]) / 2;
+      const centerY = (character.quad[1] + character.quad[5]) / 2;
+      if (centerX < left || centerX > right || centerY < top || centerY > bottom) {
+        continue;
+      }
+      if (!text.substring(character.start, character.end).trim()) {
         continue;
       }
 
-      let match;
-      while ((match = pattern.pattern.exec(text)) !== null) {
-        const matchedText = match[0];
-        const confidence = this.calculatePatternConfidence(matchedText, pattern);
-        
-        if (confidence >= options.confidenceThreshold) {
-          redactedAreas.push({
-            id: `redaction_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            type: 'text',
-            originalContent: matchedText,
-            redactedContent: this.generateRedactedContent(pattern.category),
-            pageNumber,
-            confidence,
-            category: pattern.category
-          });
-        }
+      const last = ranges[ranges.length - 1];
+      if (last && !text.substring(last[1], character.start).trim()) {
+        last[1] = character.end;
+      } else {
+        ranges.push([character.start, character.end]);
       }
     }
 
-    return redactedAreas;
+    return ranges;
   }
 
   /**
-   * Check if pattern should be applied based on options
+   * Group a page's characters into words, for tap-to-redact in the editor
    */
-  private shouldApplyPattern(pattern: RedactionPattern, options: DocumentProcessingOptions): boolean {
-    switch (pattern.category) {
-      case 'pii':
-        return options.enablePIIRedaction;
-      case 'financial':
-        return options.enableFinancialRedaction;
-      case 'medical':
-        return options.enableMedicalRedaction;
-      case 'legal':
-        return options.enableLegalRedaction;
-      default:
-        return true;
+  private getPageWords(text: string, characters: PageCharacter[]): PageWord[] {
+    const words: PageWord[] = [];
+    let current: PageCharacter[] = [];
+
+    const flush = () => {
+      if (current.length > 0) {
+        words.push({
+          text: text.substring(current[0].start, current[current.length - 1].end),
+          boundingBox: this.getQuadsBounds(current.map(character => character.quad))
+        });
+        current = [];
+      }
+    };
+
+    for (const character of characters) {
+      const isSpace = !text.substring(character.start, character.end).trim();
+      if (isSpace || (current.length > 0 && current[current.length - 1].line !== character.line)) {
+        flush();
+      }
+      if (!isSpace) {
+        current.push(character);
+      }
     }
+    flush();
+
+    return words;
+  }
+
+  private async recognizeWords(fileBuffer: ArrayBuffer, canvas: HTMLCanvasElement): Promise<OCRWord[]> {
+    const fileHash = await this.getFileHash(fileBuffer);
+    if (this.lastOcr?.fileHash === fileHash) {
+      return this.lastOcr.words;
+    }
+    const words = await this.pdfParser.recognizeWords(canvas, PHOTO_OCR_CONFIG);
+    this.lastOcr = { fileHash, words };
+    return words;
   }
 
   /**
-   * Calculate confidence score for a pattern match
+   * Faces and signatures in a photo, which have no text for the patterns to find.
+   * A signature is taken to be next to or above its label ("Signature", "हस्ताक्षर").
    */
-  private calculatePatternConfidence(text: string, pattern: RedactionPattern): number {
-    let confidence = 0.5; // Base confidence
+  private async findPictureAreas(fileBuffer: ArrayBuffer, canvas: HTMLCanvasElement, words: OCRWord[]): Promise<RedactedArea[]> {
+    const boxes: { label: string; box: mupdf.Rect; confidence: number }[] = [];
 
-    // Adjust based on pattern severity
-    switch (pattern.severity) {
-      case 'high':
-        confidence += 0.3;
-        break;
-      case 'medium':
-        confidence += 0.1;
-        break;
-      case 'low':
-        confidence -= 0.1;
-        break;
+    for (const face of await this.detectFaces(fileBuffer, canvas)) {
+      boxes.push({ label: 'Face', box: [face.x, face.y, face.x + face.width, face.y + face.height], confidence: 0.85 });
     }
 
-    // Adjust based on text characteristics
-    if (text.length > 5) confidence += 0.1;
-    if (text.match(/\d/) && text.match(/[A-Za-z]/)) confidence += 0.1;
-    
-    return Math.min(1.0, Math.max(0.0, confidence));
+    for (const word of words) {
+      if (!SIGNATURE_LABEL.test(word.text.replace(/[:.,]+$/, ''))) {
+        continue;
+      }
+      const [x0, y0, x1, y1] = word.bbox;
+      const lineHeight = y1 - y0;
+      boxes.push({ label: 'Signature', box: [x0 - lineHeight, y0 - lineHeight * 3, x1 + lineHeight * 8, y1 + lineHeight], confidence: 0.7 });
+    }
+
+    return boxes.map(({ label, box, confidence }) => {
+      const [x0, y0, x1, y1] = [
+        Math.max(0, box[0]),
+        Math.max(0, box[1]),
+        Math.min(canvas.width, box[2]),
+        Math.min(canvas.height, box[3])
+      ];
+      return {
+        id: `redaction_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        type: 'image' as const,
+        originalContent: label,
+        redactedContent: this.generateRedactedContent('pii'),
+        boundingBox: [x0, y0, x1, y1] as mupdf.Rect,
+        quads: [[x0, y0, x1, y0, x0, y1, x1, y1] as mupdf.Quad],
+        pageNumber: 0,
+        confidence,
+        category: 'pii'
+      };
+    });
+  }
+
+  /**
+   * Faces in the photo, found on the device. Without a detector (most browsers)
+   * there are none, and faces can still be masked in the editor.
+   */
+  private async detectFaces(fileBuffer: ArrayBuffer, canvas: HTMLCanvasElement): Promise<FaceBox[]> {
+    const fileHash = await this.getFileHash(fileBuffer);
+    if (this.lastFaces?.fileHash === fileHash) {
+      return this.lastFaces.faces;
+    }
+
+    let faces: FaceBox[] = [];
+    try {
+      const BrowserFaceDetector = (window as unknown as { FaceDetector?: BrowserFaceDetectorConstructor }).FaceDetector;
+      if (Capacitor.getPlatform() === 'android') {
+        // The canvas, not the file, so the boxes match its upright orientation
+        const image = canvas.toDataURL('image/jpeg', 0.9).split(',')[1];
+        faces = (await FaceDetection.detectFaces({ image })).faces;
+      } else if (BrowserFaceDetector) {
+        const detected = await new BrowserFaceDetector({ maxDetectedFaces: 10 }).detect(canvas);
+        faces = detected.map(({ boundingBox }) => ({
+          x: boundingBox.x,
+          y: boundingBox.y,
+          width: boundingBox.width,
+          height: boundingBox.height
+        }));
+      }
+      console.log(`🖼️ Found ${faces.length} face(s) in image`);
+      this.lastFaces = { fileHash, faces };
+    } catch (error) {
+      console.warn('⚠️ Face detection failed, masking text only:', error);
+    }
+    return faces;
+  }
+
+  /**
+   * SHA-256 of the file, which finds its saved edits when the same file is sent again
+   */
+  private async getFileHash(fileBuffer: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', fileBuffer);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Categories to redact based on options
+   */
+  private getEnabledCategories(options: DocumentProcessingOptions): RedactionCategory[] {
+    const categories: RedactionCategory[] = [];
+    if (options.enableOtherRedaction !== false) {
+      categories.push('other');
+    }
+    if (options.enablePIIRedaction) {
+      categories.push('pii');
+    }
+    if (options.enableFinancialRedaction) {
+      categories.push('financial');
+    }
+    if (options.enableMedicalRedaction) {
+      categories.push('medical');
+    }
+    if (options.enableLegalRedaction) {
+      categories.push('legal');
+    }
+    return categories;
   }
 
   /**
@@ -536,11 +968,16 @@ class DocumentRedactionService {
     redactedAreas: RedactedArea[]
   ): Promise<void> {
     for (const area of redactedAreas) {
-      if (area.type === 'text' && area.boundingBox) {
+      if ((area.type === 'text' || area.type === 'image') && area.boundingBox) {
         try {
           const annotation = page.createAnnotation("Redact");
-          annotation.setRect(area.boundingBox);
-          // Note: applyRedaction will be called at page level later
+          if (area.quads) {
+            annotation.setQuadPoints(area.quads);
+          } else {
+            annotation.setRect(area.boundingBox);
+          }
+          annotation.update();
+          // Note: applyRedactions is called on the page afterwards
         } catch (error) {
           console.warn('Failed to create redaction annotation:', error);
         }
@@ -571,32 +1008,6 @@ class DocumentRedactionService {
     }
   }
 
-  /**
-   * Extract clean text after redaction
-   */
-  private extractCleanText(originalText: string, redactedAreas: RedactedArea[]): string {
-    let cleanText = originalText;
-    
-    for (const area of redactedAreas) {
-      cleanText = cleanText.replace(area.originalContent, area.redactedContent);
-    }
-    
-    return cleanText;
-  }
-
-  /**
-   * Apply redactions to text
-   */
-  private applyRedactionsToText(text: string, redactedAreas: RedactedArea[]): string {
-    let redactedText = text;
-    
-    for (const area of redactedAreas) {
-      redactedText = redactedText.replace(area.originalContent, area.redactedContent);
-    }
-    
-    return redactedText;
-  }
-
   /**
    * Generate redaction summary
    */
@@ -654,42 +1065,111 @@ class DocumentRedactionService {
     return totalConfidence / redactedAreas.length;
   }
 
+  /**
+   * Set the user's country (ISO alpha-2, e.g. 'in'); null applies every country's patterns
+   */
+  public setCountry(country: string | null): void {
+    this.detector.setCountry(country);
+  }
+
+  public getCountry(): string | null {
+    return this.detector.getCountry();
+  }
+
   /**
    * Get redaction patterns for UI display
    */
   public getRedactionPatterns(): RedactionPattern[] {
-    return [...this.redactionPatterns];
+    return this.detector.getPatterns();
   }
 
   /**
-   * Add custom redaction pattern
+   * Remove redaction pattern; built-in patterns are switched off instead
    */
-  public addRedactionPattern(pattern: RedactionPattern): void {
-    this.redactionPatterns.push(pattern);
+  public async removeRedactionPattern(patternName: string): Promise<boolean> {
+    await this.initialize();
+    const stored = (await this.redactionDb.getRedactionPatterns()).find(p => p.pattern_name === patternName);
+    if (stored?.source === 'builtin') {
+      await this.redactionDb.setRedactionPatternActive(patternName, false);
+    } else if (stored) {
+      await this.redactionDb.deleteRedactionPattern(patternName);
+    }
+    return this.detector.removePattern(patternName);
   }
 
   /**
-   * Remove redaction pattern
+   * Built-in, user and organisation patterns as stored, for the settings screen
    */
-  public removeRedactionPattern(patternName: string): boolean {
-    const index = this.redactionPatterns.findIndex(p => p.name === patternName);
-    if (index !== -1) {
-      this.redactionPatterns.splice(index, 1);
-      return true;
-    }
-    return false;
+  public async getStoredPatterns(): Promise<StoredRedactionPattern[]> {
+    await this.initialize();
+    return this.redactionDb.getRedactionPatterns();
+  }
+
+  /**
+   * Create or update a user or organisation pattern. Throws if it does not compile.
+   */
+  public async saveStoredPattern(pattern: Omit<StoredRedactionPattern, 'id' | 'created_at' | 'updated_at'>): Promise<void> {
+    compileStoredPattern(pattern);
+    await this.initialize();
+    await this.redactionDb.saveRedactionPattern(pattern);
+    await this.loadStoredPatterns();
+  }
+
+  public async deleteStoredPattern(patternName: string): Promise<void> {
+    await this.initialize();
+    await this.redactionDb.deleteRedactionPattern(patternName);
+    await this.loadStoredPatterns();
+  }
+
+  public async setPatternEnabled(patternName: string, enabled: boolean): Promise<void> {
+    await this.initialize();
+    await this.redactionDb.setRedactionPatternActive(patternName, enabled);
+    await this.loadStoredPatterns();
   }
 
   /**
-   * Initialize the service
+   * Initialize the service: load custom patterns and switched-off built-ins from the database
    */
   public async initialize(): Promise<void> {
     if (this.isInitialized) {
       return;
     }
-    
-    this.isInitialized = true;
-    console.log('✅ [DocumentRedaction] Service initialized');
+    if (!this.initializationPromise) {
+      this.initializationPromise = (async () => {
+        try {
+          await this.redactionDb.initialize();
+          await this.loadStoredPatterns();
+        } catch (error) {
+          // Built-in patterns still work without the database
+          console.error('❌ [DocumentRedaction] Failed to load stored patterns:', error);
+        }
+        this.isInitialized = true;
+        console.log('✅ [DocumentRedaction] Service initialized');
+      })();
+    }
+    return this.initializationPromise;
+  }
+
+  private async loadStoredPatterns(): Promise<void> {
+    const stored = await this.redactionDb.getRedactionPatterns();
+    const customPatterns: RedactionPattern[] = [];
+
+    for (const pattern of stored) {
+      if (pattern.source === 'builtin' || !pattern.is_active) {
+        continue;
+      }
+      try {
+        customPatterns.push(compileStoredPattern(pattern));
+      } catch (error) {
+        console.warn(`⚠️ [DocumentRedaction] Skipping invalid pattern "${pattern.pattern_name}":`, error);
+      }
+    }
+
+    this.detector.setCustomPatterns(customPatterns);
+    this.detector.setDisabledPatterns(
+      stored.filter(pattern => pattern.source === 'builtin' && !pattern.is_active).map(pattern => pattern.pattern_name)
+    );
+    console.log(`📋 [DocumentRedaction] Loaded ${customPatterns.length} custom redaction pattern(s)`);
   }
 
   /**
@@ -699,22 +1179,6 @@ class DocumentRedactionService {
     return this.isInitialized;
   }
 
-  /**
-   * Simple text content redaction
-   */
-  private redactTextContent(text: string): string {
-    let redactedText = text;
-    
-    // Apply basic redaction patterns
-    for (const pattern of this.redactionPatterns) {
-      if (pattern.severity === 'high') {
-        redactedText = redactedText.replace(pattern.pattern, '[REDACTED]');
-      }
-    }
-    
-    return redactedText;
-  }
-
   /**
    * Initialize content analysis services
    */
@@ -801,102 +1265,308 @@ class DocumentRedactionService {
    */
   async processSelectedSections(
     documentId: string,
-    options: Partial<DocumentProcessingOptions> = {}
+    options: Partial<DocumentProcessingOptions> = {},
+    edits: RedactionEdit[] = []
   ): Promise<RedactionResult> {
     try {
-      console.log(`🔍 [DocumentRedaction] Processing selected sections for document: ${documentId}`);
-      
-      // Get selected content sections
-      const selectedSections = await this.contentAnalysisService.getSelectedContent(documentId);
+      const { result } = await this.redactSelectedSections(documentId, options, edits);
+      console.log(`✅ [DocumentRedaction] Selected sections processed: ${result.redactedAreas.length} redactions applied`);
+      return result;
       
-      if (selectedSections.length === 0) {
-        throw new Error('No sections selected for processing');
+    } catch (error) {
+      console.error('❌ [DocumentRedaction] Failed to process selected sections:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Process the selected sections of a PDF and build the redacted copy from the
+   * same findings, so the file and the text sent with it agree. Text and images
+   * left out of the selection are removed from the copy as well.
+   */
+  async processSelectedPDF(
+    fileBuffer: ArrayBuffer,
+    documentId: string,
+    options: Partial<DocumentProcessingOptions> = {},
+    edits: RedactionEdit[] = []
+  ): Promise<RedactionResult> {
+    try {
+      const { result, sections, processingOptions } = await this.redactSelectedSections(documentId, options, edits);
+
+      const document = mupdf.Document.openDocument(fileBuffer, "application/pdf") as mupdf.PDFDocument;
+      if (document.needsPassword()) {
+        throw new Error("Password-protected PDFs are not supported");
       }
-      
-      let totalRedactedText = '';
-      let totalOriginalText = '';
-      const allRedactedAreas: RedactedArea[] = [];
-      const redactionSummary: RedactionSummary = {
-        totalRedactions: 0,
-        piiRedactions: 0,
-        financialRedactions: 0,
-        medicalRedactions: 0,
-        legalRedactions: 0,
-        otherRedactions: 0,
-        highConfidence: 0,
-        mediumConfidence: 0,
-        lowConfidence: 0
-      };
-      
-      // Process each selected section
-      for (const section of selectedSections) {
-        if (section.type === 'text') {
-          // Simple text redaction
-          const redactedContent = this.redactTextContent(section.content);
-          
-          totalOriginalText += section.content + '\n';
-          totalRedactedText += redactedContent + '\n';
-          
-          // Create a simple redacted area for tracking
-          const redactedArea: RedactedArea = {
-            id: `section_${section.id}`,
-            type: 'text',
-            originalContent: section.content,
-            redactedContent: redactedContent,
-            confidence: 0.8,
-            category: 'pii'
-          };
-          allRedactedAreas.push(redactedArea);
-          
-          // Update summary
-          redactionSummary.totalRedactions++;
-          redactionSummary.piiRedactions++;
-          redactionSummary.highConfidence++;
-          
-        } else if (section.type === 'image') {
-          // For images, we don't extract text but can note their presence
-          totalRedactedText += `[Image content - ${section.preview}]\n`;
-        } else if (section.type === 'metadata') {
-          // Simple metadata redaction
-          const redactedContent = this.redactTextContent(section.content);
-          
-          totalOriginalText += section.content + '\n';
-          totalRedactedText += redactedContent + '\n';
-          
-          const redactedArea: RedactedArea = {
-            id: `metadata_${section.id}`,
-            type: 'metadata',
-            originalContent: section.content,
-            redactedContent: redactedContent,
-            confidence: 0.8,
-            category: 'pii'
+
+      const selectedImages = new Set(sections.filter(({ section }) => section.type === 'image').map(({ section }) => section.id));
+      const positioned = new Map<TextMatch, RedactedArea>();
+      const manualAreas: RedactedArea[] = [];
+
+      const pageCount = document.countPages();
+      for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+        const page = document.loadPage(pageIndex) as mupdf.PDFPage;
+        const { text, characters } = this.getPageCharacters(page);
+        const covered: Array<[number, number]> = [];
+        const pageAreas: RedactedArea[] = [];
+
+        // Sections are blocks of this page's text, in order
+        let cursor = 0;
+        for (const { section, matches } of sections) {
+          if (section.type !== 'text' || section.pageNumber !== pageIndex) {
+            continue;
+          }
+          let offset = text.indexOf(section.content, cursor);
+          if (offset === -1) {
+            offset = text.indexOf(section.content);
+          }
+          if (offset === -1) {
+            // Left to the excluded text below, which removes all of it
+            console.warn(`⚠️ [DocumentRedaction] Section ${section.id} not found on page ${pageIndex + 1}`);
+            continue;
+          }
+          cursor = offset + section.content.length;
+          covered.push([offset, cursor]);
+
+          for (const match of matches) {
+            // Manual boxes are redacted as drawn, below
+            if (match.finding.patternName === MANUAL_PATTERN_NAME) {
+              continue;
+            }
+            const quads = this.getMatchQuads(characters, offset + match.finding.start, offset + match.finding.end);
+            if (quads.length > 0) {
+              const area = { ...match.area, quads, boundingBox: this.getQuadsBounds(quads) };
+              positioned.set(match, area);
+              pageAreas.push(area);
+            }
+          }
+        }
+
+        // Boxes added in the editor, with whatever text or picture is under them
+        for (const edit of edits) {
+          if (edit.action !== 'add' || edit.pageNumber !== pageIndex) {
+            continue;
+          }
+          const [x0, y0, x1, y1] = edit.boundingBox;
+          const area: RedactedArea = {
+            id: `redaction_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            type: edit.text ? 'text' : 'image',
+            originalContent: edit.text,
+            redactedContent: this.generateRedactedContent(edit.category),
+            boundingBox: edit.boundingBox,
+            quads: [[x0, y0, x1, y0, x0, y1, x1, y1]],
+            pageNumber: pageIndex,
+            confidence: 1,
+            category: edit.category,
+            manual: true
           };
-          allRedactedAreas.push(redactedArea);
-          
-          redactionSummary.totalRedactions++;
-          redactionSummary.piiRedactions++;
-          redactionSummary.highConfidence++;
+          manualAreas.push(area);
+          pageAreas.push(area);
+        }
+
+        const excludedQuads = [
+          ...this.getUncoveredQuads(characters, text, covered),
+          ...this.getPageImageBounds(page)
+            .filter((_, imageIndex) => !selectedImages.has(`${documentId}_image_${pageIndex}_${imageIndex}`))
+            .map(([x0, y0, x1, y1]): mupdf.Quad => [x0, y0, x1, y0, x0, y1, x1, y1])
+        ];
+
+        await this.createRedactionAnnotations(page, pageAreas);
+        if (excludedQuads.length > 0) {
+          const annotation = page.createAnnotation("Redact");
+          annotation.setQuadPoints(excludedQuads);
+          annotation.update();
+        }
+        if (pageAreas.length > 0 || excludedQuads.length > 0) {
+          page.applyRedactions(true, mupdf.PDFPage.REDACT_IMAGE_PIXELS);
         }
-        // Skip other types (forms, links, annotations) for now
       }
-      
-      const result: RedactionResult = {
+
+      // Metadata goes unless it was selected and had nothing to redact
+      const metadata = sections.find(({ section }) => section.type === 'metadata');
+      if (processingOptions.enableMetadataRedaction || !metadata || metadata.matches.length > 0) {
+        this.cleanDocumentMetadata(document);
+      }
+
+      const redactedPdf = document.saveToBuffer("garbage=deduplicate,compress").asUint8Array().slice();
+      console.log(`📄 Redacted PDF saved: ${redactedPdf.byteLength} bytes`);
+
+      // The same findings, now with their place on the page where it was found
+      const redactedAreas = [
+        ...sections.flatMap(({ matches }) => matches
+          .filter(match => match.finding.patternName !== MANUAL_PATTERN_NAME)
+          .map(match => positioned.get(match) ?? match.area)),
+        ...manualAreas
+      ];
+
+      return {
+        ...result,
+        redactedAreas,
+        redactionSummary: this.generateRedactionSummary(redactedAreas),
+        confidence: this.calculateOverallConfidence(redactedAreas),
+        redactedPdf
+      };
+
+    } catch (error) {
+      console.error('❌ [DocumentRedaction] Failed to process selected PDF sections:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Redact the selected sections of an analysed document, once, for both the
+   * text and the file built from it
+   */
+  private async redactSelectedSections(
+    documentId: string,
+    options: Partial<DocumentProcessingOptions>,
+    edits: RedactionEdit[]
+  ): Promise<{ result: RedactionResult; sections: RedactedSection[]; processingOptions: DocumentProcessingOptions }> {
+    await this.initialize();
+    console.log(`🔍 [DocumentRedaction] Processing selected sections for document: ${documentId}`);
+    
+    // Get selected content sections
+    const selectedSections = await this.contentAnalysisService.getSelectedContent(documentId);
+    
+    if (selectedSections.length === 0) {
+      throw new Error('No sections selected for processing');
+    }
+    
+    const processingOptions: DocumentProcessingOptions = {
+      enablePIIRedaction: true,
+      enableFinancialRedaction: true,
+      enableMedicalRedaction: true,
+      enableLegalRedaction: true,
+      enableMetadataRedaction: true,
+      confidenceThreshold: 0.7,
+      preserveFormatting: true,
+      userConfirmationRequired: true,
+      ...options
+    };
+    const categories = this.getEnabledCategories(processingOptions);
+    
+    let totalRedactedText = '';
+    let totalOriginalText = '';
+    const sections: RedactedSection[] = [];
+    
+    // Process each selected section
+    for (const section of selectedSections) {
+      if (section.type === 'text' || section.type === 'metadata') {
+        // Redact exactly what analysis found (and the selection modal showed), unless options narrow it
+        const detected = (section.findings ?? await this.detector.detect(section.content)).filter(finding =>
+          categories.includes(finding.category) && finding.confidence >= processingOptions.confidenceThreshold
+        );
+        const findings = this.applySectionEdits(section, detected, edits);
+        const redactedContent = await this.redactFindings(section.content, findings, processingOptions);
+        
+        totalOriginalText += section.content + '\n';
+        totalRedactedText += redactedContent + '\n';
+        
+        const areaType = section.type;
+        sections.push({
+          section,
+          matches: findings.map(finding => ({
+            finding,
+            area: { ...this.createRedactedArea(finding, section.pageNumber), type: areaType }
+          }))
+        });
+        
+      } else if (section.type === 'image') {
+        // For images, we don't extract text but can note their presence
+        totalRedactedText += `[Image content - ${section.preview}]\n`;
+        sections.push({ section, matches: [] });
+      }
+      // Skip other types (forms, links, annotations) for now
+    }
+    
+    const allRedactedAreas = sections.flatMap(({ matches }) => matches.map(match => match.area));
+    
+    return {
+      result: {
         originalText: totalOriginalText.trim(),
         redactedText: totalRedactedText.trim(),
         redactedAreas: allRedactedAreas,
         extractedText: totalRedactedText.trim(),
         confidence: this.calculateOverallConfidence(allRedactedAreas),
-        redactionSummary
-      };
-      
-      console.log(`✅ [DocumentRedaction] Selected sections processed: ${allRedactedAreas.length} redactions applied`);
-      
-      return result;
-      
-    } catch (error) {
-      console.error('❌ [DocumentRedaction] Failed to process selected sections:', error);
-      throw error;
+        redactionSummary: this.generateRedactionSummary(allRedactedAreas),
+        edits
+      },
+      sections,
+      processingOptions
+    };
+  }
+
+  /**
+   * Quads over the page text outside the given ranges, skipping whitespace
+   */
+  private getUncoveredQuads(characters: PageCharacter[], text: string, covered: Array<[number, number]>): mupdf.Quad[] {
+    const quads: mupdf.Quad[] = [];
+    let run: [number, number] | null = null;
+
+    const flush = () => {
+      if (run) {
+        quads.push(...this.getMatchQuads(characters, run[0], run[1]));
+        run = null;
+      }
+    };
+
+    for (const character of characters) {
+      if (covered.some(([start, end]) => character.start >= start && character.end <= end)) {
+        flush();
+        continue;
+      }
+      if (!text.substring(character.start, character.end).trim()) {
+        continue;
+      }
+      if (run) {
+        run[1] = character.end;
+      } else {
+        run = [character.start, character.end];
+      }
     }
+    flush();
+
+    return quads;
+  }
+
+  /**
+   * Bounds of the images on a page, in the order content analysis numbers them
+   */
+  private getPageImageBounds(page: mupdf.PDFPage): mupdf.Rect[] {
+    const bounds: mupdf.Rect[] = [];
+    page.toStructuredText("preserve-images").walk({
+      onImageBlock(bbox: mupdf.Rect) {
+        bounds.push(bbox);
+      }
+    });
+    return bounds;
+  }
+
+  /**
+   * Section text has no positions, so editor changes are matched by page and
+   * text: findings the user kept are dropped, and the text of added boxes is
+   * redacted wherever it occurs in the section
+   */
+  private applySectionEdits(section: ContentSection, findings: SensitiveFinding[], edits: RedactionEdit[]): SensitiveFinding[] {
+    const pageEdits = edits.filter(edit => edit.pageNumber === section.pageNumber);
+    const kept = findings.filter(finding =>
+      !pageEdits.some(edit => edit.action === 'remove' && edit.text === finding.text)
+    );
+    for (const edit of pageEdits) {
+      if (edit.action !== 'add' || !edit.text) {
+        continue;
+      }
+      for (let start = section.content.indexOf(edit.text); start !== -1; start = section.content.indexOf(edit.text, start + edit.text.length)) {
+        kept.push({
+          patternName: MANUAL_PATTERN_NAME,
+          category: edit.category,
+          start,
+          end: start + edit.text.length,
+          text: edit.text,
+          confidence: 1
+        });
+      }
+    }
+    return kept;
   }
 
   /**
@@ -930,6 +1600,119 @@ class DocumentRedactionService {
       throw error;
     }
   }
+
+  /**
+   * This device's preferences for every category. Categories without a
+   * stored preference are redacted and confirmed, as before preferences existed.
+   */
+  async getRedactionPreferences(): Promise<RedactionPreferences> {
+    const preferences = {} as RedactionPreferences;
+    for (const category of REDACTION_CATEGORIES) {
+      preferences[category] = { autoRedact: true, requireConfirmation: true };
+    }
+
+    try {
+      await this.redactionDb.initialize();
+      const deviceId = await getDeviceId();
+      const stored = await this.redactionDb.getUserPreferences(deviceId || '');
+      // Rows for this device override the ones without a device
+      stored.sort((a, b) => (a.device_id ? 1 : 0) - (b.device_id ? 1 : 0));
+      for (const preference of stored) {
+        preferences[preference.category] = {
+          autoRedact: preference.auto_redact,
+          requireConfirmation: preference.require_confirmation
+        };
+      }
+    } catch (error) {
+      console.warn('⚠️ [DocumentRedaction] Could not read redaction preferences, using defaults:', error);
+    }
+
+    return preferences;
+  }
+
+  async saveRedactionPreferences(preferences: RedactionPreferences): Promise<void> {
+    await this.redactionDb.initialize();
+    const deviceId = await getDeviceId();
+    if (!deviceId) {
+      throw new Error('No device ID available');
+    }
+    await this.updateUserRedactionPreferences(deviceId, REDACTION_CATEGORIES.map(category => ({
+      category,
+      auto_redact: preferences[category].autoRedact,
+      require_confirmation: preferences[category].requireConfirmation
+    })));
+  }
+
+  /**
+   * Sensitive content in a chat message, in the categories the options redact
+   */
+  async detectInText(text: string, options: DocumentProcessingOptions): Promise<SensitiveFinding[]> {
+    await this.initialize();
+    return this.detector.detect(text, {
+      categories: this.getEnabledCategories(options),
+      confidenceThreshold: options.confidenceThreshold
+    });
+  }
+
+  /**
+   * Mask findings from detectInText() the way document text is masked
+   */
+  async redactText(text: string, findings: SensitiveFinding[], options: DocumentProcessingOptions): Promise<string> {
+    return this.redactFindings(text, findings, options);
+  }
+
+  /**
+   * Record what the user did with a flagged chat message. Only the kinds of
+   * content found are kept, not the values.
+   */
+  async logTextRedactionDecision(
+    decision: TextRedactionLogEntry['decision'],
+    findings: SensitiveFinding[],
+    sessionId?: string | null
+  ): Promise<void> {
+    console.log(`📝 [DocumentRedaction] Flagged chat message: ${decision} (${findings.length} finding(s))`);
+    try {
+      await this.redactionDb.initialize();
+      await this.redactionDb.logTextRedaction({
+        session_id: sessionId ?? undefined,
+        decision,
+        finding_count: findings.length,
+        categories: JSON.stringify([...new Set(findings.map(finding => finding.category))]),
+        pattern_names: JSON.stringify([...new Set(findings.map(finding => finding.patternName))])
+      });
+    } catch (error) {
+      console.warn('⚠️ [DocumentRedaction] Could not log text redaction decision:', error);
+    }
+  }
+
+  /**
+   * Processing options that redact exactly the auto-redact categories
+   */
+  getProcessingOptions(preferences: RedactionPreferences): DocumentProcessingOptions {
+    return {
+      enablePIIRedaction: preferences.pii.autoRedact,
+      enableFinancialRedaction: preferences.financial.autoRedact,
+      enableMedicalRedaction: preferences.medical.autoRedact,
+      enableLegalRedaction: preferences.legal.autoRedact,
+      enableOtherRedaction: preferences.other.autoRedact,
+      enableMetadataRedaction: true,
+      confidenceThreshold: 0.7,
+      preserveFormatting: true,
+      userConfirmationRequired: REDACTION_CATEGORIES.some(category => preferences[category].requireConfirmation)
+    };
+  }
+
+  /**
+   * Whether the user has to confirm this document: some category found in it
+   * asks for confirmation, or nothing was found and any category does
+   */
+  requiresConfirmation(analysis: DocumentAnalysis, preferences: RedactionPreferences): boolean {
+    const foundCategories = new Set(
+      analysis.sections.flatMap(section => section.findings ?? []).map(finding => finding.category)
+    );
+    const categories = foundCategories.size > 0 ? [...foundCategories] : REDACTION_CATEGORIES;
+    return categories.some(category => preferences[category].requireConfirmation);
+  }
 }
 
 export default DocumentRedactionService;
@@ -0,0 +1,195 @@
+import LlamaService from './LlamaService';
+import RedactionDatabaseService, { EmbeddedTextSection } from './RedactionDatabaseService';
+
+/**
+ * Document Retrieval Service - offline answers from the user's own documents
+ *
+ * Every text section PDFAnnotationService stored is embedded with the
+ * downloaded embedding model and the vector kept in SQLite. A question is
+ * embedded the same way; the closest sections by cosine similarity are
+ * reranked (when a rerank model is downloaded) and the best few go into the
+ * offline prompt with their page numbers, so the answer can cite them.
+ */
+
+export interface RetrievedSection {
+  documentId: string;
+  fileName: string;
+  pageNumber: number; // 1-based, as cited
+  text: string;
+  score: number;
+}
+
+export interface RetrievalOptions {
+  // Candidates taken by cosine similarity, before reranking
+  topK?: number;
+  // Sections that go into the prompt
+  topN?: number;
+}
+
+// Sections are embedded a batch at a time, between answers, so indexing never holds one up
+const INDEX_BATCH_SIZE = 32;
+// Shorter sections (page numbers, stray headings) say nothing on their own
+const MIN_SECTION_CHARS = 40;
+// The question and a section share the reranker's 512-token context; Devanagari
+// takes several tokens per word, and a failed rerank keeps the similarity order
+const MAX_RERANK_CHARS = 600;
+// Offline models run with a small context, so each excerpt is cut to this
+const MAX_EXCERPT_CHARS = 500;
+const MIN_SIMILARITY = 0.3;
+
+export class DocumentRetrievalService {
+  private static instance: DocumentRetrievalService;
+  private llamaService = LlamaService.getInstance();
+  private db = RedactionDatabaseService.getInstance();
+  private indexing: Promise<number> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): DocumentRetrievalService {
+    if (!DocumentRetrievalService.instance) {
+      DocumentRetrievalService.instance = new DocumentRetrievalService();
+    }
+    return DocumentRetrievalService.instance;
+  }
+
+  /**
+   * Whether an embedding model is downloaded, without which there is nothing to search with
+   */
+  isAvailable(): boolean {
+    return this.llamaService.getRetrievalModel('embedding') !== null;
+  }
+
+  /**
+   * Embed up to `limit` stored sections that the current model has not tried
+   * yet. Returns how many were embedded.
+   */
+  async indexPendingSections(limit: number = INDEX_BATCH_SIZE): Promise<number> {
+    if (!this.indexing) {
+      this.indexing = this.indexBatch(limit).finally(() => {
+        this.indexing = null;
+      });
+    }
+    return this.indexing;
+  }
+
+  /**
+   * The sections that best answer the question, best first
+   */
+  async retrieve(question: string, options: RetrievalOptions = {}): Promise<RetrievedSection[]> {
+    const topK = options.topK ?? 8;
+    const topN = options.topN ?? 3;
+    const model = this.llamaService.getRetrievalModel('embedding');
+    if (!model || !question.trim()) {
+      return [];
+    }
+
+    const { embedding } = await this.llamaService.embedding(question);
+    const sections = await this.db.getEmbeddedTextSections(model.id);
+
+    const candidates = sections
+      .map(section => ({ section, score: this.cosineSimilarity(embedding, JSON.parse(section.embedding)) }))
+      .filter(candidate => candidate.score >= MIN_SIMILARITY)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    let ranked = candidates;
+    if (this.llamaService.getRetrievalModel('rerank')) {
+      try {
+        const results = await this.llamaService.rerank(
+          question,
+          candidates.map(candidate => candidate.section.content_text.slice(0, MAX_RERANK_CHARS))
+        );
+        ranked = [...results]
+          .sort((a, b) => b.score - a.score)
+          .map(result => ({ section: candidates[result.index].section, score: result.score }));
+      } catch (error) {
+        console.warn('⚠️ [Retrieval] Reranking failed, using similarity order:', error);
+      }
+    }
+
+    console.log(`📚 [Retrieval] ${sections.length} section(s) searched, ${candidates.length} candidate(s)`);
+    return ranked.slice(0, topN).map(({ section, score }) => this.toRetrievedSection(section, score));
+  }
+
+  /**
+   * The sections as a system prompt block, each labelled with where it came from
+   */
+  formatForPrompt(sections: RetrievedSection[]): string {
+    const excerpts = sections.map(section => `[${section.fileName}, p. ${section.pageNumber}]\n${section.text}`);
+    return [
+      "Excerpts from the user's documents:",
+      ...excerpts,
+      'When an excerpt answers the question, use it and cite it as it is labelled, e.g. ' +
+        `[${sections[0].fileName}, p. ${sections[0].pageNumber}]. If none does, answer without them.`
+    ].join('\n\n');
+  }
+
+  private async indexBatch(limit: number): Promise<number> {
+    const model = this.llamaService.getRetrievalModel('embedding');
+    if (!model) {
+      return 0;
+    }
+
+    // A model that does not load is not the sections' fault, so none are marked failed then
+    try {
+      await this.llamaService.loadRetrievalModel('embedding');
+    } catch (error) {
+      console.error('❌ [Retrieval] Embedding model did not load, not indexing:', error);
+      return 0;
+    }
+
+    await this.db.initialize();
+    const sections = await this.db.getUnembeddedTextAnnotations(model.id, MIN_SECTION_CHARS, limit);
+    let indexed = 0;
+
+    for (const section of sections) {
+      let embedding: number[] = [];
+      try {
+        embedding = (await this.llamaService.embedding(section.content_text)).embedding;
+      } catch (error) {
+        console.error(`❌ [Retrieval] Failed to embed section ${section.section_id}, skipping it:`, error);
+      }
+      await this.db.saveTextEmbedding(section.document_id, section.section_id, model.id, embedding);
+      if (embedding.length > 0) {
+        indexed++;
+      }
+    }
+
+    if (indexed > 0) {
+      console.log(`📚 [Retrieval] Embedded ${indexed} text section(s) with ${model.id}`);
+    }
+    return indexed;
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length === 0 || a.length !== b.length) {
+      return 0;
+    }
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+  }
+
+  private toRetrievedSection(section: EmbeddedTextSection, score: number): RetrievedSection {
+    const text = section.content_text.trim();
+    return {
+      documentId: section.document_id,
+      fileName: section.file_name,
+      pageNumber: section.page_number + 1,
+      text: text.length > MAX_EXCERPT_CHARS ? `${text.slice(0, MAX_EXCERPT_CHARS)}…` : text,
+      score
+    };
+  }
+}
+
+export default DocumentRetrievalService;
@@ -125,6 +125,16 @@ export interface OCRConfig {
   progressCallback?: (current: number, total: number, imageIndex: number) => void;
 }
 
+// A word found by OCR, with its position in the recognised image
+export interface OCRWord {
+  text: string;
+  confidence: number;
+  // Pixels in the recognised image: [x0, y0, x1, y1]
+  bbox: [number, number, number, number];
+  // Text line the word is on, counted in reading order
+  line: number;
+}
+
 class EnhancedPDFParser {
   private static instance: EnhancedPDFParser;
   private readonly POINTS_PER_INCH = 72; // PDF standard
@@ -306,6 +316,46 @@ class EnhancedPDFParser {
     }
   }
 
+  /**
+   * Recognise the words in an image with their boxes, e.g. to mask a photo.
+   * Throws when OCR is unavailable, since callers cannot tell "no text" from "not read".
+   */
+  async recognizeWords(
+    imageElement: HTMLImageElement | HTMLCanvasElement,
+    config: OCRConfig
+  ): Promise<OCRWord[]> {
+    await this.initializeOCR(config);
+    if (!this.ocrWorker || !this.ocrEnabled) {
+      throw new Error('OCR is not available');
+    }
+
+    const result = await this.ocrWorker.recognize(imageElement, {}, { blocks: true });
+    const words: OCRWord[] = [];
+    let line = 0;
+
+    for (const block of result.data.blocks || []) {
+      for (const paragraph of block.paragraphs) {
+        for (const textLine of paragraph.lines) {
+          for (const word of textLine.words) {
+            if (!word.text.trim()) {
+              continue;
+            }
+            words.push({
+              text: word.text,
+              confidence: word.confidence,
+              bbox: [word.bbox.x0, word.bbox.y0, word.bbox.x1, word.bbox.y1],
+              line
+            });
+          }
+          line++;
+        }
+      }
+    }
+
+    console.log(`🔍 [EnhancedPDFParser] Recognised ${words.length} words on ${line} lines`);
+    return words;
+  }
+
   // NEW: Detect language from image
   private async detectLanguage(
     imageElement: HTMLImageElement | HTMLCanvasElement
@@ -0,0 +1,102 @@
+import LlamaService from './LlamaService';
+import { JsonSchema } from '../js/jsonSchema';
+
+/**
+ * Farmer Query Service - turns a free-form question into a query form
+ *
+ * The loaded offline model reads the question and fills in the crop, the
+ * problem and the location, so the server's tools get fields they can use
+ * instead of prose. Nothing is extracted when no local model is loaded.
+ */
+
+export interface FarmerQueryForm {
+  crop: string | null;
+  problem: string;
+  location: string | null;
+}
+
+// What the model fills in; empty strings stand for "not mentioned"
+interface ExtractedQuery {
+  is_farming_question: boolean;
+  crop: string;
+  problem: string;
+  location: string;
+}
+
+const QUERY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    is_farming_question: { type: 'boolean' },
+    crop: { type: 'string', maxLength: 60, description: 'Crop or animal, empty if not mentioned' },
+    problem: { type: 'string', maxLength: 200, description: 'What the farmer needs help with, in a few words' },
+    location: { type: 'string', maxLength: 80, description: 'Village, district or state, empty if not mentioned' }
+  },
+  required: ['is_farming_question', 'crop', 'problem', 'location'],
+  additionalProperties: false
+};
+
+// The form is extra; past this the question is sent without it
+const EXTRACTION_TIMEOUT_MS = 8000;
+
+const SYSTEM_PROMPT =
+  'You read questions from farmers and fill in a form as JSON. ' +
+  'Copy the crop and location as the farmer wrote them, in English if you can translate them. ' +
+  'Leave a field empty when the question does not say it. Do not answer the question.';
+
+export class FarmerQueryService {
+  private static instance: FarmerQueryService;
+  private llamaService = LlamaService.getInstance();
+
+  private constructor() {}
+
+  public static getInstance(): FarmerQueryService {
+    if (!FarmerQueryService.instance) {
+      FarmerQueryService.instance = new FarmerQueryService();
+    }
+    return FarmerQueryService.instance;
+  }
+
+  /**
+   * Whether a local model is loaded to fill in the form with
+   */
+  isAvailable(): boolean {
+    return this.llamaService.getCurrentModel() !== null;
+  }
+
+  /**
+   * The form for a question, or null if it is not about farming or no model is loaded.
+   * Throws when the model takes longer than EXTRACTION_TIMEOUT_MS.
+   */
+  async extractForm(question: string): Promise<FarmerQueryForm | null> {
+    if (!question.trim() || !this.isAvailable()) {
+      return null;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), EXTRACTION_TIMEOUT_MS);
+    let extracted: ExtractedQuery;
+    try {
+      extracted = await this.llamaService.completeStructured<ExtractedQuery>(
+        [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: question }
+        ],
+        QUERY_SCHEMA,
+        { n_predict: 160, retries: 1, signal: controller.signal }
+      );
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (!extracted.is_farming_question || !extracted.problem.trim()) {
+      return null;
+    }
+    return {
+      crop: extracted.crop.trim() || null,
+      problem: extracted.problem.trim(),
+      location: extracted.location.trim() || null
+    };
+  }
+}
+
+export default FarmerQueryService;
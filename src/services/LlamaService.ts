@@ -1,7 +1,17 @@
-import { Capacitor } from '@capacitor/core';
+import { Capacitor, CapacitorHttp } from '@capacitor/core';
+import type { Directory } from '@capacitor/filesystem';
+import type { LlamaContext } from 'llama-cpp-capacitor';
 import { StoragePathService } from './StoragePathService';
+import { ModelCatalogService } from './ModelCatalogService';
+import { Sha256, base64ToBytes } from '../js/sha256';
+import { JsonSchema, validateJsonSchema } from '../js/jsonSchema';
 
 // Type definitions based on the actual llama-cpp-capacitor API
+export type ModelCapability = 'text' | 'vision' | 'audio' | 'embedding' | 'rerank' | 'lora';
+
+// Capabilities served by a small model of their own, next to the chat model
+export type RetrievalCapability = 'embedding' | 'rerank';
+
 export interface LlamaModel {
   id: string;
   name: string;
@@ -11,6 +21,15 @@ export interface LlamaModel {
   description?: string;
   url?: string;  // Add this
   size?: number; // Add this
+  sha256?: string; // Expected SHA-256 (hex) of the .gguf file, checked after download
+  capabilities?: ModelCapability[];
+  minRamGB?: number; // Minimum device RAM needed to run the model
+  contextParams?: Partial<ContextParams>; // Recommended context settings, applied on load
+  mmprojUrl?: string; // Multimodal projector required for image input (vision models)
+  mmprojSizeMB?: number;
+  mmprojSha256?: string;
+  baseModelId?: string; // LoRA adapters: the model they were trained on and can only be applied to
+  loraScale?: number; // LoRA adapters: scale to start from when first enabled
 }
 
 export interface CompletionMessage {
@@ -194,6 +213,30 @@ export interface NativeSessionLoadResult {
   prompt?: string;
 }
 
+export interface ModelDownloadOptions {
+  // Aborting stops the download between chunks; the partial file is kept for resume
+  signal?: AbortSignal;
+}
+
+export interface LoraAdapterSetting {
+  enabled: boolean;
+  scale: number;
+}
+
+export interface StructuredCompletionOptions {
+  // Further attempts when the output does not parse or match the schema
+  retries?: number;
+  n_predict?: number;
+  // GBNF grammar to sample with instead of the one generated from the schema
+  grammar?: string;
+  // Stops the running attempt and gives up
+  signal?: AbortSignal;
+}
+
+interface ResumableDownloadResult {
+  totalBytes: number;
+}
+
 export class LlamaService {
   private static instance: LlamaService;
   private llamaContext: any = null;
@@ -207,6 +250,7 @@ export class LlamaService {
       sizeMB: 461,
       status: 'available',
       description: 'Very small test model for debugging',
+      capabilities: ['text'],
       url: 'https://huggingface.co/TheBloke/TinyLlama-1.1B-Chat-v1.0-GGUF/resolve/main/tinyllama-1.1b-chat-v1.0.Q2_K.gguf'
     },
     {
@@ -215,6 +259,7 @@ export class LlamaService {
       sizeMB: 164,
       status: 'available',
       description: 'Biggie SmoLlm 0.15B Base model',
+      capabilities: ['text'],
       url: 'https://huggingface.co/QuantFactory/Biggie-SmoLlm-0.15B-Base-GGUF/resolve/main/Biggie-SmoLlm-0.15B-Base.Q8_0.gguf'
     },
     {
@@ -223,7 +268,9 @@ export class LlamaService {
       sizeMB: 670,
       status: 'available',
       description: 'LiquidAI LFM2 Vision Language model for image-to-text',
-      url: 'https://huggingface.co/LiquidAI/LFM2-VL-1.6B-GGUF/resolve/main/LFM2-VL-1.6B-Q4_0.gguf'
+      capabilities: ['text', 'vision'],
+      url: 'https://huggingface.co/LiquidAI/LFM2-VL-1.6B-GGUF/resolve/main/LFM2-VL-1.6B-Q4_0.gguf',
+      mmprojUrl: 'https://huggingface.co/LiquidAI/LFM2-VL-1.6B-GGUF/resolve/main/mmproj-LFM2-VL-1.6B-Q8_0.gguf'
     },
     // {
     //     id: 'llama_2',
@@ -349,6 +396,17 @@ export class LlamaService {
   ];
   private downloadedModels: LlamaModel[] = [];
   private currentModel: string | null = null;
+  private contextSize: number | null = null;
+  private visionReady = false;
+  // Bumped whenever the chat context's KV cache changes (load, completion, session load)
+  private contextRevision = 0;
+  // Which LoRA adapters the user turned on, and at what scale, by adapter id
+  private loraSettings: Record<string, LoraAdapterSetting> = {};
+  // Embedding and reranking contexts, loaded on first use
+  private retrievalContexts: Map<RetrievalCapability, { modelId: string; context: LlamaContext; nCtx: number }> = new Map();
+  private readonly DOWNLOAD_CHUNK_BYTES = 2 * 1024 * 1024; // Small chunks lose little progress on flaky connections
+  private readonly DOWNLOAD_MAX_RETRIES = 5;
+  private readonly EMBEDDING_TOKEN_MARGIN = 4; // Room for the BOS/EOS tokens the model adds
 
   private constructor() {
     // Private constructor for singleton pattern
@@ -382,6 +440,13 @@ export class LlamaService {
 
       // Load any previously downloaded models
       await this.loadDownloadedModels();
+      await this.loadLoraSettings();
+
+      // Use the last verified remote catalog, if any, instead of the built-in list
+      const cachedCatalog = await ModelCatalogService.getInstance().getCachedModels();
+      if (cachedCatalog) {
+        this.applyCatalog(cachedCatalog);
+      }
       
       this.isInitialized = true;
       console.log('LlamaService initialized successfully');
@@ -408,6 +473,64 @@ export class LlamaService {
     }
   }
 
+  /**
+   * Load the LoRA adapter choices, which are applied whenever their base model loads
+   */
+  private async loadLoraSettings(): Promise<void> {
+    try {
+      const { Preferences } = await import('@capacitor/preferences');
+      const { value } = await Preferences.get({ key: 'lora_adapter_settings' });
+
+      if (value) {
+        this.loraSettings = JSON.parse(value);
+      }
+    } catch (error) {
+      console.error('Failed to load LoRA adapter settings:', error);
+    }
+  }
+
+  /**
+   * Fetch the signed remote model catalog and use it as the available model list.
+   * Keeps the current list when the catalog is unreachable or fails verification.
+   */
+  async refreshModelCatalog(): Promise<LlamaModel[]> {
+    const models = await ModelCatalogService.getInstance().fetchRemoteModels();
+    if (models) {
+      this.applyCatalog(models);
+    }
+    return this.getAvailableModels();
+  }
+
+  /**
+   * Replace the available models with catalog entries. Download state is kept,
+   * and downloaded models that were retired from the catalog stay usable.
+   * Known models are updated in place, since a running download holds on to
+   * its model object and marks it downloaded when it finishes.
+   */
+  private applyCatalog(catalogModels: LlamaModel[]): void {
+    const previous = this.availableModels;
+
+    const merged: LlamaModel[] = catalogModels.map(entry => {
+      const existing = previous.find(model => model.id === entry.id);
+      const downloaded = this.downloadedModels.find(model => model.id === entry.id);
+      return Object.assign(existing ?? {}, entry, {
+        // What is on disk wins over the state of the previous list
+        status: downloaded?.status ?? existing?.status ?? entry.status,
+        path: downloaded?.path ?? existing?.path
+      });
+    });
+
+    for (const downloaded of this.downloadedModels) {
+      if (!merged.find(model => model.id === downloaded.id)) {
+        const existing = previous.find(model => model.id === downloaded.id);
+        merged.push(existing ?? { ...downloaded });
+      }
+    }
+
+    this.availableModels = merged;
+    console.log(`📚 Model catalog applied: ${catalogModels.length} model(s)`);
+  }
+
   /**
    * Get list of available models
    */
@@ -514,6 +637,22 @@ export class LlamaService {
 
       // Delete model files from all storage locations
       await this.deleteModelFile(modelId);
+      await this.discardPartialDownload(modelId);
+
+      const projector = this.getProjectorModel(model);
+      if (projector) {
+        await this.deleteModelFile(projector.id);
+        await this.discardPartialDownload(projector.id);
+      }
+
+      for (const [capability, loaded] of this.retrievalContexts) {
+        if (loaded.modelId === modelId) {
+          await this.releaseRetrievalContext(capability);
+        }
+      }
+
+      // Chat caches were evaluated with this model and cannot be used with another
+      await this.storagePathService.deleteSessionCaches(modelId);
 
       // Remove from downloaded models list
       this.downloadedModels = this.downloadedModels.filter(m => m.id !== modelId);
@@ -582,11 +721,12 @@ export class LlamaService {
   }
 
   /**
-   * Verify downloaded model integrity
+   * Verify downloaded model integrity - by SHA-256 when a checksum is known,
+   * otherwise by a size plausibility check
    */
-  private async verifyModelIntegrity(modelId: string): Promise<boolean> {
+  private async verifyModelIntegrity(modelId: string, expectedSha256?: string, fileModel?: LlamaModel): Promise<boolean> {
     try {
-      const model = this.getModel(modelId);
+      const model = this.getModel(modelId) || fileModel;
       if (!model) {
         return false;
       }
@@ -607,6 +747,15 @@ export class LlamaService {
         return false;
       }
 
+      // Hashing needs chunked file reads, which are only available natively
+      if (expectedSha256 && Capacitor.getPlatform() !== 'web') {
+        const location = this.storagePathService.getStorageLocations().find(loc => loc.id === primaryLocation);
+        const actualSha256 = await this.computeFileSha256(locationInfo.path, location?.directory);
+        const matches = actualSha256 === expectedSha256.toLowerCase();
+        console.log(`🔐 Checksum ${matches ? 'verified' : 'MISMATCH'} for ${modelId}: ${actualSha256} (expected: ${expectedSha256})`);
+        return matches;
+      }
+
       // Check if file size is reasonable
       const fileSizeBytes = locationInfo.size;
       const fileSizeMB = fileSizeBytes / (1024 * 1024);
@@ -619,6 +768,11 @@ export class LlamaService {
       
       console.log(`Size check: ${fileSizeMB.toFixed(2)}MB (min: ${minExpectedSize.toFixed(2)}MB, max: ${maxExpectedSize.toFixed(2)}MB)`);
       
+      // Files without a known size (e.g. projectors) only need to be non-trivial
+      if (!model.sizeMB) {
+        return fileSizeBytes > 1024 * 1024;
+      }
+
       return fileSizeBytes > 1024 * 1024 && // At least 1MB
              fileSizeMB >= minExpectedSize && 
              fileSizeMB <= maxExpectedSize;
@@ -629,11 +783,49 @@ export class LlamaService {
   }
 
   /**
-   * Download a model with proper file handling and existence checks
+   * Compute the SHA-256 of a file by streaming it in chunks
+   */
+  private async computeFileSha256(filePath: string, directory?: Directory): Promise<string> {
+    const { Filesystem } = await import('@capacitor/filesystem');
+    const hash = new Sha256();
+
+    await new Promise<void>((resolve, reject) => {
+      Filesystem.readFileInChunks({
+        path: filePath,
+        directory,
+        chunkSize: this.DOWNLOAD_CHUNK_BYTES
+      }, (chunk, error) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+
+        // An empty chunk marks the end of the file
+        if (!chunk || !chunk.data) {
+          resolve();
+          return;
+        }
+
+        try {
+          hash.update(base64ToBytes(chunk.data as string));
+        } catch (hashError) {
+          reject(hashError);
+        }
+      }).catch(reject);
+    });
+
+    return hash.digestHex();
+  }
+
+  /**
+   * Download a model with proper file handling and existence checks.
+   * Interrupted downloads are resumed from the partial file where the
+   * server supports HTTP Range requests.
    */
   async downloadModel(
     modelId: string, 
-    onProgress?: (progress: { loaded: number; total: number; percentage: number }) => void
+    onProgress?: (progress: { loaded: number; total: number; percentage: number }) => void,
+    options: ModelDownloadOptions = {}
   ): Promise<void> {
     try {
       const model = this.getModel(modelId);
@@ -655,10 +847,11 @@ export class LlamaService {
       console.log(`🔍 Model ${modelId} file exists check: ${fileExists}`);
       if (fileExists) {
         // Verify the existing file integrity
-        const isValid = await this.verifyModelIntegrity(modelId);
+        const isValid = await this.verifyModelIntegrity(modelId, model.sha256);
         console.log(`🔍 Model ${modelId} integrity check: ${isValid}`);
         if (isValid) {
           console.log(`✅ Model ${modelId} already exists and is valid, skipping download`);
+          await this.downloadProjector(model, onProgress, options);
           
           // Update model status and add to downloaded models if not already there
           model.status = 'downloaded';
@@ -684,9 +877,10 @@ export class LlamaService {
         console.log(`Model ${modelId} already marked as downloaded, checking filesystem...`);
         const fileExists = await this.checkModelFileExists(modelId);
         if (fileExists) {
-          const isValid = await this.verifyModelIntegrity(modelId);
+          const isValid = await this.verifyModelIntegrity(modelId, model.sha256);
           if (isValid) {
             console.log(`Model ${modelId} is already downloaded and valid`);
+            await this.downloadProjector(model, onProgress, options);
             return; // Skip download
           }
         }
@@ -696,36 +890,17 @@ export class LlamaService {
 
       model.status = 'downloading';
 
-      // Get the best available download path for the platform
-      const downloadInfo = await this.getModelDownloadPath(modelId);
-      const downloadPath = downloadInfo.path;
-      const storageLocation = downloadInfo.location;
-      
-      console.log(`Downloading model ${modelId} from ${model.url} to ${downloadPath} (location: ${storageLocation})`);
-
-      // Debug platform detection
-      const platform = Capacitor.getPlatform();
-      console.log(`🔍 Platform detection: ${platform}`);
-
-      // For web platform, use fetch with progress tracking
-      if (platform === 'web') {
-        console.log(`🌐 Using web download method for platform: ${platform}`);
-        await this.downloadModelWeb(model, downloadPath, onProgress, storageLocation);
-      } else {
-        console.log(`📱 Using native download method for platform: ${platform}`);
-        // For native platforms, use Capacitor HTTP with progress
-        await this.downloadModelNative(model, downloadPath, onProgress, storageLocation);
-      }
+      const { path: downloadPath, sha256: verifiedSha256 } = await this.transferModelFile(model, onProgress, options.signal);
 
-      // Verify the downloaded file
-      const isValid = await this.verifyModelIntegrity(modelId);
-      if (!isValid) {
-        throw new Error(`Downloaded model ${modelId} failed integrity check`);
-      }
+      // Vision models also need their projector before they are usable
+      await this.downloadProjector(model, onProgress, options);
 
       // Update model status and path
       model.status = 'downloaded';
       model.path = downloadPath;
+      if (verifiedSha256) {
+        model.sha256 = verifiedSha256;
+      }
       
       if (!this.downloadedModels.find(m => m.id === modelId)) {
         this.downloadedModels.push({ ...model });
@@ -735,14 +910,153 @@ export class LlamaService {
       console.log(`Model ${modelId} downloaded successfully to ${downloadPath}`);
     } catch (error) {
       const model = this.getModel(modelId);
-      if (model) {
-        model.status = 'error';
+      // A model that only lacked its projector stays usable for text
+      if (model && model.status !== 'downloaded') {
+        // A paused/cancelled download is not an error - the model can be downloaded again
+        model.status = options.signal?.aborted ? 'available' : 'error';
       }
       console.error(`Failed to download model ${modelId}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Transfer one model file (weights or projector) into the best storage
+   * location and verify it. Returns the stored path and the verified SHA-256.
+   */
+  private async transferModelFile(
+    file: LlamaModel,
+    onProgress?: (progress: { loaded: number; total: number; percentage: number }) => void,
+    signal?: AbortSignal
+  ): Promise<{ path: string; sha256?: string }> {
+    // Continue an interrupted download in its original location, otherwise
+    // get the best available download path for the platform
+    const partial = await this.storagePathService.findPartialModel(file.id);
+    const downloadInfo = partial
+      ? { path: this.storagePathService.getModelPath(file.id, partial.location.id), location: partial.location.id }
+      : await this.getModelDownloadPath(file.id);
+    const downloadPath = downloadInfo.path;
+    const storageLocation = downloadInfo.location;
+    
+    console.log(`Downloading ${file.id} from ${file.url} to ${downloadPath} (location: ${storageLocation})`);
+
+    // Debug platform detection
+    const platform = Capacitor.getPlatform();
+    console.log(`🔍 Platform detection: ${platform}`);
+
+    console.log(`📥 Using resumable download method for platform: ${platform}`);
+    const resumableResult = await this.downloadModelResumable(file, downloadPath, onProgress, storageLocation, signal);
+
+    if (!resumableResult) {
+      // Server ignores Range requests - fall back to a one-shot transfer
+      console.log(`📥 Range requests not supported, using File Transfer download`);
+      if (platform === 'web') {
+        await this.downloadModelWeb(file, downloadPath, onProgress, storageLocation, signal);
+      } else {
+        await this.downloadModelNative(file, downloadPath, onProgress, storageLocation);
+      }
+    }
+
+    // Verify the downloaded file. Only the catalog checksum is trusted: an ETag
+    // that looks like a SHA-256 is not necessarily the file's.
+    const expectedSha256 = file.sha256;
+    const isValid = await this.verifyModelIntegrity(file.id, expectedSha256, file);
+    if (!isValid) {
+      // A corrupt file can't be resumed - remove it so the next attempt starts clean
+      await this.deleteModelFile(file.id);
+      throw new Error(`Downloaded model ${file.id} failed integrity check`);
+    }
+
+    return { path: downloadPath, sha256: expectedSha256?.toLowerCase() };
+  }
+
+  /**
+   * Storage entry for a vision model's multimodal projector (mmproj), stored
+   * next to the weights as models/<id>_mmproj.gguf
+   */
+  private getProjectorModel(model: LlamaModel): LlamaModel | null {
+    if (!model.mmprojUrl) {
+      return null;
+    }
+    return {
+      id: `${model.id}_mmproj`,
+      name: `${model.name} projector`,
+      sizeMB: model.mmprojSizeMB ?? 0,
+      status: 'available',
+      url: model.mmprojUrl,
+      sha256: model.mmprojSha256
+    };
+  }
+
+  /**
+   * Download the projector of a vision model unless a valid copy is already stored
+   */
+  private async downloadProjector(
+    model: LlamaModel,
+    onProgress?: (progress: { loaded: number; total: number; percentage: number }) => void,
+    options: ModelDownloadOptions = {}
+  ): Promise<void> {
+    const projector = this.getProjectorModel(model);
+    if (!projector) {
+      return;
+    }
+
+    if (await this.checkModelFileExists(projector.id)) {
+      if (await this.verifyModelIntegrity(projector.id, projector.sha256, projector)) {
+        console.log(`✅ Projector for ${model.id} already downloaded`);
+        return;
+      }
+      await this.deleteModelFile(projector.id);
+    }
+
+    console.log(`🖼️ Downloading multimodal projector for ${model.id}`);
+    const { sha256 } = await this.transferModelFile(projector, onProgress, options.signal);
+    if (sha256) {
+      model.mmprojSha256 = sha256;
+    }
+
+    // The model may already be loaded without image input
+    if (this.llamaContext && this.currentModel === model.id) {
+      await this.loadProjector(model);
+    }
+  }
+
+  /**
+   * Whether a downloaded vision model lacks its projector, e.g. because it was
+   * downloaded before projectors came with the weights. Downloading the model
+   * again fetches only the projector.
+   */
+  async isProjectorMissing(modelId: string): Promise<boolean> {
+    const model = this.getModel(modelId);
+    const projector = model ? this.getProjectorModel(model) : null;
+    if (!model || !projector || model.status !== 'downloaded') {
+      return false;
+    }
+    return !(await this.storagePathService.getModelPrimaryLocation(projector.id));
+  }
+
+  /**
+   * Remove the partial file of an interrupted download
+   */
+  async discardPartialDownload(modelId: string): Promise<void> {
+    const { Filesystem } = await import('@capacitor/filesystem');
+
+    const partial = await this.storagePathService.findPartialModel(modelId);
+    if (!partial) {
+      return;
+    }
+
+    try {
+      await Filesystem.deleteFile({
+        path: partial.path,
+        directory: partial.location.directory
+      });
+      console.log(`🗑️ Discarded partial download of ${modelId} (${partial.size} bytes)`);
+    } catch (error) {
+      console.warn(`Failed to discard partial download of ${modelId}:`, error);
+    }
+  }
+
   /**
    * Get the download path for a model using the best available storage location
    * Prioritizes: External Storage > Documents > App Data > Cache
@@ -866,13 +1180,199 @@ export class LlamaService {
   }
 
   /**
-   * Download model using Capacitor File Transfer plugin
+   * Download a model in HTTP Range chunks appended to a .part file, so a
+   * dropped connection or app restart only loses the current chunk.
+   * Returns null when the server does not honour Range requests.
+   */
+  private async downloadModelResumable(
+    model: LlamaModel,
+    downloadPath: string,
+    onProgress?: (progress: { loaded: number; total: number; percentage: number }) => void,
+    storageLocation?: string,
+    signal?: AbortSignal
+  ): Promise<ResumableDownloadResult | null> {
+    const { Filesystem } = await import('@capacitor/filesystem');
+
+    const targetDirectory = this.getDirectoryForLocation(storageLocation);
+    const partialPath = `${downloadPath}.part`;
+
+    // Probe with a one-byte range to learn the total size and whether ranges are supported
+    const probe = await this.requestModelRange(model.url!, 0, 0, signal);
+    const contentRange = this.parseContentRange(this.getResponseHeader(probe.headers, 'content-range'));
+    if (probe.status !== 206 || !contentRange) {
+      return null;
+    }
+
+    const totalBytes = contentRange.total;
+
+    let offset = 0;
+    try {
+      offset = await this.getPartialFileSize(partialPath, targetDirectory);
+    } catch {
+      // No partial file yet - start from the beginning
+    }
+
+    if (offset > totalBytes) {
+      console.warn(`⚠️ Partial download of ${model.id} is larger than the remote file, restarting`);
+      await Filesystem.deleteFile({ path: partialPath, directory: targetDirectory });
+      offset = 0;
+    }
+
+    if (offset > 0) {
+      console.log(`⏯️ Resuming ${model.id} at ${(offset / (1024 * 1024)).toFixed(1)}MB of ${(totalBytes / (1024 * 1024)).toFixed(1)}MB`);
+    }
+
+    const reportProgress = () => {
+      if (onProgress) {
+        onProgress({
+          loaded: offset,
+          total: totalBytes,
+          percentage: totalBytes > 0 ? Math.round((offset / totalBytes) * 100) : 0
+        });
+      }
+    };
+    reportProgress();
+
+    while (offset < totalBytes) {
+      if (signal?.aborted) {
+        throw new Error(`Download of model ${model.id} was stopped`);
+      }
+
+      const end = Math.min(offset + this.DOWNLOAD_CHUNK_BYTES, totalBytes) - 1;
+      const base64Data = await this.downloadChunkWithRetry(model.url!, offset, end, signal);
+
+      await Filesystem.appendFile({
+        path: partialPath,
+        data: base64Data,
+        directory: targetDirectory
+      });
+
+      offset = end + 1;
+      reportProgress();
+    }
+
+    // Only a complete file gets the .gguf name, so it is never mistaken for a usable model
+    await Filesystem.rename({
+      from: partialPath,
+      to: downloadPath,
+      directory: targetDirectory,
+      toDirectory: targetDirectory
+    });
+
+    console.log(`✅ Resumable download of ${model.id} completed (${totalBytes} bytes)`);
+    return { totalBytes };
+  }
+
+  /**
+   * Bytes in a partial download. The web filesystem keeps files as base64 and
+   * reports that length as the size, so there the content is decoded instead.
+   */
+  private async getPartialFileSize(path: string, directory: Directory): Promise<number> {
+    const { Filesystem } = await import('@capacitor/filesystem');
+    if (Capacitor.getPlatform() !== 'web') {
+      return (await Filesystem.stat({ path, directory })).size;
+    }
+    const { data } = await Filesystem.readFile({ path, directory });
+    if (typeof data !== 'string') {
+      return data.size;
+    }
+    const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+    return (data.length * 3) / 4 - padding;
+  }
+
+  /**
+   * Fetch one byte range, retrying with exponential backoff. Returns the chunk as base64.
+   */
+  private async downloadChunkWithRetry(url: string, start: number, end: number, signal?: AbortSignal): Promise<string> {
+    const expectedLength = end - start + 1;
+    let lastError: unknown = null;
+
+    for (let attempt = 0; attempt <= this.DOWNLOAD_MAX_RETRIES; attempt++) {
+      if (signal?.aborted) {
+        break;
+      }
+
+      if (attempt > 0) {
+        const delay = Math.min(1000 * 2 ** (attempt - 1), 30000);
+        console.log(`🔄 Retrying bytes ${start}-${end} in ${delay}ms (attempt ${attempt}/${this.DOWNLOAD_MAX_RETRIES})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+
+      try {
+        const response = await this.requestModelRange(url, start, end, signal);
+        if (response.status !== 206) {
+          throw new Error(`Unexpected HTTP status ${response.status} for range ${start}-${end}`);
+        }
+
+        const base64Data = typeof response.data === 'string'
+          ? response.data.replace(/\s/g, '')
+          : this.uint8ArrayToBase64(new Uint8Array(response.data));
+
+        const padding = base64Data.endsWith('==') ? 2 : base64Data.endsWith('=') ? 1 : 0;
+        const receivedLength = (base64Data.length * 3) / 4 - padding;
+        if (receivedLength !== expectedLength) {
+          throw new Error(`Short read for range ${start}-${end}: got ${receivedLength} of ${expectedLength} bytes`);
+        }
+
+        return base64Data;
+      } catch (error) {
+        lastError = error;
+        console.warn(`⚠️ Chunk ${start}-${end} failed:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (signal?.aborted) {
+      throw new Error('Download was stopped');
+    }
+    throw lastError instanceof Error ? lastError : new Error(`Failed to download bytes ${start}-${end}`);
+  }
+
+  /**
+   * Issue a ranged GET through the native HTTP stack (fetch on the web, where
+   * the signal also cancels the request in flight)
+   */
+  private async requestModelRange(url: string, start: number, end: number, signal?: AbortSignal) {
+    if (signal?.aborted) {
+      throw new Error('Download was stopped');
+    }
+
+    return await CapacitorHttp.request({
+      url,
+      method: 'GET',
+      headers: { Range: `bytes=${start}-${end}` },
+      responseType: 'arraybuffer',
+      connectTimeout: 30000,
+      readTimeout: 60000,
+      webFetchExtra: { signal }
+    });
+  }
+
+  private getResponseHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+    if (!headers) {
+      return undefined;
+    }
+    const key = Object.keys(headers).find(header => header.toLowerCase() === name);
+    return key ? headers[key] : undefined;
+  }
+
+  private parseContentRange(value?: string): { start: number; end: number; total: number } | null {
+    const match = value?.match(/bytes\s+(\d+)-(\d+)\/(\d+)/i);
+    if (!match) {
+      return null;
+    }
+    return { start: Number(match[1]), end: Number(match[2]), total: Number(match[3]) };
+  }
+
+  /**
+   * Download model using Capacitor File Transfer plugin. A transfer in flight
+   * cannot be cancelled, so a stop only takes effect when it ends.
    */
   private async downloadModelWeb(
     model: LlamaModel, 
     downloadPath: string, 
     onProgress?: (progress: { loaded: number; total: number; percentage: number }) => void,
-    storageLocation?: string
+    storageLocation?: string,
+    signal?: AbortSignal
   ): Promise<void> {
     console.log(`🌐 Starting File Transfer download for: ${model.url}`);
     console.log(`🌐 Download path: ${downloadPath}`);
@@ -921,6 +1421,10 @@ export class LlamaService {
       }
       
       try {
+        if (signal?.aborted) {
+          throw new Error(`Download of model ${model.id} was stopped`);
+        }
+
         // Use FileTransfer plugin to download the file
         console.log(`🔄 Starting FileTransfer download...`);
         const result = await FileTransfer.downloadFile({
@@ -928,6 +1432,11 @@ export class LlamaService {
           path: fileInfo.uri,
           progress: true
         });
+
+        if (signal?.aborted) {
+          await Filesystem.deleteFile({ path: downloadPath, directory: targetDirectory }).catch(() => undefined);
+          throw new Error(`Download of model ${model.id} was stopped`);
+        }
         
         console.log(`✅ FileTransfer download completed successfully`);
         console.log(`📁 Downloaded to: ${result.path}`);
@@ -1111,37 +1620,7 @@ export class LlamaService {
         await this.releaseModel();
       }
 
-      // Get the model path from the storage system
-      let modelPath = model.path;
-      if (modelPath && !modelPath.startsWith('/') && !modelPath.startsWith('file://')) {
-        // Get the primary location where the model is stored
-        const primaryLocation = await this.storagePathService.getModelPrimaryLocation(modelId);
-        if (primaryLocation) {
-          const { Filesystem } = await import('@capacitor/filesystem');
-          try {
-            // Get the full URI for the model file
-            const uri = await Filesystem.getUri({
-              path: primaryLocation.path,
-              directory: primaryLocation.location.directory
-            });
-            modelPath = uri.uri;
-            console.log(`Full model path: ${modelPath}`);
-          } catch (error) {
-            console.error('Failed to get model URI:', error);
-            // Fallback to the stored path
-            modelPath = model.path;
-          }
-        }
-      }
-
-      // Convert pooling_type from string to number
-      const poolTypeMap = {
-        none: 0,
-        mean: 1,
-        cls: 2,
-        last: 3,
-        rank: 4,
-      };
+      const modelPath = await this.resolveModelPath(model);
 
              // Use extremely conservative parameters for mobile devices to avoid crashes
        const isMobile = Capacitor.getPlatform() === 'android' || Capacitor.getPlatform() === 'ios';
@@ -1155,24 +1634,107 @@ export class LlamaService {
          use_mmap: isMobile ? false : true, // Disable mmap on mobile
          use_mlock: false, // Always disable mlock to avoid permission issues
          pooling_type: 'none',
+         ...model.contextParams, // Catalog recommendation for this model
          ...contextParams
        };
 
-      // Convert pooling_type to number
-      if (params.pooling_type && typeof params.pooling_type === 'string') {
-        (params as any).pooling_type = poolTypeMap[params.pooling_type as keyof typeof poolTypeMap] || 0;
-      }
-
       this.llamaContext = await initLlama(params);
+      this.contextRevision++;
       this.currentModel = modelId;
+      this.contextSize = params.n_ctx ?? null;
+      this.visionReady = false;
 
       console.log(`Model ${modelId} loaded successfully`);
+
+      if (this.supportsVision(modelId)) {
+        await this.loadProjector(model);
+      }
+
+      await this.applyEnabledLoraAdapters();
     } catch (error) {
       console.error(`Failed to load model ${modelId}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Full path of a downloaded model file, from the storage system
+   */
+  private async resolveModelPath(model: LlamaModel): Promise<string | undefined> {
+    let modelPath = model.path;
+    if (modelPath && !modelPath.startsWith('/') && !modelPath.startsWith('file://')) {
+      // Get the primary location where the model is stored
+      const primaryLocation = await this.storagePathService.getModelPrimaryLocation(model.id);
+      if (primaryLocation) {
+        const { Filesystem } = await import('@capacitor/filesystem');
+        try {
+          // Get the full URI for the model file
+          const uri = await Filesystem.getUri({
+            path: primaryLocation.path,
+            directory: primaryLocation.location.directory
+          });
+          modelPath = uri.uri;
+          console.log(`Full model path: ${modelPath}`);
+        } catch (error) {
+          console.error('Failed to get model URI:', error);
+          // Fallback to the stored path
+          modelPath = model.path;
+        }
+      }
+    }
+    return modelPath;
+  }
+
+  /**
+   * Initialise image input for a vision model from its downloaded projector.
+   * A missing or broken projector leaves the model usable for text only.
+   */
+  private async loadProjector(model: LlamaModel): Promise<void> {
+    const projector = this.getProjectorModel(model);
+    if (!projector) {
+      console.warn(`⚠️ [VISION] Model ${model.id} has no projector, image input disabled`);
+      return;
+    }
+
+    try {
+      const primaryLocation = await this.storagePathService.getModelPrimaryLocation(projector.id);
+      if (!primaryLocation) {
+        console.warn(`⚠️ [VISION] Projector for ${model.id} is not downloaded, image input disabled`);
+        return;
+      }
+
+      const { Filesystem } = await import('@capacitor/filesystem');
+      const uri = await Filesystem.getUri({
+        path: primaryLocation.path,
+        directory: primaryLocation.location.directory
+      });
+
+      this.visionReady = await this.initMultimodal({
+        path: uri.uri.replace(/^file:\/\//, ''),
+        use_gpu: false
+      });
+      console.log(`🖼️ [VISION] Multimodal projector ${this.visionReady ? 'loaded' : 'failed to load'} for ${model.id}`);
+    } catch (error) {
+      console.error(`❌ [VISION] Failed to load projector for ${model.id}:`, error);
+      this.visionReady = false;
+    }
+  }
+
+  /**
+   * Whether a model can take images (defaults to the loaded model)
+   */
+  supportsVision(modelId: string | null = this.currentModel): boolean {
+    const model = modelId ? this.getModel(modelId) : undefined;
+    return !!model?.capabilities?.includes('vision');
+  }
+
+  /**
+   * Whether the loaded model has its projector initialised and accepts images
+   */
+  isVisionReady(): boolean {
+    return this.llamaContext !== null && this.visionReady;
+  }
+
   /**
    * Generate text completion using the correct API
    */
@@ -1200,6 +1762,7 @@ export class LlamaService {
         ...params
       };
 
+      this.contextRevision++;
       const result = await this.llamaContext.completion(completionParams, onToken);
 
       // Transform the result to match our interface
@@ -1247,15 +1810,21 @@ export class LlamaService {
   }
 
   /**
-   * Get text embeddings using the correct API
+   * Get text embeddings using the correct API. Text longer than the embedding
+   * model's context is cut to fit.
    */
   async embedding(text: string, params?: EmbeddingParams): Promise<NativeEmbeddingResult> {
     try {
-      if (!this.llamaContext) {
+      // A downloaded embedding model is used over the chat model, which is not loaded for embeddings
+      const retrievalContext = await this.getRetrievalContext('embedding');
+      const context = retrievalContext ?? this.llamaContext;
+      if (!context) {
         throw new Error('No model loaded. Please load a model first.');
       }
 
-      const result = await this.llamaContext.embedding(text, params);
+      const maxTokens = (this.retrievalContexts.get('embedding')?.nCtx ?? 512) - this.EMBEDDING_TOKEN_MARGIN;
+      const input = retrievalContext ? await this.truncateToTokens(retrievalContext, text, maxTokens) : text;
+      const result = await context.embedding(input, params);
       return {
         embedding: result.embedding || [],
         n_embd: result.n_embd || 0
@@ -1271,17 +1840,103 @@ export class LlamaService {
    */
   async rerank(query: string, documents: string[], params?: RerankParams): Promise<RerankResult[]> {
     try {
-      if (!this.llamaContext) {
+      const context = (await this.getRetrievalContext('rerank')) ?? this.llamaContext;
+      if (!context) {
         throw new Error('No model loaded. Please load a model first.');
       }
 
-      return await this.llamaContext.rerank(query, documents, params);
+      return await context.rerank(query, documents, params);
     } catch (error) {
       console.error('Failed to rerank documents:', error);
       throw error;
     }
   }
 
+  /**
+   * Load the downloaded model for a retrieval capability ahead of use. Returns
+   * false when there is none; throws when it does not load.
+   */
+  async loadRetrievalModel(capability: RetrievalCapability): Promise<boolean> {
+    return (await this.getRetrievalContext(capability)) !== null;
+  }
+
+  /**
+   * The start of the text that fits in `maxTokens`. Characters are no measure:
+   * Devanagari takes several tokens per word.
+   */
+  private async truncateToTokens(context: LlamaContext, text: string, maxTokens: number): Promise<string> {
+    const { tokens } = await context.tokenize(text);
+    if (tokens.length <= maxTokens) {
+      return text;
+    }
+    return context.detokenize(tokens.slice(0, maxTokens));
+  }
+
+  /**
+   * Whether a model only serves document search (embedding or reranking) and cannot chat
+   */
+  isRetrievalModel(model: LlamaModel): boolean {
+    const capabilities = model.capabilities ?? [];
+    return !capabilities.includes('text') && (capabilities.includes('embedding') || capabilities.includes('rerank'));
+  }
+
+  /**
+   * The downloaded model that provides a retrieval capability, if any
+   */
+  getRetrievalModel(capability: RetrievalCapability): LlamaModel | null {
+    return this.downloadedModels.find(model => model.capabilities?.includes(capability)) || null;
+  }
+
+  /**
+   * Context of the downloaded model for a retrieval capability, loaded on first use
+   */
+  private async getRetrievalContext(capability: RetrievalCapability): Promise<LlamaContext | null> {
+    const model = this.getRetrievalModel(capability);
+    const loaded = this.retrievalContexts.get(capability);
+    if (loaded && loaded.modelId === model?.id) {
+      return loaded.context;
+    }
+    if (loaded) {
+      await this.releaseRetrievalContext(capability);
+    }
+    if (!model) {
+      return null;
+    }
+
+    const { initLlama } = await import('llama-cpp-capacitor');
+    const isMobile = Capacitor.getPlatform() === 'android' || Capacitor.getPlatform() === 'ios';
+    const params: ContextParams = {
+      model: (await this.resolveModelPath(model)) || model.id,
+      n_ctx: 512, // Sections and questions are short
+      n_batch: 512,
+      n_threads: isMobile ? 1 : 4,
+      n_gpu_layers: 0,
+      use_mmap: !isMobile,
+      use_mlock: false,
+      embedding: true,
+      pooling_type: capability === 'rerank' ? 'rank' : 'mean',
+      ...model.contextParams
+    };
+
+    const context = await initLlama(params);
+    this.retrievalContexts.set(capability, { modelId: model.id, context, nCtx: params.n_ctx ?? 512 });
+    console.log(`📚 Loaded ${capability} model ${model.id}`);
+    return context;
+  }
+
+  private async releaseRetrievalContext(capability: RetrievalCapability): Promise<void> {
+    const loaded = this.retrievalContexts.get(capability);
+    if (!loaded) {
+      return;
+    }
+    this.retrievalContexts.delete(capability);
+    try {
+      await loaded.context.release();
+    } catch (error) {
+      console.error(`Failed to release ${capability} model:`, error);
+    }
+  }
+
   /**
    * Benchmark model performance using the correct API
    */
@@ -1410,6 +2065,95 @@ export class LlamaService {
     }
   }
 
+  /**
+   * Whether a model is a LoRA adapter, which is applied on top of its base model
+   * rather than loaded on its own
+   */
+  isLoraAdapter(model: LlamaModel): boolean {
+    return (model.capabilities ?? []).includes('lora');
+  }
+
+  /**
+   * The catalog's LoRA adapters for a base model, downloaded or not
+   */
+  getLoraAdapters(baseModelId: string): LlamaModel[] {
+    return this.availableModels.filter(model => this.isLoraAdapter(model) && model.baseModelId === baseModelId);
+  }
+
+  getLoraSetting(adapterId: string): LoraAdapterSetting {
+    const adapter = this.getModel(adapterId);
+    return this.loraSettings[adapterId] ?? { enabled: false, scale: adapter?.loraScale ?? 1 };
+  }
+
+  /**
+   * Turn an adapter on or off or change its scale. Applied right away when its
+   * base model is loaded, and on every later load of it.
+   */
+  async setLoraAdapter(adapterId: string, setting: LoraAdapterSetting): Promise<void> {
+    this.loraSettings = { ...this.loraSettings, [adapterId]: setting };
+    try {
+      const { Preferences } = await import('@capacitor/preferences');
+      await Preferences.set({ key: 'lora_adapter_settings', value: JSON.stringify(this.loraSettings) });
+    } catch (error) {
+      console.error('Failed to save LoRA adapter settings:', error);
+    }
+
+    const adapter = this.getModel(adapterId);
+    if (adapter?.baseModelId && adapter.baseModelId === this.currentModel) {
+      await this.applyEnabledLoraAdapters();
+    }
+  }
+
+  /**
+   * The enabled adapters and scales for a model (the loaded one by default), as a
+   * stable string. Output evaluated with other adapters (such as a saved KV cache)
+   * does not match.
+   */
+  getLoraSignature(modelId: string | null = this.currentModel): string {
+    if (!modelId) {
+      return '';
+    }
+    return this.getLoraAdapters(modelId)
+      .filter(adapter => adapter.status === 'downloaded' && this.getLoraSetting(adapter.id).enabled)
+      .map(adapter => `${adapter.id}@${this.getLoraSetting(adapter.id).scale}`)
+      .sort()
+      .join(',');
+  }
+
+  /**
+   * Replace the adapters on the loaded model with the enabled, downloaded ones.
+   * An adapter that fails to apply leaves the base model usable.
+   */
+  private async applyEnabledLoraAdapters(): Promise<void> {
+    if (!this.llamaContext || !this.currentModel) {
+      return;
+    }
+
+    const loraList: Array<{ path: string; scaled?: number }> = [];
+    for (const adapter of this.getLoraAdapters(this.currentModel)) {
+      const setting = this.getLoraSetting(adapter.id);
+      if (!setting.enabled || setting.scale === 0 || adapter.status !== 'downloaded') {
+        continue;
+      }
+      const path = await this.resolveModelPath(adapter);
+      if (path) {
+        loraList.push({ path: path.replace(/^file:\/\//, ''), scaled: setting.scale });
+      }
+    }
+
+    try {
+      await this.removeLoraAdapters();
+      if (loraList.length > 0) {
+        await this.applyLoraAdapters(loraList);
+        console.log(`🧩 Applied ${loraList.length} LoRA adapter(s) to ${this.currentModel}`);
+      }
+    } catch (error) {
+      console.warn(`⚠️ LoRA adapters could not be applied to ${this.currentModel}, using the base model:`, error);
+    }
+    // Cached prompts were evaluated with the previous adapters
+    this.contextRevision++;
+  }
+
   /**
    * Remove LoRA adapters using the correct API
    */
@@ -1451,6 +2195,7 @@ export class LlamaService {
         throw new Error('No model loaded. Please load a model first.');
       }
 
+      this.contextRevision++;
       const result = await this.llamaContext.loadSession(filepath);
       return {
         tokens: result.tokens || [],
@@ -1473,6 +2218,8 @@ export class LlamaService {
         await this.llamaContext.release();
         this.llamaContext = null;
         this.currentModel = null;
+        this.contextSize = null;
+        this.visionReady = false;
       }
     } catch (error) {
       console.error('Failed to release model:', error);
@@ -1487,6 +2234,21 @@ export class LlamaService {
     return this.currentModel;
   }
 
+  /**
+   * Changes whenever the chat context's KV cache may have changed, so a caller
+   * can tell whether it still holds what was last evaluated
+   */
+  getContextRevision(): number {
+    return this.contextRevision;
+  }
+
+  /**
+   * Get the context window (n_ctx) the current model was loaded with
+   */
+  getContextSize(): number | null {
+    return this.contextSize;
+  }
+
   /**
    * Check if a model is loaded
    */
@@ -1531,6 +2293,8 @@ export class LlamaService {
       await releaseAllLlama();
       this.llamaContext = null;
       this.currentModel = null;
+      this.contextSize = null;
+      this.visionReady = false;
       this.isInitialized = false;
       console.log('LlamaService released successfully');
     } catch (error) {
@@ -1750,7 +2514,7 @@ export class LlamaService {
         const role = message.role;
         const content = typeof message.content === 'string' 
           ? message.content 
-          : message.content.map(item => item.text || '').join('');
+          : message.content.map(item => item.type === 'image_url' ? '<__media__>' : item.text || '').join('');
         
         switch (role) {
           case 'system':
@@ -1820,9 +2584,16 @@ export class LlamaService {
       console.log(`🔄 [LOCAL DEBUG] Formatted prompt type:`, typeof formattedPrompt);
       console.log(`🔄 [LOCAL DEBUG] Formatted prompt length:`, formattedPrompt.length);
       
+      // Images attached to the messages are passed to the projector alongside the prompt
+      const mediaPaths = this.collectMediaPaths(messages);
+      if (mediaPaths.length > 0 && !this.visionReady) {
+        throw new Error('The loaded model cannot read images. Download a vision model to analyse photos offline.');
+      }
+
       // Prepare completion parameters with better defaults
       const completionParams: CompletionParams = {
         prompt: formattedPrompt,
+        ...(mediaPaths.length > 0 ? { media_paths: mediaPaths } : {}),
         n_predict: 256,
         temperature: 0.7,
         top_p: 0.9,
@@ -1840,6 +2611,7 @@ export class LlamaService {
         stop: completionParams.stop
       });
       
+      this.contextRevision++;
       const result = await this.llamaContext.completion(completionParams, onToken);
 
       console.log(`✅ [LOCAL DEBUG] Completion generated successfully`);
@@ -1861,6 +2633,103 @@ export class LlamaService {
       throw error;
     }
   }
+
+  /**
+   * Complete the chat as JSON matching the schema and return it parsed. Sampling
+   * is constrained by the schema; output that still does not parse or validate
+   * is sent back to the model with the errors, up to `retries` times.
+   */
+  async completeStructured<T>(
+    messages: CompletionMessage[],
+    schema: JsonSchema,
+    options: StructuredCompletionOptions = {}
+  ): Promise<T> {
+    const retries = options.retries ?? 2;
+    const conversation = [...messages];
+    let lastErrors: string[] = [];
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      const result = await this.completionWithSignal(conversation, {
+        n_predict: options.n_predict ?? 256,
+        temperature: 0.2,
+        ...(options.grammar
+          ? { grammar: options.grammar }
+          : { response_format: { type: 'json_schema' as const, json_schema: { schema, strict: true } } })
+      }, options.signal);
+      const output = (result.text || result.content || '').trim();
+
+      try {
+        const parsed: unknown = JSON.parse(this.extractJson(output));
+        lastErrors = validateJsonSchema(parsed, schema);
+        if (lastErrors.length === 0) {
+          return parsed as T;
+        }
+      } catch (error) {
+        lastErrors = [`not valid JSON: ${error instanceof Error ? error.message : String(error)}`];
+      }
+
+      console.warn(`⚠️ [STRUCTURED] Attempt ${attempt + 1} of ${retries + 1} failed:`, lastErrors);
+      conversation.push(
+        { role: 'assistant', content: output },
+        { role: 'user', content: `That reply is invalid: ${lastErrors.join('; ')}. Reply with only the corrected JSON.` }
+      );
+    }
+
+    throw new Error(`Structured completion failed after ${retries + 1} attempt(s): ${lastErrors.join('; ')}`);
+  }
+
+  /**
+   * completionWithFormattedChat that stops generating when the signal aborts
+   */
+  private async completionWithSignal(
+    messages: CompletionMessage[],
+    params: Omit<CompletionParams, 'prompt' | 'messages'>,
+    signal?: AbortSignal
+  ): Promise<CompletionResult> {
+    if (signal?.aborted) {
+      throw new Error('Completion aborted');
+    }
+    const stop = () => {
+      this.stopCompletion().catch(() => undefined); // Nothing running any more
+    };
+    signal?.addEventListener('abort', stop);
+    try {
+      const result = await this.completionWithFormattedChat(messages, params);
+      if (signal?.aborted) {
+        throw new Error('Completion aborted');
+      }
+      return result;
+    } finally {
+      signal?.removeEventListener('abort', stop);
+    }
+  }
+
+  /**
+   * The JSON value in model output, without code fences or text around it
+   */
+  private extractJson(output: string): string {
+    const start = output.search(/[{[]/);
+    const end = Math.max(output.lastIndexOf('}'), output.lastIndexOf(']'));
+    return start !== -1 && end > start ? output.slice(start, end + 1) : output;
+  }
+
+  /**
+   * Local file paths of the image_url parts in chat messages, in prompt order
+   */
+  private collectMediaPaths(messages: CompletionMessage[]): string[] {
+    const paths: string[] = [];
+    for (const message of messages) {
+      if (typeof message.content === 'string') {
+        continue;
+      }
+      for (const part of message.content) {
+        if (part.type === 'image_url' && part.image_url?.url) {
+          paths.push(part.image_url.url.replace(/^file:\/\//, ''));
+        }
+      }
+    }
+    return paths;
+  }
 }
 
 export default LlamaService;
\ No newline at end of file
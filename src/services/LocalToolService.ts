@@ -0,0 +1,203 @@
+import LlamaService, { CompletionMessage } from './LlamaService';
+import { JsonSchema, validateJsonSchema } from '../js/jsonSchema';
+
+/**
+ * Local Tool Service - functions the offline model can call
+ *
+ * App modules register tools with a JSON Schema for their arguments. Before
+ * the offline answer is generated, the model is asked (as schema-constrained
+ * JSON, since chat templates run without jinja and the plugin never parses
+ * native tool calls) whether a tool would help. Requested tools are run and
+ * their results added to the conversation, so sums, lookups and history come
+ * from code rather than from the model.
+ */
+
+export interface LocalTool<A = Record<string, unknown>> {
+  // snake_case, as the model writes it
+  name: string;
+  description: string;
+  // Object schema for the arguments
+  parameters: JsonSchema;
+  run: (args: A) => Promise<unknown>;
+}
+
+export interface ToolStep {
+  tool: string;
+  arguments: Record<string, unknown>;
+  result?: string;
+  error?: string;
+}
+
+export interface ToolLoopOptions {
+  // Tool calls allowed before the model has to answer
+  maxSteps?: number;
+  // Called after each step, with all steps so far
+  onStep?: (steps: ToolStep[]) => void;
+  // Stops the running tool decision and makes resolveToolCalls reject
+  signal?: AbortSignal;
+}
+
+export interface ToolLoopResult {
+  // The conversation with the tool calls and their results, ready for the answer
+  messages: CompletionMessage[];
+  steps: ToolStep[];
+}
+
+interface ToolDecision {
+  tool: string;
+  arguments: Record<string, unknown>;
+}
+
+const NO_TOOL = 'none';
+// Results are cut to this so they fit the small offline context
+const MAX_RESULT_CHARS = 1200;
+
+export class LocalToolService {
+  private static instance: LocalToolService;
+  private llamaService = LlamaService.getInstance();
+  private tools: Map<string, LocalTool> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): LocalToolService {
+    if (!LocalToolService.instance) {
+      LocalToolService.instance = new LocalToolService();
+    }
+    return LocalToolService.instance;
+  }
+
+  /**
+   * Make a tool available to the offline model. Returns a function that removes it.
+   */
+  register<A>(tool: LocalTool<A>): () => void {
+    if (this.tools.has(tool.name)) {
+      console.warn(`⚠️ [Tools] Replacing tool ${tool.name}`);
+    }
+    const registered = tool as unknown as LocalTool;
+    this.tools.set(tool.name, registered);
+    return () => {
+      if (this.tools.get(tool.name) === registered) {
+        this.tools.delete(tool.name);
+      }
+    };
+  }
+
+  getTools(): LocalTool[] {
+    return Array.from(this.tools.values());
+  }
+
+  /**
+   * Let the model call tools until it has what it needs, then return the
+   * conversation to generate the answer from. Without tools the messages are
+   * returned as they are.
+   */
+  async resolveToolCalls(messages: CompletionMessage[], options: ToolLoopOptions = {}): Promise<ToolLoopResult> {
+    const tools = this.getTools();
+    const steps: ToolStep[] = [];
+    if (tools.length === 0) {
+      return { messages, steps };
+    }
+
+    const maxSteps = options.maxSteps ?? 3;
+    const decisionSchema: JsonSchema = {
+      type: 'object',
+      properties: {
+        tool: { type: 'string', enum: [...tools.map(tool => tool.name), NO_TOOL] },
+        arguments: { type: 'object' }
+      },
+      required: ['tool', 'arguments'],
+      additionalProperties: false
+    };
+    const exchange: CompletionMessage[] = [];
+
+    while (steps.length < maxSteps) {
+      const decision = await this.llamaService.completeStructured<ToolDecision>(
+        [...this.withToolPrompt(messages, tools, steps.length > 0), ...exchange],
+        decisionSchema,
+        { n_predict: 200, signal: options.signal }
+      );
+      if (decision.tool === NO_TOOL) {
+        break;
+      }
+
+      const step = await this.runTool(decision.tool, decision.arguments);
+      steps.push(step);
+      console.log(`🔧 [Tools] ${step.tool}:`, step.error ?? step.result);
+      options.onStep?.([...steps]);
+
+      exchange.push(
+        { role: 'assistant', content: JSON.stringify({ tool: decision.tool, arguments: decision.arguments }) },
+        {
+          role: 'user',
+          content: step.error
+            ? `The ${step.tool} tool failed: ${step.error}`
+            : `Result of ${step.tool}: ${step.result}`
+        }
+      );
+    }
+
+    if (steps.length === 0) {
+      return { messages, steps };
+    }
+    return {
+      messages: [
+        ...messages,
+        ...exchange,
+        { role: 'user', content: 'Now answer my question using these results. Copy numbers from them exactly.' }
+      ],
+      steps
+    };
+  }
+
+  private async runTool(name: string, args: Record<string, unknown>): Promise<ToolStep> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return { tool: name, arguments: args, error: 'No such tool' };
+    }
+
+    const errors = validateJsonSchema(args, tool.parameters, '$.arguments');
+    if (errors.length > 0) {
+      return { tool: name, arguments: args, error: `Invalid arguments: ${errors.join('; ')}` };
+    }
+
+    try {
+      const output = await tool.run(args);
+      const result = typeof output === 'string' ? output : JSON.stringify(output);
+      return {
+        tool: name,
+        arguments: args,
+        result: result.length > MAX_RESULT_CHARS ? `${result.slice(0, MAX_RESULT_CHARS)}…` : result
+      };
+    } catch (error) {
+      return { tool: name, arguments: args, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * The messages with the tool list added to the new user message. The system
+   * prompt and history stay as they are, so their KV cache can be reused.
+   */
+  private withToolPrompt(messages: CompletionMessage[], tools: LocalTool[], hasResults: boolean): CompletionMessage[] {
+    const descriptions = tools.map(tool =>
+      `- ${tool.name}: ${tool.description}\n  arguments: ${JSON.stringify(tool.parameters)}`
+    );
+    const toolPrompt = [
+      'You can call these tools to help answer the user:',
+      ...descriptions,
+      'Reply with JSON naming one tool and its arguments, e.g. {"tool": "convert_units", "arguments": {...}}. ' +
+        `Use a tool for any calculation or lookup it covers. Reply {"tool": "${NO_TOOL}", "arguments": {}} when ` +
+        (hasResults ? 'the results so far are enough to answer.' : 'no tool is needed.')
+    ].join('\n');
+
+    const last = messages[messages.length - 1];
+    if (last?.role !== 'user') {
+      return [...messages, { role: 'user', content: toolPrompt }];
+    }
+    const content = typeof last.content === 'string'
+      ? `${last.content}\n\n${toolPrompt}`
+      : [...last.content, { type: 'text' as const, text: toolPrompt }];
+    return [...messages.slice(0, -1), { role: 'user', content }];
+  }
+}
+
+export default LocalToolService;
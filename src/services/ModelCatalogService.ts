@@ -0,0 +1,245 @@
+import config from '../config/environment';
+import { getDeviceMemoryGB } from './DeviceInfoService';
+import { base64ToBytes } from '../js/sha256';
+import type { ContextParams, LlamaModel, ModelCapability } from './LlamaService';
+
+/**
+ * Remote catalog of downloadable GGUF models.
+ *
+ * The server returns a signed envelope: `payload` is the catalog JSON as a
+ * string and `signature` is an ECDSA P-256 / SHA-256 signature over exactly
+ * that string (base64, IEEE P1363 r||s as produced by WebCrypto). Only a
+ * catalog that verifies against the bundled public key is used; the last
+ * verified envelope is cached in Preferences for offline starts.
+ */
+
+interface SignedCatalogEnvelope {
+  payload: string;
+  signature: string;
+}
+
+interface CatalogModelEntry {
+  id: string;
+  name: string;
+  size_mb: number;
+  url: string;
+  sha256?: string;
+  description?: string;
+  capabilities?: ModelCapability[];
+  min_ram_gb?: number;
+  context_params?: Partial<ContextParams>;
+  mmproj_url?: string;
+  mmproj_size_mb?: number;
+  mmproj_sha256?: string;
+  // LoRA adapters only
+  base_model_id?: string;
+  lora_scale?: number;
+}
+
+interface CatalogPayload {
+  version: number;
+  models: CatalogModelEntry[];
+}
+
+const CATALOG_CACHE_KEY = 'model_catalog';
+const CATALOG_ENDPOINT = '/models/catalog';
+const CATALOG_FETCH_TIMEOUT_MS = 10000;
+const CAPABILITIES: ModelCapability[] = ['text', 'vision', 'audio', 'embedding', 'rerank', 'lora'];
+
+export class ModelCatalogService {
+  private static instance: ModelCatalogService;
+  private publicKey: CryptoKey | null = null;
+  // Read with each catalog load, so the model list is filtered once it arrives
+  private deviceMemoryGB: number | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): ModelCatalogService {
+    if (!ModelCatalogService.instance) {
+      ModelCatalogService.instance = new ModelCatalogService();
+    }
+    return ModelCatalogService.instance;
+  }
+
+  /**
+   * Models from the last verified catalog, or null if none has been cached
+   */
+  async getCachedModels(): Promise<LlamaModel[] | null> {
+    this.deviceMemoryGB = await getDeviceMemoryGB();
+    try {
+      const { Preferences } = await import('@capacitor/preferences');
+      const { value } = await Preferences.get({ key: CATALOG_CACHE_KEY });
+      if (!value) {
+        return null;
+      }
+
+      // Re-verify so a tampered cache is never trusted
+      const catalog = await this.verifyEnvelope(JSON.parse(value));
+      return catalog ? this.toLlamaModels(catalog) : null;
+    } catch (error) {
+      console.error('❌ [CATALOG] Failed to read cached catalog:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Fetch, verify and cache the remote catalog. Returns null when it is
+   * unreachable, fails verification or is older than the cached one.
+   */
+  async fetchRemoteModels(): Promise<LlamaModel[] | null> {
+    this.deviceMemoryGB = await getDeviceMemoryGB();
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), CATALOG_FETCH_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(`${config.apiBaseUrl}${CATALOG_ENDPOINT}`, {
+        headers: { 'Accept': 'application/json' },
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        throw new Error(`Catalog request failed with status ${response.status}`);
+      }
+
+      const envelope: SignedCatalogEnvelope = await response.json();
+      const catalog = await this.verifyEnvelope(envelope);
+      if (!catalog) {
+        return null;
+      }
+
+      // Refuse to roll back to an older catalog
+      const cachedVersion = await this.getCachedVersion();
+      if (cachedVersion !== null && catalog.version < cachedVersion) {
+        console.warn(`⚠️ [CATALOG] Ignoring catalog v${catalog.version}, older than cached v${cachedVersion}`);
+        return null;
+      }
+
+      const { Preferences } = await import('@capacitor/preferences');
+      await Preferences.set({ key: CATALOG_CACHE_KEY, value: JSON.stringify(envelope) });
+
+      console.log(`✅ [CATALOG] Loaded catalog v${catalog.version} with ${catalog.models.length} model(s)`);
+      return this.toLlamaModels(catalog);
+    } catch (error) {
+      console.warn('⚠️ [CATALOG] Remote catalog unavailable, keeping current model list:', error);
+      return null;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Whether the device has enough memory for a model. Models without a
+   * requirement, or devices that do not report memory, are allowed.
+   */
+  canDeviceRun(model: LlamaModel): boolean {
+    if (!model.minRamGB || this.deviceMemoryGB === null) {
+      return true;
+    }
+    return this.deviceMemoryGB >= model.minRamGB;
+  }
+
+  private async getCachedVersion(): Promise<number | null> {
+    try {
+      const { Preferences } = await import('@capacitor/preferences');
+      const { value } = await Preferences.get({ key: CATALOG_CACHE_KEY });
+      if (!value) {
+        return null;
+      }
+      const envelope: SignedCatalogEnvelope = JSON.parse(value);
+      return (JSON.parse(envelope.payload) as CatalogPayload).version ?? null;
+    } catch (error) {
+      console.warn('⚠️ [CATALOG] Could not read cached catalog version:', error);
+      return null;
+    }
+  }
+
+  private async verifyEnvelope(envelope: SignedCatalogEnvelope): Promise<CatalogPayload | null> {
+    if (!envelope || typeof envelope.payload !== 'string' || typeof envelope.signature !== 'string') {
+      console.warn('⚠️ [CATALOG] Malformed catalog envelope');
+      return null;
+    }
+
+    const key = await this.getPublicKey();
+    if (!key) {
+      console.warn('⚠️ [CATALOG] No catalog public key configured, using built-in models');
+      return null;
+    }
+
+    const isValid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      base64ToBytes(envelope.signature).buffer as ArrayBuffer,
+      new TextEncoder().encode(envelope.payload)
+    );
+    if (!isValid) {
+      console.error('❌ [CATALOG] Catalog signature verification failed');
+      return null;
+    }
+
+    const catalog: CatalogPayload = JSON.parse(envelope.payload);
+    if (typeof catalog.version !== 'number' || !Array.isArray(catalog.models)) {
+      console.error('❌ [CATALOG] Catalog payload has an unexpected shape');
+      return null;
+    }
+    return catalog;
+  }
+
+  private async getPublicKey(): Promise<CryptoKey | null> {
+    if (this.publicKey) {
+      return this.publicKey;
+    }
+    if (!config.modelCatalogPublicKey) {
+      return null;
+    }
+
+    this.publicKey = await crypto.subtle.importKey(
+      'spki',
+      base64ToBytes(config.modelCatalogPublicKey.replace(/\s/g, '')).buffer as ArrayBuffer,
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    return this.publicKey;
+  }
+
+  private toLlamaModels(catalog: CatalogPayload): LlamaModel[] {
+    return catalog.models
+      .filter(entry => {
+        const isValid = entry && typeof entry.id === 'string' && typeof entry.name === 'string' &&
+          typeof entry.url === 'string' && typeof entry.size_mb === 'number' &&
+          // An adapter is useless without the model it applies to
+          (!entry.capabilities?.includes('lora') || typeof entry.base_model_id === 'string');
+        if (!isValid) {
+          console.warn('⚠️ [CATALOG] Skipping invalid catalog entry:', entry);
+        }
+        return isValid;
+      })
+      .map(entry => {
+        // The model path is always resolved locally
+        const contextParams: Partial<ContextParams> = { ...entry.context_params };
+        delete contextParams.model;
+
+        return {
+          id: entry.id,
+          name: entry.name,
+          sizeMB: entry.size_mb,
+          status: 'available' as const,
+          description: entry.description,
+          url: entry.url,
+          sha256: entry.sha256?.toLowerCase(),
+          capabilities: (entry.capabilities || ['text']).filter(capability => CAPABILITIES.includes(capability)),
+          minRamGB: entry.min_ram_gb,
+          contextParams,
+          mmprojUrl: entry.mmproj_url,
+          mmprojSizeMB: entry.mmproj_size_mb,
+          mmprojSha256: entry.mmproj_sha256?.toLowerCase(),
+          baseModelId: entry.base_model_id,
+          // The strength slider goes from 0 to 1; other values fall back to 1
+          loraScale: typeof entry.lora_scale === 'number' && entry.lora_scale >= 0 && entry.lora_scale <= 1
+            ? entry.lora_scale
+            : undefined
+        };
+      });
+  }
+}
+
+export default ModelCatalogService;
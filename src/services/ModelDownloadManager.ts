@@ -0,0 +1,285 @@
+import LlamaService from './LlamaService';
+
+/**
+ * Queue of model downloads with pause / resume / cancel.
+ *
+ * Downloads run one at a time (a single flaky connection is better spent on
+ * one file). The queue is persisted in Preferences so it survives app
+ * restarts; the bytes themselves live in the model's .part file, which
+ * LlamaService resumes with HTTP Range requests.
+ */
+
+export type ModelDownloadStatus = 'queued' | 'downloading' | 'paused' | 'error';
+
+export interface ModelDownloadEntry {
+  modelId: string;
+  status: ModelDownloadStatus;
+  loaded: number;
+  total: number;
+  percentage: number;
+  error?: string;
+  queuedAt: string;
+}
+
+export interface ModelDownloadEvent {
+  type: 'completed' | 'failed' | 'cancelled';
+  modelId: string;
+  error?: string;
+}
+
+export type ModelDownloadListener = (queue: ModelDownloadEntry[], event?: ModelDownloadEvent) => void;
+
+const QUEUE_STORAGE_KEY = 'model_download_queue';
+// Progress is written to Preferences at most this often
+const PROGRESS_PERSIST_INTERVAL_MS = 5000;
+
+export class ModelDownloadManager {
+  private static instance: ModelDownloadManager;
+  private llamaService = LlamaService.getInstance();
+  private queue: ModelDownloadEntry[] = [];
+  private listeners: Set<ModelDownloadListener> = new Set();
+  private activeModelId: string | null = null;
+  private activeController: AbortController | null = null;
+  private cancelRequested: Set<string> = new Set();
+  private lastPersistedAt = 0;
+  private initializationPromise: Promise<void> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): ModelDownloadManager {
+    if (!ModelDownloadManager.instance) {
+      ModelDownloadManager.instance = new ModelDownloadManager();
+    }
+    return ModelDownloadManager.instance;
+  }
+
+  /**
+   * Restore the persisted queue and continue any download that was running
+   * when the app was closed
+   */
+  async initialize(): Promise<void> {
+    if (!this.initializationPromise) {
+      this.initializationPromise = this.restoreQueue();
+    }
+    return this.initializationPromise;
+  }
+
+  private async restoreQueue(): Promise<void> {
+    try {
+      await this.llamaService.initialize();
+
+      const { Preferences } = await import('@capacitor/preferences');
+      const { value } = await Preferences.get({ key: QUEUE_STORAGE_KEY });
+      if (value) {
+        const stored: ModelDownloadEntry[] = JSON.parse(value);
+        this.queue = stored
+          .filter(entry => this.llamaService.getModel(entry.modelId))
+          .map(entry => entry.status === 'downloading' ? { ...entry, status: 'queued' as const } : entry);
+        console.log(`📥 [DOWNLOADS] Restored ${this.queue.length} queued download(s)`);
+      }
+    } catch (error) {
+      console.error('❌ [DOWNLOADS] Failed to restore download queue:', error);
+    }
+
+    this.notify();
+    this.processQueue();
+  }
+
+  getQueue(): ModelDownloadEntry[] {
+    return this.queue.map(entry => ({ ...entry }));
+  }
+
+  getEntry(modelId: string): ModelDownloadEntry | null {
+    const entry = this.queue.find(item => item.modelId === modelId);
+    return entry ? { ...entry } : null;
+  }
+
+  /**
+   * Subscribe to queue changes. The listener is called immediately with the current queue.
+   */
+  subscribe(listener: ModelDownloadListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getQueue());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Add a model to the queue (or resume it if it is already queued but paused / failed)
+   */
+  async enqueue(modelId: string): Promise<void> {
+    await this.initialize();
+
+    const model = this.llamaService.getModel(modelId);
+    if (!model) {
+      throw new Error(`Model ${modelId} not found`);
+    }
+
+    const existing = this.queue.find(entry => entry.modelId === modelId);
+    if (existing) {
+      if (existing.status === 'paused' || existing.status === 'error') {
+        await this.resume(modelId);
+      }
+      return;
+    }
+
+    this.queue.push({
+      modelId,
+      status: 'queued',
+      loaded: 0,
+      total: 0,
+      percentage: 0,
+      queuedAt: new Date().toISOString()
+    });
+    console.log(`📥 [DOWNLOADS] Queued ${modelId}`);
+
+    await this.persistQueue();
+    this.notify();
+    this.processQueue();
+  }
+
+  /**
+   * Pause a queued or running download. A running download stops after its current chunk.
+   */
+  async pause(modelId: string): Promise<void> {
+    const entry = this.queue.find(item => item.modelId === modelId);
+    if (!entry || entry.status === 'paused') {
+      return;
+    }
+
+    entry.status = 'paused';
+    if (this.activeModelId === modelId) {
+      this.activeController?.abort();
+    }
+    console.log(`⏸️ [DOWNLOADS] Paused ${modelId}`);
+
+    await this.persistQueue();
+    this.notify();
+  }
+
+  async resume(modelId: string): Promise<void> {
+    const entry = this.queue.find(item => item.modelId === modelId);
+    if (!entry || (entry.status !== 'paused' && entry.status !== 'error')) {
+      return;
+    }
+
+    entry.status = 'queued';
+    entry.error = undefined;
+    console.log(`▶️ [DOWNLOADS] Resumed ${modelId}`);
+
+    await this.persistQueue();
+    this.notify();
+    this.processQueue();
+  }
+
+  /**
+   * Remove a download from the queue and delete its partial file
+   */
+  async cancel(modelId: string): Promise<void> {
+    const entry = this.queue.find(item => item.modelId === modelId);
+    if (!entry) {
+      return;
+    }
+
+    this.queue = this.queue.filter(item => item.modelId !== modelId);
+    console.log(`✖️ [DOWNLOADS] Cancelled ${modelId}`);
+
+    if (this.activeModelId === modelId) {
+      // The partial file is removed once the running chunk has been written
+      this.cancelRequested.add(modelId);
+      this.activeController?.abort();
+    } else {
+      await this.llamaService.discardPartialDownload(modelId);
+    }
+
+    await this.persistQueue();
+    this.notify({ type: 'cancelled', modelId });
+  }
+
+  private processQueue(): void {
+    if (this.activeModelId) {
+      return;
+    }
+
+    const next = this.queue.find(entry => entry.status === 'queued');
+    if (next) {
+      this.runDownload(next);
+    }
+  }
+
+  private async runDownload(entry: ModelDownloadEntry): Promise<void> {
+    const { modelId } = entry;
+    const controller = new AbortController();
+    this.activeModelId = modelId;
+    this.activeController = controller;
+
+    entry.status = 'downloading';
+    entry.error = undefined;
+    await this.persistQueue();
+    this.notify();
+
+    try {
+      console.log(`📥 [DOWNLOADS] Starting ${modelId}`);
+      await this.llamaService.downloadModel(modelId, progress => {
+        entry.loaded = progress.loaded;
+        entry.total = progress.total;
+        entry.percentage = progress.percentage;
+        this.notify();
+
+        if (Date.now() - this.lastPersistedAt > PROGRESS_PERSIST_INTERVAL_MS) {
+          this.persistQueue();
+        }
+      }, { signal: controller.signal });
+
+      this.queue = this.queue.filter(item => item.modelId !== modelId);
+      console.log(`✅ [DOWNLOADS] Completed ${modelId}`);
+      await this.persistQueue();
+      this.notify({ type: 'completed', modelId });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // pause() / cancel() already updated the queue
+        if (this.cancelRequested.delete(modelId)) {
+          await this.llamaService.discardPartialDownload(modelId);
+        }
+      } else {
+        const message = error instanceof Error ? error.message : String(error);
+        entry.status = 'error';
+        entry.error = message;
+        console.error(`❌ [DOWNLOADS] Failed ${modelId}:`, error);
+        await this.persistQueue();
+        this.notify({ type: 'failed', modelId, error: message });
+      }
+    } finally {
+      this.activeModelId = null;
+      this.activeController = null;
+      this.processQueue();
+    }
+  }
+
+  private async persistQueue(): Promise<void> {
+    this.lastPersistedAt = Date.now();
+    try {
+      const { Preferences } = await import('@capacitor/preferences');
+      await Preferences.set({
+        key: QUEUE_STORAGE_KEY,
+        value: JSON.stringify(this.queue)
+      });
+    } catch (error) {
+      console.error('❌ [DOWNLOADS] Failed to persist download queue:', error);
+    }
+  }
+
+  private notify(event?: ModelDownloadEvent): void {
+    const snapshot = this.getQueue();
+    this.listeners.forEach(listener => {
+      try {
+        listener(snapshot, event);
+      } catch (error) {
+        console.error('❌ [DOWNLOADS] Listener error:', error);
+      }
+    });
+  }
+}
+
+export default ModelDownloadManager;
@@ -0,0 +1,167 @@
+import ChatService from './ChatService';
+import SQLiteService from './SQLiteService';
+
+/**
+ * Outbox for user messages that could not be sent to the server.
+ *
+ * Messages are kept in SQLite until the WebSocket reconnects and are then
+ * sent one at a time, oldest first. Sending stops at the first failure so
+ * the server always sees questions in the order they were asked. Each
+ * message keeps its client message_id, so a message that is queued or
+ * flushed twice is still only answered once.
+ */
+
+export type OutboxListener = (pendingIds: string[]) => void;
+
+// Wait for authentication and topic subscriptions before sending, so replies are not missed
+const FLUSH_DELAY_MS = 1500;
+
+export class OutboxService {
+  private static instance: OutboxService;
+  private sqliteService = SQLiteService.getInstance();
+  private pendingIds: string[] = [];
+  private listeners: Set<OutboxListener> = new Set();
+  private isFlushing = false;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private initializationPromise: Promise<void> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): OutboxService {
+    if (!OutboxService.instance) {
+      OutboxService.instance = new OutboxService();
+    }
+    return OutboxService.instance;
+  }
+
+  /**
+   * Load the persisted outbox, start listening for reconnections and try to
+   * send anything left over from a previous run
+   */
+  async initialize(): Promise<void> {
+    if (!this.initializationPromise) {
+      this.initializationPromise = this.restoreOutbox();
+    }
+    return this.initializationPromise;
+  }
+
+  private async restoreOutbox(): Promise<void> {
+    ChatService.onConnectionStatus(this.handleConnectionStatus);
+    window.addEventListener('online', this.handleNetworkOnline);
+
+    try {
+      await this.sqliteService.resetOutboxSending();
+      await this.refreshPendingIds();
+      if (this.pendingIds.length > 0) {
+        console.log(`📤 [OUTBOX] Restored ${this.pendingIds.length} unsent message(s)`);
+        await ChatService.connect();
+      }
+    } catch (error) {
+      console.error('❌ [OUTBOX] Failed to restore outbox:', error);
+    }
+  }
+
+  getPendingIds(): string[] {
+    return [...this.pendingIds];
+  }
+
+  /**
+   * Subscribe to outbox changes. The listener is called immediately with the
+   * ids of the messages still waiting to be sent.
+   */
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getPendingIds());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Queue a message until the connection is back
+  async enqueue(messageId: string, content: string, model?: string): Promise<void> {
+    await this.sqliteService.enqueueOutboxMessage(messageId, content, model);
+    console.log(`📤 [OUTBOX] Queued message ${messageId}`);
+    await this.refreshPendingIds();
+    this.notify();
+  }
+
+  /**
+   * Send queued messages in order. Stops at the first one that cannot be
+   * published; it stays queued for the next reconnection.
+   */
+  async flush(): Promise<void> {
+    if (this.isFlushing) {
+      return;
+    }
+    this.isFlushing = true;
+
+    try {
+      // Re-read after every send so messages queued meanwhile go out too
+      let entries = await this.sqliteService.getOutboxMessages();
+      while (entries.length > 0) {
+        const entry = entries[0];
+        await this.sqliteService.setOutboxStatus(entry.message_id, 'sending');
+        const sent = await ChatService.sendChatMessage(entry.content, entry.model, entry.message_id);
+
+        if (!sent) {
+          await this.sqliteService.setOutboxStatus(entry.message_id, 'pending');
+          console.warn(`⚠️ [OUTBOX] Could not send ${entry.message_id}, will retry on reconnect`);
+          break;
+        }
+
+        await this.sqliteService.removeOutboxMessage(entry.message_id);
+        this.pendingIds = this.pendingIds.filter(id => id !== entry.message_id);
+        console.log(`✅ [OUTBOX] Sent queued message ${entry.message_id} (attempt ${entry.attempts + 1})`);
+        this.notify();
+        entries = await this.sqliteService.getOutboxMessages();
+      }
+    } catch (error) {
+      console.error('❌ [OUTBOX] Failed to flush outbox:', error);
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  private handleConnectionStatus = (connected: boolean): void => {
+    if (!connected || this.pendingIds.length === 0) {
+      return;
+    }
+
+    // Both connect() and the socket's open handler report the same reconnection
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, FLUSH_DELAY_MS);
+  };
+
+  // ChatService gives up after its reconnect attempts, so retry when the network returns
+  private handleNetworkOnline = (): void => {
+    if (this.pendingIds.length === 0) {
+      return;
+    }
+    console.log('📤 [OUTBOX] Network is back, reconnecting to send queued messages');
+    ChatService.resetReconnectionState();
+    ChatService.connect();
+  };
+
+  private async refreshPendingIds(): Promise<void> {
+    const entries = await this.sqliteService.getOutboxMessages();
+    this.pendingIds = entries.map(entry => entry.message_id);
+  }
+
+  private notify(): void {
+    const snapshot = this.getPendingIds();
+    this.listeners.forEach(listener => {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        console.error('❌ [OUTBOX] Listener error:', error);
+      }
+    });
+  }
+}
+
+export default OutboxService;
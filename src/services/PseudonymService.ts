@@ -0,0 +1,232 @@
+import RedactionDatabaseService from './RedactionDatabaseService';
+import SensitiveContentDetector, {
+  MANUAL_PATTERN_NAME,
+  RedactionCategory,
+  SensitiveFinding
+} from './SensitiveContentDetector';
+
+/**
+ * Pseudonym Service - reversible redaction
+ *
+ * Instead of [PII_REDACTED], each sensitive value is replaced by a stable
+ * placeholder such as <ACCOUNT_1>, so the AI can still tell values apart and
+ * refer to them. Which value a placeholder stands for is kept only in the
+ * local database, per chat session, and restore() puts it back for display.
+ */
+
+const ENABLED_KEY = 'redaction_pseudonymise';
+
+// Placeholders chosen in a new chat before its first message creates the session
+export const PENDING_SESSION_ID = 'pending';
+
+const PLACEHOLDER_REGEX = /<[A-Z][A-Z0-9_]*_\d+>/g;
+
+// Placeholder labels for the built-in patterns
+const PATTERN_LABELS: Record<string, string> = {
+  'Email Address': 'EMAIL',
+  'Credit Card': 'CARD',
+  'Bank Account': 'ACCOUNT',
+  'IBAN': 'ACCOUNT',
+  'Date of Birth': 'DATE_OF_BIRTH',
+  'Passport': 'PASSPORT',
+  'Medical Record': 'MEDICAL_RECORD',
+  'Case Number': 'CASE',
+  'Phone Number': 'PHONE',
+  'SSN': 'SSN',
+  'Address': 'ADDRESS',
+  'Driver License': 'LICENSE',
+  'Aadhaar': 'AADHAAR',
+  'PAN': 'PAN',
+  'IFSC': 'IFSC',
+  'UPI ID': 'UPI',
+  'Mobile Number (India)': 'PHONE',
+  'Voter ID': 'VOTER_ID',
+  'Ration Card': 'RATION_CARD',
+  'Kisan Credit Card': 'CARD',
+  'Khasra / Survey Number': 'LAND_PARCEL',
+  'Khasra / Survey Number (Hindi)': 'LAND_PARCEL'
+};
+
+// Manual redactions are mostly names, so they are labelled by category
+const CATEGORY_LABELS: Record<RedactionCategory, string> = {
+  pii: 'PERSON',
+  financial: 'ACCOUNT',
+  medical: 'MEDICAL',
+  legal: 'LEGAL',
+  other: 'REDACTED'
+};
+
+type PseudonymListener = (sessionId: string) => void;
+
+export class PseudonymService {
+  private static instance: PseudonymService;
+  private db = RedactionDatabaseService.getInstance();
+  private detector = SensitiveContentDetector.getInstance();
+  // Placeholder -> original value, per session
+  private sessions: Map<string, Map<string, string>> = new Map();
+  private listeners: PseudonymListener[] = [];
+  private enabled: boolean | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): PseudonymService {
+    if (!PseudonymService.instance) {
+      PseudonymService.instance = new PseudonymService();
+    }
+    return PseudonymService.instance;
+  }
+
+  async isEnabled(): Promise<boolean> {
+    if (this.enabled === null) {
+      try {
+        const { Preferences } = await import('@capacitor/preferences');
+        const { value } = await Preferences.get({ key: ENABLED_KEY });
+        this.enabled = value === 'true';
+      } catch (error) {
+        console.warn('⚠️ [Pseudonym] Could not read setting, using redaction tokens:', error);
+        this.enabled = false;
+      }
+    }
+    return this.enabled;
+  }
+
+  async setEnabled(enabled: boolean): Promise<void> {
+    this.enabled = enabled;
+    const { Preferences } = await import('@capacitor/preferences');
+    await Preferences.set({ key: ENABLED_KEY, value: String(enabled) });
+  }
+
+  /**
+   * The placeholders used in a session so far, with the values they stand for
+   */
+  async getPlaceholders(sessionId: string | null): Promise<Map<string, string>> {
+    const key = sessionId || PENDING_SESSION_ID;
+    const cached = this.sessions.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const placeholders = new Map<string, string>();
+    try {
+      await this.db.initialize();
+      for (const pseudonym of await this.db.getPseudonyms(key)) {
+        placeholders.set(pseudonym.placeholder, pseudonym.original_value);
+      }
+    } catch (error) {
+      console.error('❌ [Pseudonym] Failed to load placeholders:', error);
+    }
+    this.sessions.set(key, placeholders);
+    return placeholders;
+  }
+
+  /**
+   * Replace the findings with placeholders. A value already seen in the
+   * session gets the placeholder it had before.
+   */
+  async pseudonymise(sessionId: string | null, text: string, findings: SensitiveFinding[]): Promise<string> {
+    const key = sessionId || PENDING_SESSION_ID;
+    const placeholders = await this.getPlaceholders(key);
+    const byValue = new Map<string, string>();
+    placeholders.forEach((value, placeholder) => byValue.set(value, placeholder));
+
+    let added = 0;
+    for (const finding of findings) {
+      if (byValue.has(finding.text)) {
+        continue;
+      }
+      const placeholder = this.nextPlaceholder(placeholders, this.getLabel(finding));
+      placeholders.set(placeholder, finding.text);
+      byValue.set(finding.text, placeholder);
+      added++;
+      try {
+        await this.db.addPseudonym({
+          session_id: key,
+          placeholder,
+          original_value: finding.text,
+          category: finding.category
+        });
+      } catch (error) {
+        // Still restorable until the app closes
+        console.error('❌ [Pseudonym] Failed to save placeholder:', error);
+      }
+    }
+
+    if (added > 0) {
+      console.log(`🎭 [Pseudonym] ${added} new placeholder(s) in session ${key}`);
+      this.notify(key);
+    }
+    return this.detector.redact(text, findings, finding => byValue.get(finding.text) ?? '[REDACTED]');
+  }
+
+  /**
+   * Put the original values back in place of known placeholders
+   */
+  restore(text: string, placeholders: Map<string, string>): string {
+    if (!text || placeholders.size === 0) {
+      return text;
+    }
+    return text.replace(PLACEHOLDER_REGEX, placeholder => placeholders.get(placeholder) ?? placeholder);
+  }
+
+  /**
+   * Move the placeholders chosen before a new chat had a session into it
+   */
+  async adoptPendingSession(sessionId: string): Promise<void> {
+    const pending = this.sessions.get(PENDING_SESSION_ID);
+    try {
+      await this.db.initialize();
+      await this.db.moveSessionPseudonyms(PENDING_SESSION_ID, sessionId);
+    } catch (error) {
+      console.error('❌ [Pseudonym] Failed to move pending placeholders:', error);
+    }
+    this.sessions.delete(PENDING_SESSION_ID);
+
+    if (pending && pending.size > 0) {
+      const placeholders = this.sessions.get(sessionId) ?? new Map<string, string>();
+      pending.forEach((value, placeholder) => placeholders.set(placeholder, value));
+      this.sessions.set(sessionId, placeholders);
+      this.notify(sessionId);
+    }
+  }
+
+  subscribe(listener: PseudonymListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private notify(sessionId: string): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(sessionId);
+      } catch (error) {
+        console.error('❌ [Pseudonym] Listener failed:', error);
+      }
+    }
+  }
+
+  private getLabel(finding: SensitiveFinding): string {
+    const label = PATTERN_LABELS[finding.patternName];
+    if (label) {
+      return label;
+    }
+    // Custom patterns are labelled by their name, e.g. "Employee ID" -> EMPLOYEE_ID
+    const slug = finding.patternName.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+    return /^[A-Z]/.test(slug) && finding.patternName !== MANUAL_PATTERN_NAME ? slug : CATEGORY_LABELS[finding.category];
+  }
+
+  private nextPlaceholder(placeholders: Map<string, string>, label: string): string {
+    const numbered = new RegExp(`^<${label}_(\\d+)>$`);
+    let highest = 0;
+    placeholders.forEach((_value, placeholder) => {
+      const match = placeholder.match(numbered);
+      if (match) {
+        highest = Math.max(highest, Number(match[1]));
+      }
+    });
+    return `<${label}_${highest + 1}>`;
+  }
+}
+
+export default PseudonymService;
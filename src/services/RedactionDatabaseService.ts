@@ -1,6 +1,7 @@
 // src/services/RedactionDatabaseService.ts
 import { Sqlite, SQLiteConnection } from '@capawesome-team/capacitor-sqlite';
 import { Capacitor } from '@capacitor/core';
+import { getPatternsForCountry } from './RedactionPatterns';
 
 /**
  * Redaction Database Service - Manages redaction analysis and user selections
@@ -42,6 +43,9 @@ export interface RedactionSection {
   is_user_selected: boolean;
   created_at: string;
   metadata?: any;
+  // Full section text; content_preview is cut to 100 characters
+  content?: string;
+  findings?: string; // JSON array of SensitiveFinding, offsets into content
 }
 
 // Enhanced interfaces for detailed annotation
@@ -132,6 +136,11 @@ export interface RedactionPattern {
   is_active: boolean;
   created_at: string;
   updated_at: string;
+  // 'keywords' patterns match any of the listed terms; pattern_regex is unused for them
+  match_type: 'regex' | 'keywords';
+  keywords?: string; // JSON array of terms
+  // Built-in rows only switch the pattern shipped in code on or off; their regex is informational
+  source: 'builtin' | 'user' | 'organization';
 }
 
 export interface RedactionResult {
@@ -147,6 +156,52 @@ export interface RedactionResult {
   created_at: string;
 }
 
+// A manual edit from the redaction editor, kept per file so re-sending it reuses it.
+// Edits have no section or pattern, so they are not redaction_results.
+export interface RedactionEditRecord {
+  id?: number;
+  file_hash: string;
+  document_id: string;
+  edit_action: 'add' | 'remove';
+  page_number: number;
+  bounding_box: string; // JSON array for coordinates
+  // Text under the box; empty for boxes drawn over pictures
+  text: string;
+  category: 'pii' | 'financial' | 'medical' | 'legal' | 'other';
+  created_at?: string;
+}
+
+// A stored text section with its embedding (JSON array), for on-device document search
+export interface EmbeddedTextSection {
+  document_id: string;
+  section_id: string;
+  file_name: string;
+  page_number: number;
+  content_text: string;
+  embedding: string;
+}
+
+// A placeholder sent in place of a sensitive value, kept only on the device
+export interface Pseudonym {
+  id?: number;
+  session_id: string;
+  placeholder: string; // e.g. <ACCOUNT_1>
+  original_value: string;
+  category: 'pii' | 'financial' | 'medical' | 'legal' | 'other';
+  created_at: string;
+}
+
+// What the user did when a chat message was flagged; the flagged values themselves are not kept
+export interface TextRedactionLogEntry {
+  id?: number;
+  session_id?: string;
+  decision: 'masked' | 'sent_unmasked' | 'edited';
+  finding_count: number;
+  categories: string; // JSON array of categories found
+  pattern_names: string; // JSON array of pattern names
+  created_at: string;
+}
+
 export interface UserRedactionPreferences {
   id?: number;
   user_id?: string;
@@ -162,7 +217,7 @@ class RedactionDatabaseService {
   private static instance: RedactionDatabaseService;
   private databaseId: string | null = null;
   private readonly DB_NAME = 'redaction_management.db';
-  private readonly DB_VERSION = 2; // Incremented for new tables
+  private readonly DB_VERSION = 9; // Incremented for the redaction edits table
   private isInitialized = false;
   private isInitializing = false;
   private initializationPromise: Promise<void> | null = null;
@@ -251,6 +306,34 @@ class RedactionDatabaseService {
           {
             version: 2,
             statements: this.getMigrationStatementsV2()
+          },
+          {
+            version: 3,
+            statements: this.getMigrationStatementsV3()
+          },
+          {
+            version: 4,
+            statements: this.getMigrationStatementsV4()
+          },
+          {
+            version: 5,
+            statements: this.getMigrationStatementsV5()
+          },
+          {
+            version: 6,
+            statements: this.getMigrationStatementsV6()
+          },
+          {
+            version: 7,
+            statements: this.getMigrationStatementsV7()
+          },
+          {
+            version: 8,
+            statements: this.getMigrationStatementsV8()
+          },
+          {
+            version: 9,
+            statements: this.getMigrationStatementsV9()
           }
         ]
       });
@@ -467,11 +550,118 @@ class RedactionDatabaseService {
     ];
   }
 
+  private getMigrationStatementsV3(): string[] {
+    // Version 3: Keep the full text of each section and what the detector found in it,
+    // so redaction applies the same findings the selection modal showed
+    return [
+      `ALTER TABLE redaction_sections ADD COLUMN content TEXT`,
+      `ALTER TABLE redaction_sections ADD COLUMN findings TEXT DEFAULT '[]'`
+    ];
+  }
+
+  private getMigrationStatementsV4(): string[] {
+    // Version 4: User and organisation patterns next to the seeded built-in ones
+    return [
+      `ALTER TABLE redaction_patterns ADD COLUMN match_type TEXT DEFAULT 'regex'`,
+      `ALTER TABLE redaction_patterns ADD COLUMN keywords TEXT`,
+      `ALTER TABLE redaction_patterns ADD COLUMN source TEXT DEFAULT 'builtin'`
+    ];
+  }
+
+  private getMigrationStatementsV5(): string[] {
+    // Version 5: Manual edits from the redaction editor, found again by the file's hash (moved to redaction_edits in version 9)
+    return [
+      `ALTER TABLE redaction_results ADD COLUMN file_hash TEXT`,
+      `ALTER TABLE redaction_results ADD COLUMN edit_action TEXT`,
+      `ALTER TABLE redaction_results ADD COLUMN category TEXT`,
+      `CREATE INDEX IF NOT EXISTS idx_redaction_results_file_hash ON redaction_results(file_hash)`
+    ];
+  }
+
+  private getMigrationStatementsV6(): string[] {
+    // Version 6: Placeholders sent instead of sensitive values, per chat session
+    return [
+      `CREATE TABLE IF NOT EXISTS pseudonyms (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        placeholder TEXT NOT NULL,
+        original_value TEXT NOT NULL,
+        category TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(session_id, placeholder),
+        UNIQUE(session_id, original_value)
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_pseudonyms_session_id ON pseudonyms(session_id)`
+    ];
+  }
+
+  private getMigrationStatementsV7(): string[] {
+    // Version 7: Decisions taken on chat messages flagged before sending
+    return [
+      `CREATE TABLE IF NOT EXISTS text_redaction_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT,
+        decision TEXT NOT NULL,
+        finding_count INTEGER NOT NULL,
+        categories TEXT DEFAULT '[]',
+        pattern_names TEXT DEFAULT '[]',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`
+    ];
+  }
+
+  private getMigrationStatementsV8(): string[] {
+    // Version 8: Embeddings of text sections, per embedding model, for answering from the user's documents
+    return [
+      `CREATE TABLE IF NOT EXISTS text_section_embeddings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        document_id TEXT NOT NULL,
+        section_id TEXT NOT NULL,
+        model_id TEXT NOT NULL,
+        embedding TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(document_id, section_id, model_id)
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_text_section_embeddings_model_id ON text_section_embeddings(model_id)`
+    ];
+  }
+
+  private getMigrationStatementsV9(): string[] {
+    // Version 9: Manual edits get their own table - in redaction_results they broke
+    // the section and pattern foreign keys
+    return [
+      `CREATE TABLE IF NOT EXISTS redaction_edits (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file_hash TEXT NOT NULL,
+        document_id TEXT NOT NULL,
+        edit_action TEXT NOT NULL,
+        page_number INTEGER NOT NULL,
+        bounding_box TEXT NOT NULL,
+        text TEXT DEFAULT '',
+        category TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_redaction_edits_file_hash ON redaction_edits(file_hash)`,
+      `INSERT INTO redaction_edits (file_hash, document_id, edit_action, page_number, bounding_box, text, category, created_at)
+        SELECT file_hash, document_id, edit_action, COALESCE(page_number, 0), COALESCE(bounding_box, '[0,0,0,0]'),
+               original_content, COALESCE(category, 'other'), created_at
+        FROM redaction_results WHERE edit_action IS NOT NULL AND file_hash IS NOT NULL`,
+      `DELETE FROM redaction_results WHERE edit_action IS NOT NULL`
+    ];
+  }
+
   private getCreateTableStatements(): string[] {
     // Combined: All tables for manual creation
     return [
       ...this.getCreateTableStatementsV1(),
-      ...this.getMigrationStatementsV2()
+      ...this.getMigrationStatementsV2(),
+      ...this.getMigrationStatementsV3(),
+      ...this.getMigrationStatementsV4(),
+      ...this.getMigrationStatementsV5(),
+      ...this.getMigrationStatementsV6(),
+      ...this.getMigrationStatementsV7(),
+      ...this.getMigrationStatementsV8(),
+      ...this.getMigrationStatementsV9()
     ];
   }
 
@@ -487,7 +677,7 @@ class RedactionDatabaseService {
         });
         console.log('✅ [RedactionDB] Created table:', statement.match(/CREATE TABLE[^(]*\(([^)]*)\)/i)?.[0]?.substring(0, 50) + '...');
       } catch (error) {
-        if ((error as Error).message?.includes('already exists')) {
+        if ((error as Error).message?.includes('already exists') || (error as Error).message?.includes('duplicate column')) {
           console.log('ℹ️ [RedactionDB] Table already exists, skipping...');
         } else {
           console.error('❌ [RedactionDB] Failed to create table:', error);
@@ -526,74 +716,13 @@ class RedactionDatabaseService {
   }
 
   private async _initializeDefaultPatterns(): Promise<void> {
-    const defaultPatterns = [
-      {
-        pattern_name: 'Email Address',
-        pattern_regex: '\\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Z|a-z]{2,}\\b',
-        pattern_category: 'pii',
-        severity: 'high'
-      },
-      {
-        pattern_name: 'Phone Number',
-        pattern_regex: '(\\+?1[-.\\s]?)?\\(?[0-9]{3}\\)?[-.\\s]?[0-9]{3}[-.\\s]?[0-9]{4}',
-        pattern_category: 'pii',
-        severity: 'high'
-      },
-      {
-        pattern_name: 'SSN',
-        pattern_regex: '\\b\\d{3}-?\\d{2}-?\\d{4}\\b',
-        pattern_category: 'pii',
-        severity: 'high'
-      },
-      {
-        pattern_name: 'Credit Card',
-        pattern_regex: '\\b(?:\\d{4}[-\\s]?){3}\\d{4}\\b',
-        pattern_category: 'financial',
-        severity: 'high'
-      },
-      {
-        pattern_name: 'Bank Account',
-        pattern_regex: '\\b\\d{8,17}\\b',
-        pattern_category: 'financial',
-        severity: 'high'
-      },
-      {
-        pattern_name: 'Address',
-        pattern_regex: '\\b\\d+\\s+[A-Za-z0-9\\s,.-]+(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Way|Place|Pl)\\b',
-        pattern_category: 'pii',
-        severity: 'medium'
-      },
-      {
-        pattern_name: 'Date of Birth',
-        pattern_regex: '\\b(?:0?[1-9]|1[0-2])[\\/\\-](?:0?[1-9]|[12]\\d|3[01])[\\/\\-](?:19|20)\\d{2}\\b',
-        pattern_category: 'pii',
-        severity: 'high'
-      },
-      {
-        pattern_name: 'Driver License',
-        pattern_regex: '\\b[A-Z]\\d{7,8}\\b',
-        pattern_category: 'pii',
-        severity: 'high'
-      },
-      {
-        pattern_name: 'Passport',
-        pattern_regex: '\\b[A-Z]{1,2}\\d{6,9}\\b',
-        pattern_category: 'pii',
-        severity: 'high'
-      },
-      {
-        pattern_name: 'Medical Record',
-        pattern_regex: '\\b(?:MRN|Medical Record|Patient ID)[:\\s]*\\d{6,12}\\b',
-        pattern_category: 'medical',
-        severity: 'high'
-      },
-      {
-        pattern_name: 'Case Number',
-        pattern_regex: '\\b(?:Case|Docket|File)[\\s#:]*[A-Z0-9\\-]{6,20}\\b',
-        pattern_category: 'legal',
-        severity: 'medium'
-      }
-    ];
+    // One row per built-in pattern, so each can be switched off from settings
+    const defaultPatterns = getPatternsForCountry(null).map(pattern => ({
+      pattern_name: pattern.name,
+      pattern_regex: pattern.pattern.source,
+      pattern_category: pattern.category,
+      severity: pattern.severity
+    }));
 
     for (const pattern of defaultPatterns) {
       try {
@@ -732,8 +861,8 @@ class RedactionDatabaseService {
           INSERT INTO redaction_sections 
           (document_id, section_id, section_type, section_index, page_number, content_preview, 
            content_length, has_sensitive_content, sensitive_patterns_found, confidence_score, 
-           is_user_selected, metadata)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           is_user_selected, metadata, content, findings)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `,
         values: [
           section.document_id,
@@ -747,7 +876,9 @@ class RedactionDatabaseService {
           JSON.stringify(section.sensitive_patterns_found),
           section.confidence_score,
           section.is_user_selected ? 1 : 0,
-          section.metadata ? JSON.stringify(section.metadata) : null
+          section.metadata ? JSON.stringify(section.metadata) : null,
+          section.content ?? null,
+          section.findings ?? '[]'
         ]
       });
       
@@ -786,7 +917,9 @@ class RedactionDatabaseService {
           confidence_score: row[10],
           is_user_selected: row[11],
           created_at: row[12],
-          metadata: row[13] ? JSON.parse(row[13]) : null
+          metadata: row[13] ? JSON.parse(row[13]) : null,
+          content: row[14] ?? undefined,
+          findings: row[15] ?? undefined
         }));
       }
       
@@ -872,6 +1005,295 @@ class RedactionDatabaseService {
     }
   }
 
+  async getRedactionEdits(fileHash: string): Promise<RedactionEditRecord[]> {
+    if (this.isFallbackMode) {
+      return [];
+    }
+    
+    try {
+      const result = await Sqlite.query({
+        databaseId: this.databaseId!,
+        statement: `
+          SELECT id, file_hash, document_id, edit_action, page_number, bounding_box, text, category, created_at
+          FROM redaction_edits
+          WHERE file_hash = ?
+          ORDER BY id ASC
+        `,
+        values: [fileHash]
+      });
+      
+      if (result.rows) {
+        return result.rows.map(row => ({
+          id: row[0],
+          file_hash: row[1],
+          document_id: row[2],
+          edit_action: row[3],
+          page_number: row[4],
+          bounding_box: row[5],
+          text: row[6] ?? '',
+          category: row[7],
+          created_at: row[8]
+        }));
+      }
+      
+      return [];
+    } catch (error) {
+      console.error('❌ [RedactionDB] Failed to get redaction edits:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the manual edits stored for a file
+   */
+  async replaceRedactionEdits(fileHash: string, edits: Omit<RedactionEditRecord, 'id' | 'file_hash' | 'created_at'>[]): Promise<void> {
+    if (this.isFallbackMode) {
+      console.log('⚠️ [RedactionDB] Fallback mode - redaction edits not persisted');
+      return;
+    }
+    
+    try {
+      await Sqlite.beginTransaction({ databaseId: this.databaseId! });
+      
+      await Sqlite.execute({
+        databaseId: this.databaseId!,
+        statement: `DELETE FROM redaction_edits WHERE file_hash = ?`,
+        values: [fileHash]
+      });
+      
+      for (const edit of edits) {
+        await Sqlite.execute({
+          databaseId: this.databaseId!,
+          statement: `
+            INSERT INTO redaction_edits 
+            (file_hash, document_id, edit_action, page_number, bounding_box, text, category)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+          `,
+          values: [
+            fileHash,
+            edit.document_id,
+            edit.edit_action,
+            edit.page_number,
+            edit.bounding_box,
+            edit.text,
+            edit.category
+          ]
+        });
+      }
+      
+      await Sqlite.commitTransaction({ databaseId: this.databaseId! });
+      
+      console.log(`✅ [RedactionDB] Saved ${edits.length} redaction edit(s)`);
+    } catch (error) {
+      await Sqlite.rollbackTransaction({ databaseId: this.databaseId! });
+      console.error('❌ [RedactionDB] Failed to save redaction edits:', error);
+      throw error;
+    }
+  }
+
+  async getPseudonyms(sessionId: string): Promise<Pseudonym[]> {
+    if (this.isFallbackMode) {
+      return [];
+    }
+    
+    try {
+      const result = await Sqlite.query({
+        databaseId: this.databaseId!,
+        statement: `
+          SELECT id, session_id, placeholder, original_value, category, created_at
+          FROM pseudonyms
+          WHERE session_id = ?
+          ORDER BY id ASC
+        `,
+        values: [sessionId]
+      });
+      
+      if (result.rows) {
+        return result.rows.map(row => ({
+          id: row[0],
+          session_id: row[1],
+          placeholder: row[2],
+          original_value: row[3],
+          category: row[4],
+          created_at: row[5]
+        }));
+      }
+      
+      return [];
+    } catch (error) {
+      console.error('❌ [RedactionDB] Failed to get pseudonyms:', error);
+      throw error;
+    }
+  }
+
+  async addPseudonym(pseudonym: Omit<Pseudonym, 'id' | 'created_at'>): Promise<void> {
+    if (this.isFallbackMode) {
+      console.log('⚠️ [RedactionDB] Fallback mode - pseudonym not persisted');
+      return;
+    }
+    
+    try {
+      await Sqlite.execute({
+        databaseId: this.databaseId!,
+        statement: `
+          INSERT OR IGNORE INTO pseudonyms (session_id, placeholder, original_value, category)
+          VALUES (?, ?, ?, ?)
+        `,
+        values: [pseudonym.session_id, pseudonym.placeholder, pseudonym.original_value, pseudonym.category]
+      });
+    } catch (error) {
+      console.error('❌ [RedactionDB] Failed to add pseudonym:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Hand the pseudonyms of one session to another, e.g. once a new chat has been saved
+   */
+  async moveSessionPseudonyms(fromSessionId: string, toSessionId: string): Promise<void> {
+    if (this.isFallbackMode) {
+      return;
+    }
+    
+    try {
+      await Sqlite.execute({
+        databaseId: this.databaseId!,
+        statement: `UPDATE pseudonyms SET session_id = ? WHERE session_id = ?`,
+        values: [toSessionId, fromSessionId]
+      });
+    } catch (error) {
+      console.error('❌ [RedactionDB] Failed to move pseudonyms:', error);
+      throw error;
+    }
+  }
+
+  async logTextRedaction(entry: Omit<TextRedactionLogEntry, 'id' | 'created_at'>): Promise<void> {
+    if (this.isFallbackMode) {
+      console.log('⚠️ [RedactionDB] Fallback mode - text redaction decision not persisted');
+      return;
+    }
+    
+    try {
+      await Sqlite.execute({
+        databaseId: this.databaseId!,
+        statement: `
+          INSERT INTO text_redaction_log (session_id, decision, finding_count, categories, pattern_names)
+          VALUES (?, ?, ?, ?, ?)
+        `,
+        values: [entry.session_id ?? null, entry.decision, entry.finding_count, entry.categories, entry.pattern_names]
+      });
+    } catch (error) {
+      console.error('❌ [RedactionDB] Failed to log text redaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Text sections this model has not embedded or failed to embed yet, newest first
+   */
+  async getUnembeddedTextAnnotations(
+    modelId: string,
+    minChars: number,
+    limit: number
+  ): Promise<Pick<TextSectionAnnotation, 'document_id' | 'section_id' | 'content_text'>[]> {
+    if (this.isFallbackMode) {
+      return [];
+    }
+    
+    try {
+      const result = await Sqlite.query({
+        databaseId: this.databaseId!,
+        statement: `
+          SELECT t.document_id, t.section_id, t.content_text
+          FROM text_section_annotations t
+          LEFT JOIN text_section_embeddings e
+            ON e.document_id = t.document_id AND e.section_id = t.section_id AND e.model_id = ?
+          WHERE e.id IS NULL AND t.char_count >= ?
+          ORDER BY t.id DESC
+          LIMIT ?
+        `,
+        values: [modelId, minChars, limit]
+      });
+      
+      if (result.rows) {
+        return result.rows.map(row => ({
+          document_id: row[0],
+          section_id: row[1],
+          content_text: row[2]
+        }));
+      }
+      
+      return [];
+    } catch (error) {
+      console.error('❌ [RedactionDB] Failed to get unembedded text sections:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store a section's embedding. An empty one records that the model failed
+   * to embed the section, so it is not tried again.
+   */
+  async saveTextEmbedding(documentId: string, sectionId: string, modelId: string, embedding: number[]): Promise<void> {
+    if (this.isFallbackMode) {
+      return;
+    }
+    
+    try {
+      await Sqlite.execute({
+        databaseId: this.databaseId!,
+        statement: `
+          INSERT OR REPLACE INTO text_section_embeddings (document_id, section_id, model_id, embedding)
+          VALUES (?, ?, ?, ?)
+        `,
+        values: [documentId, sectionId, modelId, JSON.stringify(embedding)]
+      });
+    } catch (error) {
+      console.error('❌ [RedactionDB] Failed to save text embedding:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Every text section embedded by this model, with where it came from.
+   * Sections it failed to embed are left out.
+   */
+  async getEmbeddedTextSections(modelId: string): Promise<EmbeddedTextSection[]> {
+    if (this.isFallbackMode) {
+      return [];
+    }
+    
+    try {
+      const result = await Sqlite.query({
+        databaseId: this.databaseId!,
+        statement: `
+          SELECT e.document_id, e.section_id, d.file_name, t.page_number, t.content_text, e.embedding
+          FROM text_section_embeddings e
+          JOIN text_section_annotations t ON t.document_id = e.document_id AND t.section_id = e.section_id
+          JOIN redaction_documents d ON d.document_id = e.document_id
+          WHERE e.model_id = ? AND e.embedding <> '[]'
+        `,
+        values: [modelId]
+      });
+      
+      if (result.rows) {
+        return result.rows.map(row => ({
+          document_id: row[0],
+          section_id: row[1],
+          file_name: row[2],
+          page_number: row[3],
+          content_text: row[4],
+          embedding: row[5]
+        }));
+      }
+      
+      return [];
+    } catch (error) {
+      console.error('❌ [RedactionDB] Failed to get embedded text sections:', error);
+      throw error;
+    }
+  }
+
   async getSelectedContent(documentId: string): Promise<RedactionSection[]> {
     try {
       const result = await Sqlite.query({
@@ -899,7 +1321,9 @@ class RedactionDatabaseService {
           confidence_score: row[10],
           is_user_selected: row[11],
           created_at: row[12],
-          metadata: row[13] ? JSON.parse(row[13]) : null
+          metadata: row[13] ? JSON.parse(row[13]) : null,
+          content: row[14] ?? undefined,
+          findings: row[15] ?? undefined
         }));
       }
       
@@ -912,6 +1336,10 @@ class RedactionDatabaseService {
 
   // User Preferences
   async getUserPreferences(deviceId: string): Promise<UserRedactionPreferences[]> {
+    if (this.isFallbackMode) {
+      return [];
+    }
+    
     try {
       const result = await Sqlite.query({
         databaseId: this.databaseId!,
@@ -929,8 +1357,8 @@ class RedactionDatabaseService {
           user_id: row[1],
           device_id: row[2],
           category: row[3],
-          auto_redact: row[4],
-          require_confirmation: row[5],
+          auto_redact: !!row[4],
+          require_confirmation: !!row[5],
           created_at: row[6],
           updated_at: row[7]
         }));
@@ -944,6 +1372,11 @@ class RedactionDatabaseService {
   }
 
   async updateUserPreferences(deviceId: string, preferences: Partial<UserRedactionPreferences>[]): Promise<void> {
+    if (this.isFallbackMode) {
+      console.log('⚠️ [RedactionDB] Fallback mode - preferences not persisted');
+      return;
+    }
+    
     try {
       await Sqlite.beginTransaction({ databaseId: this.databaseId! });
       
@@ -974,6 +1407,135 @@ class RedactionDatabaseService {
     }
   }
 
+  // Pattern Management
+  async getRedactionPatterns(): Promise<RedactionPattern[]> {
+    if (this.isFallbackMode) {
+      return [];
+    }
+    
+    try {
+      const result = await Sqlite.query({
+        databaseId: this.databaseId!,
+        statement: `
+          SELECT id, pattern_name, pattern_regex, pattern_category, severity, is_active,
+                 created_at, updated_at, match_type, keywords, source
+          FROM redaction_patterns
+          ORDER BY source ASC, pattern_name ASC
+        `,
+        values: []
+      });
+      
+      if (result.rows) {
+        return result.rows.map(row => ({
+          id: row[0],
+          pattern_name: row[1],
+          pattern_regex: row[2],
+          pattern_category: row[3],
+          severity: row[4],
+          is_active: !!row[5],
+          created_at: row[6],
+          updated_at: row[7],
+          match_type: row[8] || 'regex',
+          keywords: row[9] ?? undefined,
+          source: row[10] || 'builtin'
+        }));
+      }
+      
+      return [];
+    } catch (error) {
+      console.error('❌ [RedactionDB] Failed to get redaction patterns:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create or update a user or organisation pattern, by name
+   */
+  async saveRedactionPattern(pattern: Omit<RedactionPattern, 'id' | 'created_at' | 'updated_at'>): Promise<void> {
+    if (this.isFallbackMode) {
+      console.log('⚠️ [RedactionDB] Fallback mode - pattern not persisted:', pattern.pattern_name);
+      return;
+    }
+    
+    try {
+      await Sqlite.execute({
+        databaseId: this.databaseId!,
+        statement: `
+          INSERT INTO redaction_patterns
+          (pattern_name, pattern_regex, pattern_category, severity, is_active, match_type, keywords, source)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(pattern_name) DO UPDATE SET
+            pattern_regex = excluded.pattern_regex,
+            pattern_category = excluded.pattern_category,
+            severity = excluded.severity,
+            is_active = excluded.is_active,
+            match_type = excluded.match_type,
+            keywords = excluded.keywords,
+            source = excluded.source,
+            updated_at = CURRENT_TIMESTAMP
+          WHERE redaction_patterns.source != 'builtin'
+        `,
+        values: [
+          pattern.pattern_name,
+          pattern.pattern_regex,
+          pattern.pattern_category,
+          pattern.severity,
+          pattern.is_active ? 1 : 0,
+          pattern.match_type,
+          pattern.keywords ?? null,
+          pattern.source
+        ]
+      });
+      
+      console.log('✅ [RedactionDB] Pattern saved:', pattern.pattern_name);
+    } catch (error) {
+      console.error('❌ [RedactionDB] Failed to save pattern:', error);
+      throw error;
+    }
+  }
+
+  async setRedactionPatternActive(patternName: string, isActive: boolean): Promise<void> {
+    if (this.isFallbackMode) {
+      return;
+    }
+    
+    try {
+      await Sqlite.execute({
+        databaseId: this.databaseId!,
+        statement: `
+          UPDATE redaction_patterns
+          SET is_active = ?, updated_at = CURRENT_TIMESTAMP
+          WHERE pattern_name = ?
+        `,
+        values: [isActive ? 1 : 0, patternName]
+      });
+    } catch (error) {
+      console.error('❌ [RedactionDB] Failed to update pattern:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a user or organisation pattern; built-in ones can only be switched off
+   */
+  async deleteRedactionPattern(patternName: string): Promise<boolean> {
+    if (this.isFallbackMode) {
+      return false;
+    }
+    
+    try {
+      const result = await Sqlite.execute({
+        databaseId: this.databaseId!,
+        statement: `DELETE FROM redaction_patterns WHERE pattern_name = ? AND source != 'builtin'`,
+        values: [patternName]
+      });
+      return (result.changes || 0) > 0;
+    } catch (error) {
+      console.error('❌ [RedactionDB] Failed to delete pattern:', error);
+      throw error;
+    }
+  }
+
   // Enhanced Annotation Methods
   
   /**
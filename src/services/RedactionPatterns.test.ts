@@ -0,0 +1,94 @@
+import {
+  GLOBAL_PATTERNS,
+  INDIA_PATTERNS,
+  US_PATTERNS,
+  compileStoredPattern,
+  isPlausibleBirthDate,
+  isPlausibleSsn,
+  isValidIban,
+  isValidLuhn,
+  isValidVerhoeff,
+  scorePatternMatch
+} from './RedactionPatterns';
+
+const THRESHOLD = 0.7;
+
+// Score of a built-in pattern for the value where it appears in the text, 0 if the pattern does not match it
+const scoreOf = (patternName: string, text: string, value: string): number => {
+  const pattern = [...GLOBAL_PATTERNS, ...US_PATTERNS, ...INDIA_PATTERNS].find(p => p.name === patternName)!;
+  const match = Array.from(text.matchAll(pattern.pattern)).find(m => m[0] === value);
+  return match ? scorePatternMatch(match[0], pattern, text, match.index ?? 0) : 0;
+};
+
+describe('validators', () => {
+  test('Verhoeff accepts a valid Aadhaar number and rejects a changed digit', () => {
+    expect(isValidVerhoeff('2345 6789 0124')).toBe(true);
+    expect(isValidVerhoeff('2345 6789 0125')).toBe(false);
+  });
+
+  test('Luhn accepts a valid card number and rejects short or changed ones', () => {
+    expect(isValidLuhn('4111 1111 1111 1111')).toBe(true);
+    expect(isValidLuhn('4111 1111 1111 1112')).toBe(false);
+    expect(isValidLuhn('42')).toBe(false);
+  });
+
+  test('IBAN checks the mod 97 check digits', () => {
+    expect(isValidIban('GB82 WEST 1234 5698 7654 32')).toBe(true);
+    expect(isValidIban('GB83 WEST 1234 5698 7654 32')).toBe(false);
+  });
+
+  test('birth dates must be real dates in the past', () => {
+    expect(isPlausibleBirthDate('01/01/1980')).toBe(true);
+    expect(isPlausibleBirthDate('31/02/1980')).toBe(false);
+    expect(isPlausibleBirthDate(`01/01/${new Date().getFullYear() + 1}`)).toBe(false);
+  });
+
+  test('SSNs with reserved areas, groups or serials are rejected', () => {
+    expect(isPlausibleSsn('123-45-6789')).toBe(true);
+    expect(isPlausibleSsn('666-45-6789')).toBe(false);
+    expect(isPlausibleSsn('123-00-6789')).toBe(false);
+  });
+});
+
+describe('context keywords', () => {
+  test('a labelled account number is redacted', () => {
+    expect(scoreOf('Bank Account', 'A/c No 20231234', '20231234')).toBeGreaterThanOrEqual(THRESHOLD);
+    expect(scoreOf('Bank Account', 'Deposit 20231234 (A/c)', '20231234')).toBeGreaterThanOrEqual(THRESHOLD);
+    expect(scoreOf('Bank Account', 'खाता संख्या 20231234', '20231234')).toBeGreaterThanOrEqual(THRESHOLD);
+  });
+
+  test('the label of the next field does not count', () => {
+    expect(scoreOf('Bank Account', 'Invoice No 20231234 Account Holder Ramesh', '20231234')).toBe(0);
+    expect(scoreOf('Date of Birth', 'Invoice Date 12/03/2023 DOB 01/01/1980', '12/03/2023')).toBe(0);
+  });
+
+  test('the label of the previous field does not count', () => {
+    expect(scoreOf('Date of Birth', 'DOB 01/01/1980 Invoice Date 12/03/2023', '01/01/1980')).toBeGreaterThanOrEqual(THRESHOLD);
+    expect(scoreOf('Date of Birth', 'DOB 01/01/1980 Invoice Date 12/03/2023', '12/03/2023')).toBe(0);
+    expect(scoreOf('Date of Birth', 'Invoice Date 12/03/2023', '12/03/2023')).toBe(0);
+  });
+
+  test('a labelled IFSC is redacted', () => {
+    expect(scoreOf('IFSC', 'IFSC: SBIN0001234', 'SBIN0001234')).toBeGreaterThanOrEqual(THRESHOLD);
+    expect(scoreOf('IFSC', 'A/c 20231234 IFSC Code SBIN0001234', 'SBIN0001234')).toBeGreaterThanOrEqual(THRESHOLD);
+    expect(scoreOf('IFSC', 'Ref SBIN0001234', 'SBIN0001234')).toBeLessThan(THRESHOLD);
+  });
+
+  test('a birth date needs its label before it', () => {
+    expect(scoreOf('Date of Birth', 'Date of Birth: 01/01/1980', '01/01/1980')).toBeGreaterThanOrEqual(THRESHOLD);
+    expect(scoreOf('Date of Birth', '01/01/1980 (DOB)', '01/01/1980')).toBe(0);
+  });
+});
+
+describe('stored patterns', () => {
+  test('a low severity custom pattern can still reach the threshold', () => {
+    const pattern = compileStoredPattern({
+      pattern_name: 'Farm ID',
+      pattern_regex: 'FID-\\d{6}',
+      pattern_category: 'pii',
+      severity: 'low',
+      match_type: 'regex'
+    });
+    expect(scorePatternMatch('FID-123456', pattern)).toBeGreaterThanOrEqual(THRESHOLD);
+  });
+});
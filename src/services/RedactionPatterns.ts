@@ -0,0 +1,413 @@
+import type { RedactionContext, RedactionPattern } from './SensitiveContentDetector';
+import type { RedactionPattern as StoredRedactionPattern } from './RedactionDatabaseService';
+
+/**
+ * Built-in redaction patterns, grouped into packs.
+ *
+ * Patterns without `countries` apply everywhere; the others only for users
+ * in one of the listed countries (ISO 3166 alpha-2, lower case, as in
+ * langData's countryCodes). When the country is unknown every pack applies.
+ *
+ * Patterns that match too much on their own (any long number, any date)
+ * carry validators or a keyword context; see scorePatternMatch.
+ */
+
+// Verhoeff dihedral group tables, used by Aadhaar
+const VERHOEFF_MULTIPLICATION: number[][] = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0]
+];
+
+const VERHOEFF_PERMUTATION: number[][] = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8]
+];
+
+/**
+ * Verhoeff check over all digits in the text (the last digit is the check digit)
+ */
+export function isValidVerhoeff(text: string): boolean {
+  const digits = text.replace(/\D/g, '');
+  if (!digits) {
+    return false;
+  }
+
+  let checksum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits[digits.length - 1 - i]);
+    checksum = VERHOEFF_MULTIPLICATION[checksum][VERHOEFF_PERMUTATION[i % 8][digit]];
+  }
+  return checksum === 0;
+}
+
+/**
+ * Luhn check over all digits in the text, as used by payment cards
+ */
+export function isValidLuhn(text: string): boolean {
+  const digits = text.replace(/\D/g, '');
+  if (digits.length < 12) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 IBAN check: country code and check digits moved to the end,
+ * letters as 10-35, and the whole number mod 97 must be 1
+ */
+export function isValidIban(text: string): boolean {
+  const iban = text.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) {
+    return false;
+  }
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = char >= 'A' ? String(char.charCodeAt(0) - 55) : char;
+    // Digit by digit, the number is far too long for a double
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+/**
+ * Whether the text is a real calendar date in the past 120 years, read as
+ * either DD/MM/YYYY or MM/DD/YYYY
+ */
+export function isPlausibleBirthDate(text: string): boolean {
+  const parts = text.split(/[/.-]/).map(Number);
+  if (parts.length !== 3 || parts.some(part => !Number.isInteger(part))) {
+    return false;
+  }
+
+  const [first, second, year] = parts;
+  const now = new Date();
+  const isValidDate = (day: number, month: number): boolean => {
+    const date = new Date(year, month - 1, day);
+    return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day
+      && date <= now && year >= now.getFullYear() - 120;
+  };
+  return isValidDate(first, second) || isValidDate(second, first);
+}
+
+/**
+ * US SSNs never have area 000, 666 or 900-999, group 00 or serial 0000
+ */
+export function isPlausibleSsn(text: string): boolean {
+  const digits = text.replace(/\D/g, '');
+  const area = digits.slice(0, 3);
+  return digits.length === 9 && area !== '000' && area !== '666' && area[0] !== '9'
+    && digits.slice(3, 5) !== '00' && digits.slice(5) !== '0000';
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Whether one of the context keywords labels text[start..end]: within
+ * `maxDistance` tokens before it, up to the previous value (a token with a
+ * digit), or with `bracketedLabel` in brackets right after it ("12345678 (A/c)").
+ * Text after the match is otherwise the label of the next field in a form row.
+ * Keywords match case-insensitively and only as whole words, so "ac" does
+ * not match inside "account".
+ */
+export function hasContextKeyword(text: string, start: number, end: number, context: RedactionContext): boolean {
+  const tokens = text.substring(0, start).split(/\s+/).filter(token => token.length > 0).slice(-context.maxDistance);
+  const previousValue = tokens.map(token => /[\d०-९]/.test(token)).lastIndexOf(true);
+  const before = tokens.slice(previousValue + 1).join(' ');
+  const after = context.bracketedLabel ? text.substring(end).match(/^\s*\(([^()]{1,30})\)/)?.[1] ?? '' : '';
+  const nearby = `${before} ${after}`;
+
+  // \b does not work for Devanagari, so word boundaries are spelled out
+  return context.keywords.some(keyword =>
+    new RegExp(`(?:^|[^\\p{L}\\p{M}\\p{N}])${escapeRegExp(keyword)}(?:$|[^\\p{L}\\p{M}\\p{N}])`, 'iu').test(nearby)
+  );
+}
+
+/**
+ * Confidence for one match of a pattern. Severity sets the base; passing the
+ * validators or finding a context keyword raises it. Failing a validator, or
+ * missing a required keyword, makes it 0.
+ */
+export function scorePatternMatch(match: string, pattern: RedactionPattern, text: string = match, start: number = 0): number {
+  // Medium severity is redacted by default (threshold 0.7), low severity only with a keyword nearby
+  let confidence = pattern.severity === 'high' ? 0.85 : pattern.severity === 'medium' ? 0.7 : 0.5;
+
+  if (pattern.validators && pattern.validators.length > 0) {
+    if (!pattern.validators.every(validator => validator(match))) {
+      return 0;
+    }
+    confidence += 0.15;
+  }
+
+  if (pattern.context) {
+    if (hasContextKeyword(text, start, start + match.length, pattern.context)) {
+      confidence += 0.2;
+    } else if (pattern.context.required) {
+      return 0;
+    }
+  }
+
+  return Math.min(1.0, confidence);
+}
+
+const ACCOUNT_KEYWORDS = ['a/c', 'ac', 'acc', 'acct', 'account', 'account no', 'bank', 'khata', 'खाता', 'खाता संख्या'];
+
+export const GLOBAL_PATTERNS: RedactionPattern[] = [
+  {
+    name: 'Email Address',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g,
+    severity: 'high',
+    category: 'pii'
+  },
+  {
+    name: 'Credit Card',
+    pattern: /\b(?:\d{4}[-\s]?){3}\d{4}\b/g,
+    severity: 'high',
+    category: 'financial',
+    validators: [isValidLuhn]
+  },
+  {
+    // Any long number matches, so only those labelled as accounts count
+    name: 'Bank Account',
+    pattern: /\b\d{8,17}\b/g,
+    severity: 'high',
+    category: 'financial',
+    context: { keywords: ACCOUNT_KEYWORDS, maxDistance: 4, required: true, bracketedLabel: true }
+  },
+  {
+    name: 'IBAN',
+    pattern: /\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){2,7}(?:\s?[A-Z0-9]{1,4})?\b/g,
+    severity: 'high',
+    category: 'financial',
+    validators: [isValidIban]
+  },
+  {
+    // Invoices and records are full of dates; only those labelled as birth dates are personal
+    name: 'Date of Birth',
+    pattern: /\b\d{1,2}[/.-]\d{1,2}[/.-](?:19|20)\d{2}\b/g,
+    severity: 'high',
+    category: 'pii',
+    validators: [isPlausibleBirthDate],
+    context: { keywords: ['dob', 'd.o.b', 'date of birth', 'born', 'birth', 'जन्म तिथि', 'जन्मतिथि'], maxDistance: 4, required: true }
+  },
+  {
+    name: 'Passport',
+    pattern: /\b[A-Z]{1,2}\d{6,9}\b/g,
+    severity: 'high',
+    category: 'pii',
+    context: { keywords: ['passport', 'पासपोर्ट'], maxDistance: 4, required: true }
+  },
+  {
+    name: 'Medical Record',
+    pattern: /\b(?:MRN|Medical Record|Patient ID)[:\s]*\d{6,12}\b/gi,
+    severity: 'high',
+    category: 'medical'
+  },
+  {
+    name: 'Case Number',
+    pattern: /\b(?:Case|Docket|File)[\s#:]*[A-Z0-9-]{6,20}\b/gi,
+    severity: 'medium',
+    category: 'legal'
+  }
+];
+
+export const US_PATTERNS: RedactionPattern[] = [
+  {
+    // Not part of a longer number
+    name: 'Phone Number',
+    pattern: /(?<![\d.,])(\+?1[-.\s]?)?\(?[0-9]{3}\)?[-.\s]?[0-9]{3}[-.\s]?[0-9]{4}(?![\d.,]\d)/g,
+    severity: 'high',
+    category: 'pii',
+    countries: ['us'],
+    context: { keywords: ['phone', 'tel', 'mobile', 'cell', 'fax', 'call'], maxDistance: 4 }
+  },
+  {
+    name: 'SSN',
+    pattern: /\b\d{3}-?\d{2}-?\d{4}\b/g,
+    severity: 'high',
+    category: 'pii',
+    countries: ['us'],
+    validators: [isPlausibleSsn],
+    context: { keywords: ['ssn', 'social security', 'ss#', 'ss no'], maxDistance: 4 }
+  },
+  {
+    name: 'Address',
+    pattern: /\b\d+\s+[A-Za-z0-9\s,.-]+(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Way|Place|Pl)\b/gi,
+    severity: 'medium',
+    category: 'pii',
+    countries: ['us']
+  },
+  {
+    name: 'Driver License',
+    pattern: /\b[A-Z]\d{7,8}\b/g,
+    severity: 'high',
+    category: 'pii',
+    countries: ['us'],
+    context: { keywords: ['dl', 'license', 'licence', 'driver', "driver's"], maxDistance: 4, required: true }
+  }
+];
+
+// Identifiers found on Indian land records, loan papers and ID cards
+export const INDIA_PATTERNS: RedactionPattern[] = [
+  {
+    // 12 digits, never starting with 0 or 1, last digit is a Verhoeff check digit
+    name: 'Aadhaar',
+    pattern: /\b[2-9]\d{3}[\s-]?\d{4}[\s-]?\d{4}\b/g,
+    severity: 'high',
+    category: 'pii',
+    countries: ['in'],
+    validators: [isValidVerhoeff],
+    context: { keywords: ['aadhaar', 'aadhar', 'uid', 'uidai', 'आधार'], maxDistance: 4 }
+  },
+  {
+    // Fourth letter is the holder type (P = person, C = company, F = firm, ...)
+    name: 'PAN',
+    pattern: /\b[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z]\b/g,
+    severity: 'high',
+    category: 'financial',
+    countries: ['in']
+  },
+  {
+    // Identifies a bank branch, not a person, so only when labelled
+    name: 'IFSC',
+    pattern: /\b[A-Z]{4}0[A-Z0-9]{6}\b/g,
+    severity: 'low',
+    category: 'financial',
+    countries: ['in'],
+    context: { keywords: ['ifsc', 'ifs code', 'ifsc code', 'branch code', 'आईएफएससी'], maxDistance: 4 }
+  },
+  {
+    // name@bank handles have no dot after the @, unlike email addresses
+    name: 'UPI ID',
+    pattern: /\b[A-Za-z0-9._-]{2,256}@[A-Za-z]{2,64}\b(?![.@\w])/g,
+    severity: 'high',
+    category: 'financial',
+    countries: ['in']
+  },
+  {
+    name: 'Mobile Number (India)',
+    pattern: /(?:\+91[\s-]?|\b0|\b)[6-9]\d{4}[\s-]?\d{5}\b/g,
+    severity: 'high',
+    category: 'pii',
+    countries: ['in'],
+    context: { keywords: ['mob', 'mobile', 'phone', 'ph', 'tel', 'contact', 'मोबाइल', 'फोन'], maxDistance: 4 }
+  },
+  {
+    name: 'Voter ID',
+    pattern: /\b[A-Z]{3}\d{7}\b/g,
+    severity: 'high',
+    category: 'pii',
+    countries: ['in'],
+    context: { keywords: ['epic', 'voter', 'elector', 'मतदाता'], maxDistance: 4 }
+  },
+  {
+    // Formats differ by state, so only numbers labelled as ration cards are matched
+    name: 'Ration Card',
+    pattern: /\bRation\s*Card\s*(?:No\.?|Number)?[\s:.-]*[A-Z0-9/-]{6,20}\b/gi,
+    severity: 'medium',
+    category: 'pii',
+    countries: ['in']
+  },
+  {
+    name: 'Kisan Credit Card',
+    pattern: /\b(?:KCC|Kisan\s+Credit\s+Card)\s*(?:A\/c|Account|Card)?\s*(?:No\.?|Number)?[\s:.-]*\d[\d\s-]{6,22}\d\b/gi,
+    severity: 'high',
+    category: 'financial',
+    countries: ['in']
+  },
+  {
+    name: 'Khasra / Survey Number',
+    pattern: /\b(?:Khasra|Khatauni|Khata|Survey|Gata)\s*(?:No\.?|Number|Sankhya)?[\s:.-]*\d+(?:[/-]\d+[A-Za-z]?)*/gi,
+    severity: 'medium',
+    category: 'legal',
+    countries: ['in']
+  },
+  {
+    // The same labels in Devanagari, which \b does not treat as word characters
+    name: 'Khasra / Survey Number (Hindi)',
+    pattern: /(?:खसरा|खतौनी|खाता|सर्वे|गाटा)\s*(?:नं\.?|नंबर|संख्या)?[\s:.-]*[\d०-९]+(?:[/-][\d०-९]+)*/g,
+    severity: 'medium',
+    category: 'legal',
+    countries: ['in']
+  }
+];
+
+/**
+ * Turn a user or organisation pattern from the database into one the
+ * detector can run. Keyword lists match any of the terms as whole words,
+ * ignoring case. Throws if the regex does not compile or there are no terms.
+ */
+export function compileStoredPattern(stored: Pick<StoredRedactionPattern,
+  'pattern_name' | 'pattern_regex' | 'pattern_category' | 'severity' | 'match_type' | 'keywords'>): RedactionPattern {
+  let pattern: RegExp;
+
+  if (stored.match_type === 'keywords') {
+    const terms: string[] = (stored.keywords ? JSON.parse(stored.keywords) as string[] : [])
+      .map(term => term.trim())
+      .filter(term => term.length > 0);
+    if (terms.length === 0) {
+      throw new Error(`Pattern "${stored.pattern_name}" has no keywords`);
+    }
+    // Longest first, so "Scheme No" wins over "Scheme"
+    const alternatives = terms.sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+    pattern = new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])(?:${alternatives})(?![\\p{L}\\p{M}\\p{N}])`, 'giu');
+  } else {
+    if (!stored.pattern_regex.trim()) {
+      throw new Error(`Pattern "${stored.pattern_name}" has an empty regex`);
+    }
+    pattern = new RegExp(stored.pattern_regex, 'g');
+    // A pattern that matches empty text would flag every position in every document
+    if (pattern.test('')) {
+      throw new Error(`Pattern "${stored.pattern_name}" matches empty text`);
+    }
+    pattern.lastIndex = 0;
+  }
+
+  return {
+    name: stored.pattern_name,
+    pattern,
+    // Low severity needs a context keyword to reach the threshold, and stored patterns have none
+    severity: stored.severity === 'low' ? 'medium' : stored.severity,
+    category: stored.pattern_category
+  };
+}
+
+/**
+ * Patterns for a country, or every pack when the country is unknown
+ */
+export function getPatternsForCountry(country: string | null): RedactionPattern[] {
+  const patterns = [...GLOBAL_PATTERNS, ...US_PATTERNS, ...INDIA_PATTERNS];
+  if (!country) {
+    return patterns;
+  }
+  return patterns.filter(pattern => !pattern.countries || pattern.countries.includes(country.toLowerCase()));
+}
@@ -10,6 +10,7 @@ export interface ChatSession {
   updated_at: string;
   is_archived: boolean;
   metadata?: any;
+  is_pinned: boolean;
 }
 
 export interface ChatMessage {
@@ -34,6 +35,30 @@ export interface MessageVersion {
   edit_reason?: string;
 }
 
+export interface ImportedMessage extends Omit<ChatMessage, 'id' | 'message_id' | 'session_id'> {
+  // Earlier contents, oldest first
+  versions?: Array<Omit<MessageVersion, 'id' | 'message_id' | 'version_number'>>;
+}
+
+export interface MessageSearchFilters {
+  sender?: 'user' | 'bot';
+  modelUsed?: string;
+  // ISO date-times, inclusive
+  fromDate?: string;
+  toDate?: string;
+}
+
+export interface MessageSearchResult extends ChatMessage {
+  session_title: string;
+  // Excerpt around the match; matched terms are wrapped in SEARCH_MATCH_START / SEARCH_MATCH_END
+  snippet: string;
+  rank: number;
+}
+
+// Control characters mark highlighted terms in snippets so that message text is never parsed as HTML
+export const SEARCH_MATCH_START = '\u0002';
+export const SEARCH_MATCH_END = '\u0003';
+
 export interface ChatHistoryItem {
   session_id: string;
   title: string;
@@ -42,13 +67,46 @@ export interface ChatHistoryItem {
   first_user_message: string;
   display_title: string;
   formatted_date: string;
+  is_pinned: boolean;
+  is_archived: boolean;
+  tags: string[];
+}
+
+export interface ChatHistoryOptions {
+  // List archived sessions instead of active ones
+  archived?: boolean;
+  // Only sessions carrying this tag
+  tag?: string;
+}
+
+export interface SessionTagCount {
+  tag: string;
+  count: number;
+}
+
+export type OutboxStatus = 'pending' | 'sending';
+
+// A user message that could not be published and waits for the WebSocket to come back
+export interface OutboxEntry {
+  id?: number;
+  message_id: string;
+  // Taken from the saved message, null if it was never saved
+  session_id: string | null;
+  content: string;
+  model?: string;
+  status: OutboxStatus;
+  attempts: number;
+  created_at: string;
 }
 
+// Separates tags aggregated with group_concat (tags are free text and may contain commas)
+const TAG_SEPARATOR = '\u001f';
+
 class SQLiteService {
   private static instance: SQLiteService;
   private databaseId: string | null = null; // Changed from dbConnection
   private readonly DB_NAME = 'chatbot_history.db';
-  private readonly DB_VERSION = 1;
+  private readonly DB_VERSION = 4;
   private isInitialized = false;
   private isInitializing = false;
   private initializationPromise: Promise<void> | null = null;
@@ -108,6 +166,18 @@ class SQLiteService {
           {
             version: 1,
             statements: this.getCreateTableStatements()
+          },
+          {
+            version: 2,
+            statements: this.getSearchIndexStatements()
+          },
+          {
+            version: 3,
+            statements: this.getOrganisationStatements()
+          },
+          {
+            version: 4,
+            statements: this.getOutboxStatements()
           }
         ]
       });
@@ -140,7 +210,12 @@ class SQLiteService {
 
   private async _createTablesManually(): Promise<void> {
     console.log('🔧 [SQLite] Creating tables manually...');
-    const statements = this.getCreateTableStatements();
+    const statements = [
+      ...this.getCreateTableStatements(),
+      ...this.getSearchIndexStatements(),
+      ...this.getOrganisationStatements(),
+      ...this.getOutboxStatements()
+    ];
     
     for (const statement of statements) {
       try {
@@ -151,7 +226,8 @@ class SQLiteService {
         console.log('✅ [SQLite] Created table:', statement.match(/CREATE TABLE[^(]*\(([^)]*)\)/i)?.[0]?.substring(0, 50) + '...');
       } catch (error) {
         // Log but don't throw for "already exists" errors
-        if ((error as Error).message?.includes('already exists')) {
+        const message = (error as Error).message || '';
+        if (message.includes('already exists') || message.includes('duplicate column')) {
           console.log('ℹ️ [SQLite] Table already exists, skipping...');
         } else {
           console.error('❌ [SQLite] Failed to create table:', error);
@@ -250,6 +326,60 @@ class SQLiteService {
     ];
   }
 
+  // Version 2: FTS5 index over message content, kept in sync with triggers
+  private getSearchIndexStatements(): string[] {
+    return [
+      `CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+        content,
+        content='messages',
+        content_rowid='id',
+        tokenize='unicode61 remove_diacritics 2'
+      )`,
+
+      `CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+        INSERT INTO messages_fts(rowid, content) VALUES (new.id, new.content);
+      END`,
+
+      `CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+        INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', old.id, old.content);
+      END`,
+
+      // Covers editMessage(), which rewrites content in place
+      `CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF content ON messages BEGIN
+        INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', old.id, old.content);
+        INSERT INTO messages_fts(rowid, content) VALUES (new.id, new.content);
+      END`,
+
+      // Index messages saved before the search index existed
+      `INSERT INTO messages_fts(messages_fts) VALUES ('rebuild')`
+    ];
+  }
+
+  // Version 3: pinning and case-insensitive unique tags per session
+  private getOrganisationStatements(): string[] {
+    return [
+      `ALTER TABLE chat_sessions ADD COLUMN is_pinned BOOLEAN DEFAULT FALSE`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_session_tags_unique ON session_tags(session_id, tag COLLATE NOCASE)`,
+      `CREATE INDEX IF NOT EXISTS idx_session_tags_tag ON session_tags(tag COLLATE NOCASE)`
+    ];
+  }
+
+  // Version 4: outbox of user messages waiting to be sent to the server
+  private getOutboxStatements(): string[] {
+    return [
+      `CREATE TABLE IF NOT EXISTS outbox (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        message_id TEXT UNIQUE NOT NULL,
+        content TEXT NOT NULL,
+        model TEXT,
+        status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending')),
+        attempts INTEGER NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_outbox_created_at ON outbox(created_at)`
+    ];
+  }
+
   // Session Management
   async createSession(deviceId: string, title?: string): Promise<string> {
     console.log('🔍 [SQLite] createSession called with deviceId:', deviceId, 'title:', title);
@@ -292,10 +422,116 @@ class SQLiteService {
       created_at: row[4] as string,
       updated_at: row[5] as string,
       is_archived: Boolean(row[6]),
-      metadata: row[7] ? JSON.parse(row[7] as string) : null
+      metadata: row[7] ? JSON.parse(row[7] as string) : null,
+      is_pinned: Boolean(row[8])
     }));
   }
 
+  async getSession(sessionId: string): Promise<ChatSession | null> {
+    await this._ensureInitialized();
+
+    const result = await Sqlite.query({
+      databaseId: this.databaseId!,
+      statement: `SELECT * FROM chat_sessions WHERE session_id = ?`,
+      values: [sessionId]
+    });
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    return {
+      id: row[0] as number,
+      session_id: row[1] as string,
+      device_id: row[2] as string,
+      title: row[3] as string,
+      created_at: row[4] as string,
+      updated_at: row[5] as string,
+      is_archived: Boolean(row[6]),
+      metadata: row[7] ? JSON.parse(row[7] as string) : null,
+      is_pinned: Boolean(row[8])
+    };
+  }
+
+  /**
+   * Recreate a session from exported data as a new session, keeping the
+   * original timestamps and edit history. Message ids are regenerated so an
+   * export can be imported more than once.
+   */
+  async importSession(
+    deviceId: string,
+    session: { title?: string; created_at?: string; tags?: string[] },
+    messages: ImportedMessage[]
+  ): Promise<string> {
+    await this._ensureInitialized();
+
+    const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const createdAt = session.created_at || new Date().toISOString();
+    const updatedAt = messages.length > 0 ? messages[messages.length - 1].created_at : createdAt;
+
+    await Sqlite.beginTransaction({ databaseId: this.databaseId! });
+
+    try {
+      await Sqlite.execute({
+        databaseId: this.databaseId!,
+        // datetime() stores imported ISO timestamps in the same format as CURRENT_TIMESTAMP so ordering stays consistent
+        statement: `INSERT INTO chat_sessions (session_id, device_id, title, created_at, updated_at) 
+                    VALUES (?, ?, ?, COALESCE(datetime(?), CURRENT_TIMESTAMP), COALESCE(datetime(?), CURRENT_TIMESTAMP))`,
+        values: [sessionId, deviceId, session.title || 'Imported Chat', createdAt, updatedAt]
+      });
+
+      for (const [index, message] of messages.entries()) {
+        const messageId = `imported_${Date.now()}_${index}_${Math.random().toString(36).substr(2, 9)}`;
+
+        await Sqlite.execute({
+          databaseId: this.databaseId!,
+          statement: `INSERT INTO messages (message_id, session_id, content, sender, model_used, language, created_at, is_error, metadata) 
+                      VALUES (?, ?, ?, ?, ?, ?, COALESCE(datetime(?), CURRENT_TIMESTAMP), ?, ?)`,
+          values: [
+            messageId,
+            sessionId,
+            message.content,
+            message.sender,
+            message.model_used || null,
+            message.language || null,
+            message.created_at,
+            message.is_error ? 1 : 0,
+            message.metadata ? JSON.stringify(message.metadata) : null
+          ]
+        });
+
+        for (const [versionIndex, version] of (message.versions || []).entries()) {
+          await Sqlite.execute({
+            databaseId: this.databaseId!,
+            statement: `INSERT INTO message_versions (message_id, version_number, content, edited_at, edit_reason) 
+                        VALUES (?, ?, ?, COALESCE(datetime(?), CURRENT_TIMESTAMP), ?)`,
+            values: [messageId, versionIndex + 1, version.content, version.edited_at, version.edit_reason || null]
+          });
+        }
+      }
+
+      for (const tag of session.tags || []) {
+        if (tag.trim()) {
+          await Sqlite.execute({
+            databaseId: this.databaseId!,
+            statement: `INSERT OR IGNORE INTO session_tags (session_id, tag) VALUES (?, ?)`,
+            values: [sessionId, tag.trim()]
+          });
+        }
+      }
+
+      await Sqlite.commitTransaction({ databaseId: this.databaseId! });
+      console.log(`✅ [SQLite] Imported session ${sessionId} with ${messages.length} message(s)`);
+    } catch (error) {
+      console.error('❌ [SQLite] Error importing session:', error);
+      await Sqlite.rollbackTransaction({ databaseId: this.databaseId! });
+      throw error;
+    }
+
+    return sessionId;
+  }
+
   // Message Management
   async saveMessage(message: Omit<ChatMessage, 'id'>): Promise<void> {
     console.log('🔍 [SQLite] saveMessage called with message:', {
@@ -401,9 +637,37 @@ class SQLiteService {
     }));
   }
 
+  async getMessage(messageId: string): Promise<ChatMessage | null> {
+    await this._ensureInitialized();
+
+    const result = await Sqlite.query({
+      databaseId: this.databaseId!,
+      statement: `SELECT * FROM messages WHERE message_id = ?`,
+      values: [messageId]
+    });
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    return {
+      id: row[0] as number,
+      message_id: row[1] as string,
+      session_id: row[2] as string,
+      content: row[3] as string,
+      sender: row[4] as 'user' | 'bot',
+      model_used: row[5] as string,
+      language: row[6] as string,
+      created_at: row[7] as string,
+      is_error: Boolean(row[8]),
+      metadata: row[9] ? JSON.parse(row[9] as string) : null
+    };
+  }
+
   // Chat History methods
-  async getChatHistory(deviceId: string, limit: number = 50): Promise<ChatHistoryItem[]> {
-    console.log('🔍 [SQLite] getChatHistory called with deviceId:', deviceId, 'limit:', limit);
+  async getChatHistory(deviceId: string, limit: number = 50, options: ChatHistoryOptions = {}): Promise<ChatHistoryItem[]> {
+    console.log('🔍 [SQLite] getChatHistory called with deviceId:', deviceId, 'limit:', limit, 'options:', options);
     await this._ensureInitialized();
     console.log('✅ [SQLite] Database initialized, proceeding with query');
     
@@ -417,12 +681,18 @@ class SQLiteService {
             cs.title,
             cs.created_at,
             cs.updated_at,
-            (SELECT content FROM messages WHERE session_id = cs.session_id AND sender = 'user' ORDER BY created_at ASC LIMIT 1) as first_user_message
+            (SELECT content FROM messages WHERE session_id = cs.session_id AND sender = 'user' ORDER BY created_at ASC LIMIT 1) as first_user_message,
+            cs.is_pinned,
+            cs.is_archived,
+            (SELECT group_concat(tag, '${TAG_SEPARATOR}') FROM session_tags WHERE session_id = cs.session_id) as tags
           FROM chat_sessions cs
-          WHERE cs.device_id = ? AND cs.is_archived = FALSE
-          ORDER BY cs.updated_at DESC 
+          WHERE cs.device_id = ? AND cs.is_archived = ?
+            ${options.tag ? 'AND EXISTS (SELECT 1 FROM session_tags st WHERE st.session_id = cs.session_id AND st.tag = ? COLLATE NOCASE)' : ''}
+          ORDER BY cs.is_pinned DESC, cs.updated_at DESC 
           LIMIT ?`,
-        values: [deviceId, limit]
+        values: options.tag
+          ? [deviceId, options.archived ? 1 : 0, options.tag, limit]
+          : [deviceId, options.archived ? 1 : 0, limit]
       });
 
       console.log('📊 [SQLite] Query result:', result);
@@ -444,7 +714,10 @@ class SQLiteService {
         updated_at: row[3] as string,
         first_user_message: row[4] as string || 'New Chat',
         display_title: this.formatChatTitle(row[4] as string || row[1] as string || 'New Chat'),
-        formatted_date: this.formatDate(row[3] as string)
+        formatted_date: this.formatDate(row[3] as string),
+        is_pinned: Boolean(row[5]),
+        is_archived: Boolean(row[6]),
+        tags: row[7] ? (row[7] as string).split(TAG_SEPARATOR).sort((a, b) => a.localeCompare(b)) : []
       }));
 
       console.log('📊 [SQLite] Mapped result:', mappedResult);
@@ -511,6 +784,14 @@ class SQLiteService {
     await Sqlite.beginTransaction({ databaseId: this.databaseId! });
     
     try {
+      // Drop queued messages of this session so they are not sent after it is gone
+      await Sqlite.execute({
+        databaseId: this.databaseId!,
+        statement: `DELETE FROM outbox WHERE message_id IN 
+                    (SELECT message_id FROM messages WHERE session_id = ?)`,
+        values: [sessionId]
+      });
+
       // Delete messages first (due to foreign key constraint)
       await Sqlite.execute({
         databaseId: this.databaseId!,
@@ -557,6 +838,163 @@ class SQLiteService {
     });
   }
 
+  // Session organisation - none of these touch updated_at, so the list order stays stable
+  async archiveSession(sessionId: string): Promise<void> {
+    await this.setSessionFlag(sessionId, 'is_archived', true);
+  }
+
+  async unarchiveSession(sessionId: string): Promise<void> {
+    await this.setSessionFlag(sessionId, 'is_archived', false);
+  }
+
+  async setSessionPinned(sessionId: string, pinned: boolean): Promise<void> {
+    await this.setSessionFlag(sessionId, 'is_pinned', pinned);
+  }
+
+  private async setSessionFlag(sessionId: string, column: 'is_archived' | 'is_pinned', value: boolean): Promise<void> {
+    await this._ensureInitialized();
+
+    await Sqlite.execute({
+      databaseId: this.databaseId!,
+      statement: `UPDATE chat_sessions SET ${column} = ? WHERE session_id = ?`,
+      values: [value ? 1 : 0, sessionId]
+    });
+  }
+
+  async addSessionTag(sessionId: string, tag: string): Promise<void> {
+    await this._ensureInitialized();
+
+    const normalizedTag = tag.trim().replace(/\s+/g, ' ');
+    if (!normalizedTag) {
+      throw new Error('Tag cannot be empty');
+    }
+
+    // The unique index ignores case, so "Kharif" and "kharif" are the same tag
+    await Sqlite.execute({
+      databaseId: this.databaseId!,
+      statement: `INSERT OR IGNORE INTO session_tags (session_id, tag) VALUES (?, ?)`,
+      values: [sessionId, normalizedTag]
+    });
+  }
+
+  async removeSessionTag(sessionId: string, tag: string): Promise<void> {
+    await this._ensureInitialized();
+
+    await Sqlite.execute({
+      databaseId: this.databaseId!,
+      statement: `DELETE FROM session_tags WHERE session_id = ? AND tag = ? COLLATE NOCASE`,
+      values: [sessionId, tag]
+    });
+  }
+
+  async getSessionTags(sessionId: string): Promise<string[]> {
+    await this._ensureInitialized();
+
+    const result = await Sqlite.query({
+      databaseId: this.databaseId!,
+      statement: `SELECT tag FROM session_tags WHERE session_id = ? ORDER BY tag COLLATE NOCASE`,
+      values: [sessionId]
+    });
+
+    return result.rows.map(row => row[0] as string);
+  }
+
+  /**
+   * Tags in use on this device with the number of sessions carrying each,
+   * counted among archived or active sessions
+   */
+  async getTags(deviceId: string, archived: boolean = false): Promise<SessionTagCount[]> {
+    await this._ensureInitialized();
+
+    const result = await Sqlite.query({
+      databaseId: this.databaseId!,
+      statement: `SELECT MIN(st.tag), COUNT(DISTINCT st.session_id) FROM session_tags st
+                  JOIN chat_sessions cs ON st.session_id = cs.session_id
+                  WHERE cs.device_id = ? AND cs.is_archived = ?
+                  GROUP BY st.tag COLLATE NOCASE
+                  ORDER BY st.tag COLLATE NOCASE`,
+      values: [deviceId, archived ? 1 : 0]
+    });
+
+    return result.rows.map(row => ({
+      tag: row[0] as string,
+      count: row[1] as number
+    }));
+  }
+
+  // Outbox
+  /**
+   * Queue a message for sending. Queuing the same message_id twice is a no-op,
+   * so a message is never sent more than once from this device.
+   */
+  async enqueueOutboxMessage(messageId: string, content: string, model?: string): Promise<void> {
+    await this._ensureInitialized();
+
+    await Sqlite.execute({
+      databaseId: this.databaseId!,
+      statement: `INSERT OR IGNORE INTO outbox (message_id, content, model) VALUES (?, ?, ?)`,
+      values: [messageId, content, model ?? null]
+    });
+  }
+
+  // Queued messages, oldest first
+  async getOutboxMessages(): Promise<OutboxEntry[]> {
+    await this._ensureInitialized();
+
+    const result = await Sqlite.query({
+      databaseId: this.databaseId!,
+      statement: `SELECT o.id, o.message_id, m.session_id, o.content, o.model, o.status, o.attempts, o.created_at
+                  FROM outbox o
+                  LEFT JOIN messages m ON m.message_id = o.message_id
+                  ORDER BY o.created_at ASC, o.id ASC`
+    });
+
+    return result.rows.map(row => ({
+      id: row[0] as number,
+      message_id: row[1] as string,
+      session_id: (row[2] as string) ?? null,
+      content: row[3] as string,
+      model: (row[4] as string) ?? undefined,
+      status: row[5] as OutboxStatus,
+      attempts: row[6] as number,
+      created_at: row[7] as string
+    }));
+  }
+
+  // Moving to 'sending' counts as a delivery attempt
+  async setOutboxStatus(messageId: string, status: OutboxStatus): Promise<void> {
+    await this._ensureInitialized();
+
+    await Sqlite.execute({
+      databaseId: this.databaseId!,
+      statement: `UPDATE outbox SET status = ?, attempts = attempts + ? WHERE message_id = ?`,
+      values: [status, status === 'sending' ? 1 : 0, messageId]
+    });
+  }
+
+  /**
+   * Return messages left in 'sending' (the app stopped mid-send) to the queue.
+   * They may have reached the server already, which drops repeats by message_id.
+   */
+  async resetOutboxSending(): Promise<void> {
+    await this._ensureInitialized();
+
+    await Sqlite.execute({
+      databaseId: this.databaseId!,
+      statement: `UPDATE outbox SET status = 'pending' WHERE status = 'sending'`
+    });
+  }
+
+  async removeOutboxMessage(messageId: string): Promise<void> {
+    await this._ensureInitialized();
+
+    await Sqlite.execute({
+      databaseId: this.databaseId!,
+      statement: `DELETE FROM outbox WHERE message_id = ?`,
+      values: [messageId]
+    });
+  }
+
   async close(): Promise<void> {
     if (this.isInitialized && this.databaseId) {
       await Sqlite.close({ databaseId: this.databaseId });
@@ -565,17 +1003,56 @@ class SQLiteService {
     }
   }
 
-  // Additional utility methods for better error handling
-  async searchMessages(deviceId: string, query: string, limit: number = 20): Promise<ChatMessage[]> {
+  /**
+   * Full-text search over the device's messages, best matches first.
+   * Every word of the query must match (as a prefix, so "fertil" finds "fertiliser").
+   */
+  async searchMessages(
+    deviceId: string,
+    query: string,
+    filters: MessageSearchFilters = {},
+    limit: number = 20
+  ): Promise<MessageSearchResult[]> {
     await this._ensureInitialized();
-    
+
+    const matchExpression = this.toFtsQuery(query);
+    if (!matchExpression) {
+      return [];
+    }
+
+    const conditions = ['messages_fts MATCH ?', 's.device_id = ?', 'm.is_error = 0'];
+    const values: (string | number)[] = [matchExpression, deviceId];
+
+    if (filters.sender) {
+      conditions.push('m.sender = ?');
+      values.push(filters.sender);
+    }
+    if (filters.modelUsed) {
+      conditions.push('m.model_used = ?');
+      values.push(filters.modelUsed);
+    }
+    if (filters.fromDate) {
+      conditions.push('datetime(m.created_at) >= datetime(?)');
+      values.push(filters.fromDate);
+    }
+    if (filters.toDate) {
+      conditions.push('datetime(m.created_at) <= datetime(?)');
+      values.push(filters.toDate);
+    }
+    values.push(limit);
+
     const result = await Sqlite.query({
       databaseId: this.databaseId!,
-      statement: `SELECT m.* FROM messages m 
-                  JOIN chat_sessions s ON m.session_id = s.session_id 
-                  WHERE s.device_id = ? AND m.content LIKE ? 
-                  ORDER BY m.created_at DESC LIMIT ?`,
-      values: [deviceId, `%${query}%`, limit]
+      statement: `SELECT m.*, s.title,
+                    snippet(messages_fts, 0, '${SEARCH_MATCH_START}', '${SEARCH_MATCH_END}', '…', 16) AS snippet,
+                    bm25(messages_fts) AS rank
+                  FROM messages_fts
+                  JOIN messages m ON m.id = messages_fts.rowid
+                  JOIN chat_sessions s ON m.session_id = s.session_id
+                  WHERE ${conditions.join(' AND ')}
+                  ORDER BY rank, m.created_at DESC
+                  LIMIT ?`,
+      values
     });
 
     return result.rows.map(row => ({
@@ -588,10 +1065,41 @@ class SQLiteService {
       language: row[6] as string,
       created_at: row[7] as string,
       is_error: Boolean(row[8]),
-      metadata: row[9] ? JSON.parse(row[9] as string) : null
+      metadata: row[9] ? JSON.parse(row[9] as string) : null,
+      session_title: this.formatChatTitle(row[10] as string),
+      snippet: row[11] as string,
+      rank: row[12] as number
     }));
   }
 
+  /**
+   * Models that produced at least one message on this device, for the search filter
+   */
+  async getModelsUsed(deviceId: string): Promise<string[]> {
+    await this._ensureInitialized();
+
+    const result = await Sqlite.query({
+      databaseId: this.databaseId!,
+      statement: `SELECT DISTINCT m.model_used FROM messages m
+                  JOIN chat_sessions s ON m.session_id = s.session_id
+                  WHERE s.device_id = ? AND m.model_used IS NOT NULL
+                  ORDER BY m.model_used`,
+      values: [deviceId]
+    });
+
+    return result.rows.map(row => row[0] as string);
+  }
+
+  // Quote each word so FTS5 syntax in user input (AND, *, ", :) is matched literally
+  private toFtsQuery(query: string): string {
+    return query
+      .split(/\s+/)
+      .map(term => term.replace(/"/g, ''))
+      .filter(term => term.length > 0)
+      .map(term => `"${term}"*`)
+      .join(' ');
+  }
+
   // Message Versioning
   async editMessage(messageId: string, newContent: string, reason?: string): Promise<void> {
     await this._ensureInitialized();
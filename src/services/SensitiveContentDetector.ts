@@ -0,0 +1,225 @@
+import AuthService from './AuthService';
+import { getPatternsForCountry, scorePatternMatch } from './RedactionPatterns';
+
+/**
+ * Sensitive Content Detector - the one place that decides what is sensitive
+ *
+ * Content analysis (the badges in the selection modal) and redaction (what
+ * is actually removed) both call detect(), so a section is flagged exactly
+ * when something in it would be redacted.
+ */
+
+export type RedactionCategory = 'pii' | 'financial' | 'medical' | 'legal' | 'other';
+
+// Checks the matched text itself, e.g. a checksum
+export type RedactionValidator = (match: string) => boolean;
+
+// Words expected near a match, e.g. "A/c" before an account number
+export interface RedactionContext {
+  keywords: string[];
+  // How many whitespace-separated tokens before the match to look at
+  maxDistance: number;
+  // Drop matches with no keyword nearby (for patterns that match too much on their own)
+  required?: boolean;
+  // Also accept a keyword in brackets right after the match, e.g. "12345678 (A/c)"
+  bracketedLabel?: boolean;
+}
+
+export interface RedactionPattern {
+  name: string;
+  pattern: RegExp;
+  severity: 'high' | 'medium' | 'low';
+  category: RedactionCategory;
+  // Only applied for users in these countries (ISO alpha-2, lower case); everywhere if absent
+  countries?: string[];
+  // All must pass; a match failing any of them is not redacted
+  validators?: RedactionValidator[];
+  context?: RedactionContext;
+}
+
+export interface SensitiveFinding {
+  patternName: string;
+  category: RedactionCategory;
+  // Offsets into the scanned text, end exclusive
+  start: number;
+  end: number;
+  text: string;
+  confidence: number;
+}
+
+export interface DetectionOptions {
+  // Only look for these categories; all of them if absent
+  categories?: RedactionCategory[];
+  confidenceThreshold?: number;
+}
+
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.7;
+
+// Pattern name of findings added by hand in the redaction editor
+export const MANUAL_PATTERN_NAME = 'Manual';
+
+export class SensitiveContentDetector {
+  private static instance: SensitiveContentDetector;
+  private patterns: RedactionPattern[] = getPatternsForCountry(null);
+  // User and organisation patterns, loaded from the database by DocumentRedactionService
+  private customPatterns: RedactionPattern[] = [];
+  // Built-in patterns switched off in settings
+  private disabledPatterns: Set<string> = new Set();
+  // User's country (ISO alpha-2), selects the locale-specific patterns; null applies them all
+  private country: string | null = null;
+  private countryLoaded = false;
+
+  private constructor() {}
+
+  public static getInstance(): SensitiveContentDetector {
+    if (!SensitiveContentDetector.instance) {
+      SensitiveContentDetector.instance = new SensitiveContentDetector();
+    }
+    return SensitiveContentDetector.instance;
+  }
+
+  /**
+   * Set the user's country (ISO alpha-2, e.g. 'in'); null applies every country's patterns
+   */
+  setCountry(country: string | null): void {
+    this.country = country ? country.toLowerCase() : null;
+    this.countryLoaded = true;
+  }
+
+  getCountry(): string | null {
+    return this.country;
+  }
+
+  /**
+   * Patterns detect() runs: enabled built-ins, then custom ones
+   */
+  getPatterns(): RedactionPattern[] {
+    return [
+      ...this.patterns.filter(pattern => !this.disabledPatterns.has(pattern.name)),
+      ...this.customPatterns
+    ];
+  }
+
+  getBuiltinPatterns(): RedactionPattern[] {
+    return [...this.patterns];
+  }
+
+  setCustomPatterns(patterns: RedactionPattern[]): void {
+    this.customPatterns = [...patterns];
+  }
+
+  setDisabledPatterns(patternNames: string[]): void {
+    this.disabledPatterns = new Set(patternNames);
+  }
+
+  /**
+   * Remove a custom pattern, or switch off a built-in one
+   */
+  removePattern(patternName: string): boolean {
+    const index = this.customPatterns.findIndex(p => p.name === patternName);
+    if (index !== -1) {
+      this.customPatterns.splice(index, 1);
+      return true;
+    }
+    if (this.patterns.some(p => p.name === patternName) && !this.disabledPatterns.has(patternName)) {
+      this.disabledPatterns.add(patternName);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Find sensitive content in the text, ordered by position. Overlapping
+   * findings from different patterns are all returned; redact() merges them.
+   */
+  async detect(text: string, options: DetectionOptions = {}): Promise<SensitiveFinding[]> {
+    await this.loadCountry();
+    const threshold = options.confidenceThreshold ?? DEFAULT_CONFIDENCE_THRESHOLD;
+    const findings: SensitiveFinding[] = [];
+
+    for (const pattern of this.getPatterns()) {
+      if (pattern.countries && this.country && !pattern.countries.includes(this.country)) {
+        continue;
+      }
+      if (options.categories && !options.categories.includes(pattern.category)) {
+        continue;
+      }
+
+      findings.push(...this.testPattern(pattern, text).filter(finding => finding.confidence >= threshold));
+    }
+
+    return findings.sort((a, b) => a.start - b.start || b.end - a.end);
+  }
+
+  /**
+   * Every match of one pattern with its confidence, whatever the threshold.
+   * Used by detect() and by the live test box in pattern settings.
+   */
+  testPattern(pattern: RedactionPattern, text: string): SensitiveFinding[] {
+    const findings: SensitiveFinding[] = [];
+
+    for (const match of text.matchAll(pattern.pattern)) {
+      if (!match[0]) {
+        continue;
+      }
+      const start = match.index ?? 0;
+      findings.push({
+        patternName: pattern.name,
+        category: pattern.category,
+        start,
+        end: start + match[0].length,
+        text: match[0],
+        confidence: scorePatternMatch(match[0], pattern, text, start)
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Replace the findings in the text they were detected in. Overlapping
+   * findings are replaced once, with the replacement for the first of them.
+   */
+  redact(
+    text: string,
+    findings: SensitiveFinding[],
+    replacement: (finding: SensitiveFinding) => string = () => '[REDACTED]'
+  ): string {
+    const sorted = [...findings].sort((a, b) => a.start - b.start || b.end - a.end);
+    let redactedText = '';
+    let position = 0;
+
+    for (const finding of sorted) {
+      if (finding.end <= position) {
+        continue;
+      }
+      if (finding.start >= position) {
+        redactedText += text.substring(position, finding.start) + replacement(finding);
+      }
+      position = finding.end;
+    }
+
+    return redactedText + text.substring(position);
+  }
+
+  /**
+   * Pick up the country saved at registration, unless one was set explicitly
+   */
+  private async loadCountry(): Promise<void> {
+    if (this.countryLoaded) {
+      return;
+    }
+    this.countryLoaded = true;
+    try {
+      const country = await AuthService.getSecureItem('country');
+      if (country) {
+        this.country = country.toLowerCase();
+        console.log(`🌐 [SensitiveContent] Using redaction patterns for country: ${this.country}`);
+      }
+    } catch (error) {
+      console.warn('⚠️ [SensitiveContent] Could not read user country, applying all patterns:', error);
+    }
+  }
+}
+
+export default SensitiveContentDetector;
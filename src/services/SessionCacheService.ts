@@ -0,0 +1,226 @@
+import { Filesystem } from '@capacitor/filesystem';
+import LlamaService from './LlamaService';
+import { StoragePathService } from './StoragePathService';
+
+/**
+ * Session Cache Service - keeps the evaluated prompt of each offline chat
+ *
+ * The local model's KV cache holds the chat it last answered. When the user
+ * leaves that chat it is written to a session file next to the model; when
+ * they come back it is loaded again, so llama.cpp only has to evaluate the
+ * new question instead of the whole conversation. A cache is only used with
+ * the exact model file that produced it.
+ */
+
+const INDEX_KEY = 'llama_session_caches';
+
+interface SessionCacheEntry {
+  modelId: string;
+  // Identifies the model file and the LoRA adapters on it; a change makes the cache useless
+  modelFingerprint: string;
+  locationId: string;
+  path: string;
+  savedAt: string;
+  tokens: number;
+}
+
+export class SessionCacheService {
+  private static instance: SessionCacheService;
+  private llamaService = LlamaService.getInstance();
+  private storagePathService = StoragePathService.getInstance();
+  private index: Record<string, SessionCacheEntry> | null = null;
+  // The chat whose prompt is in the loaded model's KV cache, as of a context revision
+  private activeSession: { sessionId: string; modelId: string; revision: number } | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): SessionCacheService {
+    if (!SessionCacheService.instance) {
+      SessionCacheService.instance = new SessionCacheService();
+    }
+    return SessionCacheService.instance;
+  }
+
+  /**
+   * Record that the loaded model has just evaluated this chat. Any completion
+   * after this one replaces the cache, so it is only saved until then.
+   */
+  markActive(sessionId: string | null): void {
+    const modelId = this.llamaService.getCurrentModel();
+    this.activeSession = sessionId && modelId
+      ? { sessionId, modelId, revision: this.llamaService.getContextRevision() }
+      : null;
+  }
+
+  /**
+   * Write the chat's KV cache to its session file, if the loaded model holds it
+   */
+  async save(sessionId: string | null): Promise<void> {
+    const modelId = this.llamaService.getCurrentModel();
+    const model = modelId ? this.llamaService.getModel(modelId) : null;
+    if (!sessionId || !model || !this.holdsSession(sessionId, model.id)) {
+      return;
+    }
+
+    try {
+      const primaryLocation = await this.storagePathService.getModelPrimaryLocation(model.id);
+      if (!primaryLocation) {
+        return;
+      }
+      const locationId = primaryLocation.location.id;
+      const path = this.storagePathService.getSessionCachePath(model.id, sessionId, locationId);
+      await Filesystem.mkdir({
+        path: path.slice(0, path.lastIndexOf('/')),
+        directory: primaryLocation.location.directory,
+        recursive: true
+      }).catch(() => undefined); // Already there
+
+      const tokens = await this.llamaService.saveSession(await this.getNativePath(path, locationId));
+
+      const index = await this.loadIndex();
+      const previous = index[sessionId];
+      if (previous && previous.path !== path) {
+        await this.deleteFile(previous);
+      }
+      index[sessionId] = {
+        modelId: model.id,
+        modelFingerprint: this.getFingerprint(model.id),
+        locationId,
+        path,
+        savedAt: new Date().toISOString(),
+        tokens
+      };
+      await this.saveIndex();
+      console.log(`💾 [SessionCache] Saved ${tokens} token(s) of session ${sessionId}`);
+    } catch (error) {
+      console.error(`❌ [SessionCache] Failed to save session ${sessionId}:`, error);
+    }
+  }
+
+  /**
+   * Load the chat's session file into the loaded model. Returns whether a cache
+   * was restored; a cache from another model or model version is deleted.
+   */
+  async restore(sessionId: string | null): Promise<boolean> {
+    const modelId = this.llamaService.getCurrentModel();
+    if (!sessionId || !modelId) {
+      return false;
+    }
+    if (this.holdsSession(sessionId, modelId)) {
+      return true;
+    }
+
+    const index = await this.loadIndex();
+    const entry = index[sessionId];
+    if (!entry) {
+      return false;
+    }
+
+    if (entry.modelId !== modelId || entry.modelFingerprint !== this.getFingerprint(modelId)) {
+      console.log(`🗑️ [SessionCache] Session ${sessionId} was cached with ${entry.modelId}, discarding`);
+      await this.discard(sessionId);
+      return false;
+    }
+
+    try {
+      const result = await this.llamaService.loadSession(await this.getNativePath(entry.path, entry.locationId));
+      this.markActive(sessionId);
+      console.log(`⚡ [SessionCache] Restored ${result.tokens_loaded ?? result.n_tokens} token(s) of session ${sessionId}`);
+      return true;
+    } catch (error) {
+      console.error(`❌ [SessionCache] Failed to restore session ${sessionId}, discarding:`, error);
+      await this.discard(sessionId);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a chat's session file, e.g. when the chat is deleted
+   */
+  async discard(sessionId: string): Promise<void> {
+    const index = await this.loadIndex();
+    const entry = index[sessionId];
+    if (this.activeSession?.sessionId === sessionId) {
+      this.activeSession = null;
+    }
+    if (!entry) {
+      return;
+    }
+    await this.deleteFile(entry);
+    delete index[sessionId];
+    await this.saveIndex();
+  }
+
+  /**
+   * Number and total size of the saved session files, in all storage locations
+   */
+  async getUsage(): Promise<{ files: number; bytes: number }> {
+    return this.storagePathService.getSessionCacheUsage();
+  }
+
+  /**
+   * Delete every saved session file. Chats still work, they are just evaluated
+   * from the start when next answered offline.
+   */
+  async clear(): Promise<void> {
+    await this.storagePathService.deleteSessionCaches();
+    await this.loadIndex();
+    this.index = {};
+    await this.saveIndex();
+    console.log('🗑️ [SessionCache] Deleted all saved sessions');
+  }
+
+  private holdsSession(sessionId: string, modelId: string): boolean {
+    return this.activeSession?.sessionId === sessionId &&
+      this.activeSession.modelId === modelId &&
+      this.activeSession.revision === this.llamaService.getContextRevision();
+  }
+
+  private getFingerprint(modelId: string): string {
+    const model = this.llamaService.getModel(modelId);
+    const modelFile = model?.sha256 ?? `${model?.url ?? modelId}:${model?.sizeMB ?? 0}`;
+    return `${modelFile}|${this.llamaService.getLoraSignature(modelId)}`;
+  }
+
+  private async getNativePath(path: string, locationId: string): Promise<string> {
+    const location = this.storagePathService.getStorageLocations().find(loc => loc.id === locationId);
+    if (!location) {
+      throw new Error(`Storage location ${locationId} not found`);
+    }
+    const { uri } = await Filesystem.getUri({ path, directory: location.directory });
+    return uri.replace(/^file:\/\//, '');
+  }
+
+  private async deleteFile(entry: SessionCacheEntry): Promise<void> {
+    const location = this.storagePathService.getStorageLocations().find(loc => loc.id === entry.locationId);
+    if (!location) {
+      return;
+    }
+    try {
+      await Filesystem.deleteFile({ path: entry.path, directory: location.directory });
+    } catch {
+      // Already gone, e.g. with its model
+    }
+  }
+
+  private async loadIndex(): Promise<Record<string, SessionCacheEntry>> {
+    if (this.index === null) {
+      try {
+        const { Preferences } = await import('@capacitor/preferences');
+        const { value } = await Preferences.get({ key: INDEX_KEY });
+        this.index = value ? JSON.parse(value) : {};
+      } catch (error) {
+        console.warn('⚠️ [SessionCache] Could not read the cache index:', error);
+        this.index = {};
+      }
+    }
+    return this.index!;
+  }
+
+  private async saveIndex(): Promise<void> {
+    const { Preferences } = await import('@capacitor/preferences');
+    await Preferences.set({ key: INDEX_KEY, value: JSON.stringify(this.index ?? {}) });
+  }
+}
+
+export default SessionCacheService;
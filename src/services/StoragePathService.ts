@@ -26,6 +26,9 @@ export interface StorageInfo {
   writable: boolean;
   freeSpace?: number;
   totalSpace?: number;
+  // Saved chat session caches (llama.cpp KV state) kept next to the models
+  sessionCacheBytes?: number;
+  sessionCacheFiles?: number;
   error?: string;
 }
 
@@ -172,10 +175,13 @@ export class StoragePathService {
           recursive: true
         });
 
+        const sessionCache = await this.getSessionCacheUsage(location.id);
         return {
           location,
           available: true,
-          writable: true
+          writable: true,
+          sessionCacheBytes: sessionCache.bytes,
+          sessionCacheFiles: sessionCache.files
         };
       } catch (writeError) {
         return {
@@ -299,6 +305,93 @@ export class StoragePathService {
     };
   }
 
+  /**
+   * Path of the in-progress download for a model (resumed with HTTP Range requests)
+   */
+  public getPartialModelPath(modelId: string, locationId?: string): string {
+    return `${this.getModelPath(modelId, locationId)}.part`;
+  }
+
+  /**
+   * Find an interrupted download for a model so it can be resumed in place
+   */
+  public async findPartialModel(modelId: string): Promise<{ location: StorageLocation; path: string; size: number } | null> {
+    for (const location of this.getStorageLocations()) {
+      const partialPath = this.getPartialModelPath(modelId, location.id);
+      try {
+        const fileInfo = await Filesystem.stat({
+          path: partialPath,
+          directory: location.directory
+        });
+        return { location, path: partialPath, size: fileInfo.size };
+      } catch {
+        // No partial download in this location
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Path of the saved KV cache of a chat session, next to the model it was evaluated with
+   */
+  public getSessionCachePath(modelId: string, sessionId: string, locationId?: string): string {
+    const location = this.storageLocations.find(loc => loc.id === locationId) ?? this.storageLocations[0];
+    const sanitizedModel = modelId.replace(/[.-]/g, '_');
+    const sanitizedSession = sessionId.replace(/[^A-Za-z0-9_]/g, '_');
+    return `${location.path}/sessions/${sanitizedModel}/${sanitizedSession}.session`;
+  }
+
+  /**
+   * Number and total size of saved session caches, in one location or all of them
+   */
+  public async getSessionCacheUsage(locationId?: string): Promise<{ files: number; bytes: number }> {
+    const usage = { files: 0, bytes: 0 };
+    const locations = this.storageLocations.filter(loc => !locationId || loc.id === locationId);
+
+    for (const location of locations) {
+      let modelDirs;
+      try {
+        modelDirs = await Filesystem.readdir({ path: `${location.path}/sessions`, directory: location.directory });
+      } catch {
+        // No session caches in this location
+        continue;
+      }
+      for (const modelDir of modelDirs.files.filter(entry => entry.type === 'directory')) {
+        try {
+          const files = await Filesystem.readdir({
+            path: `${location.path}/sessions/${modelDir.name}`,
+            directory: location.directory
+          });
+          for (const file of files.files.filter(entry => entry.type === 'file')) {
+            usage.files++;
+            usage.bytes += file.size;
+          }
+        } catch (error) {
+          console.warn(`Failed to list session caches in ${location.name}/${modelDir.name}:`, error);
+        }
+      }
+    }
+    return usage;
+  }
+
+  /**
+   * Delete the saved session caches of one model, or of all models
+   */
+  public async deleteSessionCaches(modelId?: string): Promise<void> {
+    const relativePath = modelId ? `sessions/${modelId.replace(/[.-]/g, '_')}` : 'sessions';
+    for (const location of this.storageLocations) {
+      try {
+        await Filesystem.rmdir({
+          path: `${location.path}/${relativePath}`,
+          directory: location.directory,
+          recursive: true
+        });
+      } catch {
+        // Nothing saved in this location
+      }
+    }
+  }
+
   /**
    * Check if a model exists in any storage location
    */
@@ -398,6 +491,9 @@ export class StoragePathService {
         const info = await this.checkStorageLocation(location);
         console.log(`   Available: ${info.available}`);
         console.log(`   Writable: ${info.writable}`);
+        if (info.sessionCacheFiles) {
+          console.log(`   Session caches: ${info.sessionCacheFiles} file(s), ${info.sessionCacheBytes} bytes`);
+        }
         if (info.error) {
           console.log(`   Error: ${info.error}`);
         }
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // development, staging or production (see src/config/environment.ts)
+  readonly VITE_APP_ENV?: string;
+  // SPKI public key (base64) that verifies the signed model catalog
+  readonly VITE_MODEL_CATALOG_PUBLIC_KEY?: string;
+}